@@ -0,0 +1,76 @@
+import type { AlertEvent, AlertSummary } from './types'
+
+const RECENT_SHOWN = 25
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleTimeString() : '-')
+
+const AlertRow = ({ alert, onSelect }: { alert: AlertEvent; onSelect: (containerId: string) => void }) => (
+  <li className={`alert-item ${alert.status}`}>
+    <span className={`alert-severity ${alert.severity}`}>{alert.severity}</span>
+    <button className="name-button" onClick={() => onSelect(alert.container.id)}>
+      {alert.container.name}
+    </button>
+    <span className="alert-rule">{alert.rule}</span>
+    <span className="alert-message">{alert.message}</span>
+    <span className="subtle">
+      {alert.status === 'resolved'
+        ? `resolved ${formatTime(alert.resolvedAt)}`
+        : `since ${formatTime(alert.startedAt)}`}
+    </span>
+  </li>
+)
+
+const AlertsPanel = ({
+  summary,
+  error,
+  onSelect,
+}: {
+  summary: AlertSummary | null
+  error: string | null
+  onSelect: (containerId: string) => void
+}) => {
+  if (error) return <div className="alerts-panel detail-muted">{error}</div>
+  if (!summary) return <div className="alerts-panel detail-muted">Loading alerts…</div>
+  if (!summary.enabled) {
+    return (
+      <div className="alerts-panel detail-muted">
+        No alert rules configured. Point <code>ALERT_RULES_FILE</code> at a rules file on the server.
+      </div>
+    )
+  }
+
+  return (
+    <div className="alerts-panel">
+      <section>
+        <h3>Active ({summary.active.length})</h3>
+        {summary.active.length === 0 ? (
+          <p className="detail-muted">Nothing is alerting.</p>
+        ) : (
+          <ul className="alert-list">
+            {summary.active.map((alert) => (
+              <AlertRow key={alert.id} alert={alert} onSelect={onSelect} />
+            ))}
+          </ul>
+        )}
+      </section>
+      <section>
+        <h3>Recent</h3>
+        {summary.recent.length === 0 ? (
+          <p className="detail-muted">No alerts yet.</p>
+        ) : (
+          <ul className="alert-list">
+            {summary.recent.slice(0, RECENT_SHOWN).map((alert) => (
+              <AlertRow key={`${alert.id}:${alert.status}`} alert={alert} onSelect={onSelect} />
+            ))}
+          </ul>
+        )}
+      </section>
+      <p className="detail-muted">
+        {summary.rules.length} rule{summary.rules.length === 1 ? '' : 's'}
+        {summary.notifiers.length ? ` · notifying ${summary.notifiers.join(', ')}` : ' · no notifiers configured'}
+      </p>
+    </div>
+  )
+}
+
+export default AlertsPanel
@@ -1,7 +1,65 @@
-import { Fragment, useCallback, useEffect, useMemo, useState } from 'react'
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import './App.css'
-import { fetchContainerDetail, fetchContainers } from './api'
-import type { ContainerDetail, ContainerInfo } from './types'
+import AlertsPanel from './AlertsPanel'
+import {
+  AuthError,
+  fetchAlerts,
+  fetchContainerDetail,
+  fetchContainerHistory,
+  fetchContainers,
+  fetchSession,
+  logout,
+  revealSecret,
+  runContainerAction,
+  subscribeContainers,
+  subscribeEvents,
+} from './api'
+import { MAX_COMPARED } from './compare'
+import CompareView from './CompareView'
+import ContainerActions from './ContainerActions'
+import { describeEvent, EVENT_LIMIT, eventTone } from './dockerEvents'
+import EventTicker from './EventTicker'
+import { formatBytes, formatDateTime, formatRate, formatUptime } from './format'
+import FileBrowser from './FileBrowser'
+import HealthCard from './HealthCard'
+import HostSummary from './HostSummary'
+import { INVENTORY_TABS } from './inventory'
+import InventoryView from './InventoryView'
+import LoginScreen from './LoginScreen'
+import LogViewer from './LogViewer'
+import { historyFromPoints } from './metricHistory'
+import type { MetricHistory } from './metricHistory'
+import ProcessTable from './ProcessTable'
+import { compileQuery } from './query'
+import {
+  appendFrame,
+  downloadBlob,
+  exportRecording,
+  frameIndexAt,
+  frameTime,
+  parseRecording,
+  replayPoints,
+} from './recording'
+import type { RecordedFrame, Replay } from './recording'
+import ReplayBar from './ReplayBar'
+import ResourcesCard from './ResourcesCard'
+import SavedFilters from './SavedFilters'
+import ShellTerminal from './ShellTerminal'
+import { COLUMNS, defaultDescending, loadTableView, saveTableView, sortContainers } from './tableView'
+import type { ColumnKey } from './tableView'
+import type {
+  AlertSummary,
+  AuthSession,
+  ContainerAction,
+  ContainerActionOptions,
+  ContainerDelta,
+  ContainerDetail,
+  ContainerInfo,
+  DockerEvent,
+  HostStatus,
+  InventoryKind,
+} from './types'
+import UsageBar from './UsageBar'
 
 const REFRESH_OPTIONS = [
   { label: '3s', value: 3000 },
@@ -10,6 +68,20 @@ const REFRESH_OPTIONS = [
   { label: '30s', value: 30000 },
 ]
 
+const STREAM_RETRY_MS = 30000
+
+type View = 'containers' | 'compare' | InventoryKind
+
+const VIEW_TABS: { label: string; value: View }[] = [
+  { label: 'Containers', value: 'containers' },
+  { label: 'Compare', value: 'compare' },
+  ...INVENTORY_TABS,
+]
+
+const ALERT_REFRESH_MS = 15000
+
+const REPLAY_TICK_MS = 250
+
 const stateClassMap: Record<string, string> = {
   running: 'state-running',
   paused: 'state-paused',
@@ -18,38 +90,56 @@ const stateClassMap: Record<string, string> = {
   unknown: 'state-unknown',
 }
 
-const UsageBar = ({ percent, label, type }: { percent: number; label: string; type: 'cpu' | 'mem' }) => {
-  const safePercent = Number.isFinite(percent) ? Math.min(Math.max(percent, 0), 100) : 0
+const HEALTH_BADGES: Record<string, string> = {
+  healthy: '♥',
+  unhealthy: '✕',
+  starting: '…',
+}
 
-  return (
-    <div className="usage">
-      <div className={`usage-bar ${type}`}>
-        <span style={{ width: `${safePercent}%` }} />
-      </div>
-      <span className="usage-label">{label}</span>
-    </div>
-  )
+const OPTIMISTIC_STATE: Record<ContainerAction, string> = {
+  start: 'running',
+  stop: 'stopped',
+  restart: 'restarting',
+  pause: 'paused',
+  unpause: 'running',
+  kill: 'stopped',
+  remove: 'stopped',
 }
 
 const HISTORY_POINTS = 40
 
-type MetricHistory = {
-  cpu: number[]
-  mem: number[]
-  netRx: number[]
-  netTx: number[]
-  blockRead: number[]
-  blockWrite: number[]
-}
+const TREND_WINDOWS = [
+  { label: 'Live', value: 0 },
+  { label: '15m', value: 15 * 60 * 1000 },
+  { label: '1h', value: 60 * 60 * 1000 },
+  { label: '6h', value: 6 * 60 * 60 * 1000 },
+  { label: '24h', value: 24 * 60 * 60 * 1000 },
+]
+
+type DetailTab = 'overview' | 'logs' | 'files' | 'shell'
+
+const DETAIL_TABS: { label: string; value: DetailTab }[] = [
+  { label: 'Overview', value: 'overview' },
+  { label: 'Logs', value: 'logs' },
+  { label: 'Files', value: 'files' },
+  { label: 'Shell', value: 'shell' },
+]
+
+const TREND_POINTS = 120
+const TREND_REFRESH_MS = 30000
+
+type SparklineMark = { position: number; label: string; tone: string }
 
 const Sparkline = ({
   data,
   max,
   colorClass,
+  marks = [],
 }: {
   data: number[]
   max?: number
   colorClass: string
+  marks?: SparklineMark[]
 }) => {
   const safeData = data.length ? data : [0]
   const peak = max ?? Math.max(...safeData, 1)
@@ -71,6 +161,18 @@ const Sparkline = ({
   return (
     <div className={`sparkline ${colorClass}`}>
       <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none">
+        {marks.map((mark, index) => (
+          <line
+            key={index}
+            className={`event-mark ${mark.tone}`}
+            x1={mark.position * width}
+            x2={mark.position * width}
+            y1={0}
+            y2={height}
+          >
+            <title>{mark.label}</title>
+          </line>
+        ))}
         <polyline points={points} />
         <circle cx={lastX} cy={lastY} r="2.5" />
       </svg>
@@ -85,32 +187,152 @@ function formatTimestamp(value: string | null) {
   return date.toLocaleTimeString()
 }
 
-function formatDateTime(value: string | null) {
-  if (!value) return '-'
-  const date = new Date(value)
-  if (Number.isNaN(date.getTime())) return '-'
-  return date.toLocaleString()
-}
-
 function splitList(value: string) {
   if (!value || value === '-') return ['-']
   return value.split(',').map((item) => item.trim())
 }
 
-function App() {
-  const [containers, setContainers] = useState<ContainerInfo[]>([])
+const COMPOSE_PROJECT_LABEL = 'com.docker.compose.project'
+const COMPOSE_SERVICE_LABEL = 'com.docker.compose.service'
+const UNGROUPED = '(ungrouped)'
+
+type GroupMode = 'none' | 'project' | 'service' | 'label'
+
+const GROUP_OPTIONS: { label: string; value: GroupMode }[] = [
+  { label: 'No grouping', value: 'none' },
+  { label: 'Compose project', value: 'project' },
+  { label: 'Compose service', value: 'service' },
+  { label: 'Label…', value: 'label' },
+]
+
+type ContainerGroup = {
+  key: string
+  containers: ContainerInfo[]
+  running: number
+  cpu: number
+  memUsage: number
+  netRx: number
+  netTx: number
+  blockRead: number
+  blockWrite: number
+}
+
+type TableRow = { kind: 'group'; group: ContainerGroup } | { kind: 'container'; container: ContainerInfo }
+
+function groupKeyFor(container: ContainerInfo, mode: GroupMode, labelKey: string) {
+  const labels = container.labels ?? {}
+  const project = labels[COMPOSE_PROJECT_LABEL]
+  if (mode === 'project') return project || UNGROUPED
+  if (mode === 'service') {
+    const service = labels[COMPOSE_SERVICE_LABEL]
+    return project && service ? `${project} / ${service}` : UNGROUPED
+  }
+  return labels[labelKey.trim()] || UNGROUPED
+}
+
+function groupContainers(list: ContainerInfo[], mode: GroupMode, labelKey: string) {
+  const groups = new Map<string, ContainerGroup>()
+  list.forEach((container) => {
+    const key = groupKeyFor(container, mode, labelKey)
+    const group = groups.get(key) ?? {
+      key,
+      containers: [],
+      running: 0,
+      cpu: 0,
+      memUsage: 0,
+      netRx: 0,
+      netTx: 0,
+      blockRead: 0,
+      blockWrite: 0,
+    }
+    group.containers.push(container)
+    if (container.state === 'running') group.running += 1
+    group.cpu += container.cpu
+    group.memUsage += container.memoryBytes?.usage ?? 0
+    group.netRx += container.netRate?.rx ?? 0
+    group.netTx += container.netRate?.tx ?? 0
+    group.blockRead += container.blockRate?.read ?? 0
+    group.blockWrite += container.blockRate?.write ?? 0
+    groups.set(key, group)
+  })
+  return [...groups.values()].sort((a, b) => {
+    if (a.key === UNGROUPED) return 1
+    if (b.key === UNGROUPED) return -1
+    return a.key.localeCompare(b.key)
+  })
+}
+
+function applyContainerDelta(list: ContainerInfo[], delta: ContainerDelta) {
+  const removed = new Set(delta.removed)
+  const changed = new Map(delta.changed.map((container) => [container.id, container]))
+  return list
+    .filter((container) => !removed.has(container.id))
+    .map((container) => changed.get(container.id) ?? container)
+    .concat(delta.added)
+}
+
+function Dashboard({
+  session,
+  onSignOut,
+  onUnauthorized,
+}: {
+  session: AuthSession
+  onSignOut: () => void
+  onUnauthorized: () => void
+}) {
+  const [liveContainers, setContainers] = useState<ContainerInfo[]>([])
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [filterQuery, setFilterQuery] = useState('')
+  const [initialView] = useState(loadTableView)
+  const [filterQuery, setFilterQuery] = useState(initialView.filter)
+  const [sortBy, setSortBy] = useState<ColumnKey>(initialView.sortBy)
+  const [descending, setDescending] = useState(initialView.descending)
+  const [hiddenColumns, setHiddenColumns] = useState<ColumnKey[]>(initialView.hidden)
+  const [cursorId, setCursorId] = useState<string | null>(null)
+  const filterInputRef = useRef<HTMLInputElement>(null)
+  const [liveHosts, setHosts] = useState<HostStatus[]>([])
+  const [hostFilter, setHostFilter] = useState('')
+  const [view, setView] = useState<View>('containers')
+  const [groupMode, setGroupMode] = useState<GroupMode>('none')
+  const [groupLabel, setGroupLabel] = useState('team')
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set())
   const [refreshMs, setRefreshMs] = useState(5000)
   const [isPaused, setIsPaused] = useState(false)
-  const [lastUpdated, setLastUpdated] = useState<string | null>(null)
+  const [liveUpdated, setLastUpdated] = useState<string | null>(null)
+  const [stale, setStale] = useState(false)
   const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [compareIds, setCompareIds] = useState<string[]>([])
   const [detailById, setDetailById] = useState<Record<string, ContainerDetail>>({})
   const [detailLoading, setDetailLoading] = useState(false)
   const [detailError, setDetailError] = useState<string | null>(null)
   const [history, setHistory] = useState<Record<string, MetricHistory>>({})
+  const [detailTab, setDetailTab] = useState<DetailTab>('overview')
+  const [revealedSecrets, setRevealedSecrets] = useState<Record<string, string>>({})
+  const [actionPending, setActionPending] = useState(false)
+  const [trendWindowMs, setTrendWindowMs] = useState(0)
+  const [serverHistory, setServerHistory] = useState<{ key: string; data: MetricHistory } | null>(null)
+  const [streamState, setStreamState] = useState<'connecting' | 'live' | 'polling'>('connecting')
+  const [alertSummary, setAlertSummary] = useState<AlertSummary | null>(null)
+  const [alertError, setAlertError] = useState<string | null>(null)
+  const [showAlerts, setShowAlerts] = useState(false)
+  const [events, setEvents] = useState<DockerEvent[]>([])
+  const [eventsLive, setEventsLive] = useState(false)
+  const [eventRetry, setEventRetry] = useState(0)
+  const [recording, setRecording] = useState(false)
+  const [recordedFrames, setRecordedFrames] = useState<RecordedFrame[]>([])
+  const [replay, setReplay] = useState<Replay | null>(null)
+  const replayInputRef = useRef<HTMLInputElement>(null)
+  const streamDown = streamState === 'polling'
+
+  // While replaying, the table, header and sparklines are driven by the recorded frame.
+  const replaying = replay !== null
+  const replayPlaying = replay?.playing ?? false
+  const replayIndex = replay ? frameIndexAt(replay.frames, replay.position) : -1
+  const replayFrame = replay ? replay.frames[replayIndex] : null
+  const containers = replayFrame ? replayFrame.containers : liveContainers
+  const hosts = replayFrame ? (replayFrame.hosts ?? []) : liveHosts
+  const lastUpdated = replayFrame ? replayFrame.fetchedAt : liveUpdated
 
   const loadContainers = useCallback(async (opts?: { silent?: boolean }) => {
     const silent = opts?.silent ?? false
@@ -123,9 +345,12 @@ function App() {
     try {
       const data = await fetchContainers()
       setContainers(data.containers)
-      setLastUpdated(data.fetchedAt)
+      setHosts(data.hosts ?? [])
+      setLastUpdated(data.collectedAt ?? data.fetchedAt)
+      setStale(data.stale ?? false)
       setError(null)
     } catch (err) {
+      if (err instanceof AuthError) onUnauthorized()
       const message = err instanceof Error ? err.message : 'Unable to load containers'
       setError(message)
     } finally {
@@ -135,21 +360,67 @@ function App() {
         setLoading(false)
       }
     }
-  }, [])
+  }, [onUnauthorized])
 
   useEffect(() => {
     loadContainers()
   }, [loadContainers])
 
   useEffect(() => {
-    if (isPaused) return undefined
+    if (isPaused || streamDown || replaying) return undefined
+    return subscribeContainers({
+      onSnapshot: (data) => {
+        setContainers(data.containers)
+        setHosts(data.hosts ?? [])
+        setLastUpdated(data.fetchedAt)
+        setStale(false)
+        setError(null)
+        setLoading(false)
+        setStreamState('live')
+      },
+      onDelta: (delta) => {
+        setContainers((prev) => applyContainerDelta(prev, delta))
+        if (delta.hosts) setHosts(delta.hosts)
+        setLastUpdated(delta.fetchedAt)
+      },
+      onError: () => setStreamState('polling'),
+    })
+  }, [isPaused, streamDown, replaying])
+
+  useEffect(() => {
+    if (isPaused || !streamDown || replaying) return undefined
     const id = setInterval(() => {
       loadContainers({ silent: true })
     }, refreshMs)
+    const retryId = setTimeout(() => setStreamState('connecting'), STREAM_RETRY_MS)
+    return () => {
+      clearInterval(id)
+      clearTimeout(retryId)
+    }
+  }, [isPaused, streamDown, replaying, refreshMs, loadContainers])
+
+  useEffect(() => {
+    if (!recording) return
+    setRecordedFrames((prev) =>
+      appendFrame(prev, { containers: liveContainers, hosts: liveHosts, fetchedAt: new Date().toISOString() }),
+    )
+  }, [recording, liveContainers, liveHosts])
+
+  useEffect(() => {
+    if (!replayPlaying) return undefined
+    const id = setInterval(() => {
+      setReplay((prev) => {
+        if (!prev) return prev
+        const end = frameTime(prev.frames[prev.frames.length - 1])
+        const position = Math.min(prev.position + REPLAY_TICK_MS * prev.speed, end)
+        return { ...prev, position, playing: position < end }
+      })
+    }, REPLAY_TICK_MS)
     return () => clearInterval(id)
-  }, [isPaused, refreshMs, loadContainers])
+  }, [replayPlaying])
 
   useEffect(() => {
+    const now = Date.now()
     setHistory((prev) => {
       const next: Record<string, MetricHistory> = {}
       const append = (list: number[], value: number) => {
@@ -157,8 +428,9 @@ function App() {
         return nextList.slice(-HISTORY_POINTS)
       }
 
-      containers.forEach((container) => {
+      liveContainers.forEach((container) => {
         const current = prev[container.id] || {
+          times: [],
           cpu: [],
           mem: [],
           netRx: [],
@@ -167,18 +439,45 @@ function App() {
           blockWrite: [],
         }
         next[container.id] = {
+          times: append(current.times, now),
           cpu: append(current.cpu, container.cpu),
           mem: append(current.mem, container.memory.percent),
-          netRx: append(current.netRx, container.netIOBytes?.rx ?? 0),
-          netTx: append(current.netTx, container.netIOBytes?.tx ?? 0),
-          blockRead: append(current.blockRead, container.blockIOBytes?.read ?? 0),
-          blockWrite: append(current.blockWrite, container.blockIOBytes?.write ?? 0),
+          netRx: append(current.netRx, container.netRate?.rx ?? 0),
+          netTx: append(current.netTx, container.netRate?.tx ?? 0),
+          blockRead: append(current.blockRead, container.blockRate?.read ?? 0),
+          blockWrite: append(current.blockWrite, container.blockRate?.write ?? 0),
         }
       })
 
       return next
     })
-  }, [containers])
+  }, [liveContainers])
+
+  useEffect(() => {
+    if (!selectedId || !trendWindowMs) return undefined
+    const key = `${selectedId}:${trendWindowMs}`
+    let cancelled = false
+    const load = async () => {
+      const to = Date.now()
+      try {
+        const data = await fetchContainerHistory(selectedId, {
+          from: to - trendWindowMs,
+          to,
+          step: Math.round(trendWindowMs / TREND_POINTS / 1000),
+        })
+        if (!cancelled) setServerHistory({ key, data: historyFromPoints(data.points) })
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unable to load container history'
+        if (!cancelled) setDetailError(message)
+      }
+    }
+    load()
+    const id = setInterval(load, TREND_REFRESH_MS)
+    return () => {
+      cancelled = true
+      clearInterval(id)
+    }
+  }, [selectedId, trendWindowMs])
 
   useEffect(() => {
     if (selectedId && !containers.some((container) => container.id === selectedId)) {
@@ -186,23 +485,146 @@ function App() {
     }
   }, [containers, selectedId])
 
+  useEffect(() => {
+    let cancelled = false
+    const load = () =>
+      fetchAlerts()
+        .then((data) => {
+          if (cancelled) return
+          setAlertSummary(data)
+          setAlertError(null)
+        })
+        .catch((err) => {
+          if (err instanceof AuthError) onUnauthorized()
+          if (!cancelled) setAlertError(err instanceof Error ? err.message : 'Unable to load alerts')
+        })
+    load()
+    const id = setInterval(load, ALERT_REFRESH_MS)
+    return () => {
+      cancelled = true
+      clearInterval(id)
+    }
+  }, [onUnauthorized])
+
+  useEffect(() => {
+    let retryId: ReturnType<typeof setTimeout> | undefined
+    const unsubscribe = subscribeEvents(
+      { limit: EVENT_LIMIT },
+      {
+        onEvents: (initial) => {
+          setEvents(initial)
+          setEventsLive(true)
+        },
+        onEvent: (event) => setEvents((prev) => [...prev, event].slice(-EVENT_LIMIT)),
+        onError: () => {
+          setEventsLive(false)
+          retryId = setTimeout(() => setEventRetry((value) => value + 1), STREAM_RETRY_MS)
+        },
+      },
+    )
+    return () => {
+      unsubscribe()
+      clearTimeout(retryId)
+    }
+  }, [eventRetry])
+
+  const alertingIds = useMemo(
+    () => new Set((alertSummary?.active ?? []).map((alert) => alert.container.id)),
+    [alertSummary],
+  )
+
+  const compiledQuery = useMemo(() => compileQuery(filterQuery), [filterQuery])
+
   const filteredContainers = useMemo(() => {
-    const needle = filterQuery.trim().toLowerCase()
-    if (!needle) return containers
-    return containers.filter((container) => {
-      return (
-        container.name.toLowerCase().includes(needle) ||
-        container.raw.shortId.toLowerCase().includes(needle) ||
-        container.networks.toLowerCase().includes(needle)
-      )
+    const scoped = hostFilter ? containers.filter((container) => container.host === hostFilter) : containers
+    return sortContainers(scoped.filter(compiledQuery.match), sortBy, descending)
+  }, [containers, compiledQuery, hostFilter, sortBy, descending])
+
+  const tableRows = useMemo<TableRow[]>(() => {
+    if (groupMode === 'none') return filteredContainers.map((container) => ({ kind: 'container', container }))
+    return groupContainers(filteredContainers, groupMode, groupLabel).flatMap((group): TableRow[] => [
+      { kind: 'group', group },
+      ...(collapsedGroups.has(group.key)
+        ? []
+        : group.containers.map((container): TableRow => ({ kind: 'container', container }))),
+    ])
+  }, [filteredContainers, groupMode, groupLabel, collapsedGroups])
+
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
     })
-  }, [containers, filterQuery])
+  }
 
+  const canOperate = session.user?.role === 'operator'
+  const detailTabs = canOperate ? DETAIL_TABS : DETAIL_TABS.filter((tab) => tab.value !== 'shell')
   const runningCount = useMemo(() => containers.filter((c) => c.state === 'running').length, [containers])
+  const multiHost = hosts.length > 1
+  const visibleColumns = COLUMNS.filter(
+    (column) => !hiddenColumns.includes(column.key) && (column.key !== 'host' || multiHost),
+  )
+  const shown = Object.fromEntries(visibleColumns.map((column) => [column.key, true])) as Partial<
+    Record<ColumnKey, boolean>
+  >
+  const columnCount = visibleColumns.length
+  const chooserColumns = COLUMNS.filter((column) => column.hideable && (column.key !== 'host' || multiHost))
+  const containerRows = tableRows.flatMap((row) => (row.kind === 'container' ? [row.container.id] : []))
+  const hostCounts = useMemo(() => {
+    const counts: Record<string, { total: number; running: number }> = {}
+    containers.forEach((container) => {
+      const entry = counts[container.host] ?? { total: 0, running: 0 }
+      entry.total += 1
+      if (container.state === 'running') entry.running += 1
+      counts[container.host] = entry
+    })
+    return counts
+  }, [containers])
 
   const handleManualRefresh = () => loadContainers()
   const selectedDetail = selectedId ? detailById[selectedId] || null : null
-  const selectedHistory = selectedId ? history[selectedId] || null : null
+  const selectedHistory = !selectedId
+    ? null
+    : replay
+      ? historyFromPoints(replayPoints(replay.frames, replayIndex, selectedId, HISTORY_POINTS))
+      : trendWindowMs
+      ? serverHistory?.key === `${selectedId}:${trendWindowMs}`
+        ? serverHistory.data
+        : null
+      : history[selectedId] || null
+  const compared = useMemo(
+    () => compareIds.flatMap((id) => containers.filter((container) => container.id === id)),
+    [compareIds, containers],
+  )
+  const compareHistory = useMemo(
+    () =>
+      replay
+        ? Object.fromEntries(
+            compared.map((container) => [
+              container.id,
+              historyFromPoints(replayPoints(replay.frames, replayIndex, container.id, HISTORY_POINTS)),
+            ]),
+          )
+        : history,
+    [replay, replayIndex, compared, history],
+  )
+  const selectedEvents = useMemo(
+    () => (selectedId ? events.filter((event) => event.containerId === selectedId) : []),
+    [events, selectedId],
+  )
+  const eventMarks: SparklineMark[] = (() => {
+    const times = selectedHistory?.times ?? []
+    if (times.length < 2) return []
+    const start = times[0]
+    const end = times[times.length - 1]
+    return selectedEvents.flatMap((event) => {
+      const time = Date.parse(event.time)
+      if (time < start || time > end) return []
+      return [{ position: (time - start) / (end - start), label: describeEvent(event), tone: eventTone(event) }]
+    })
+  })()
 
   const loadDetail = useCallback(async (containerId: string) => {
     setDetailLoading(true)
@@ -218,7 +640,98 @@ function App() {
     }
   }, [])
 
+  // Health status changes only arrive as events, so refresh the open detail panel on them.
+  const lastEvent = events.length ? events[events.length - 1] : null
+  const handledEventRef = useRef<number | null>(null)
+  useEffect(() => {
+    if (!lastEvent || handledEventRef.current === lastEvent.id) return
+    handledEventRef.current = lastEvent.id
+    if (selectedId && lastEvent.action === 'health_status' && lastEvent.containerId === selectedId) {
+      loadDetail(selectedId)
+    }
+  }, [lastEvent, selectedId, loadDetail])
+
+  const setContainerState = (containerId: string, state: string) => {
+    setContainers((prev) => prev.map((container) => (container.id === containerId ? { ...container, state } : container)))
+  }
+
+  const handleAction = async (containerId: string, action: ContainerAction, options: ContainerActionOptions) => {
+    const previousState = containers.find((container) => container.id === containerId)?.state ?? 'unknown'
+    setActionPending(true)
+    setDetailError(null)
+    setContainerState(containerId, OPTIMISTIC_STATE[action])
+
+    try {
+      await runContainerAction(containerId, action, options)
+      if (action === 'remove') {
+        setContainers((prev) => prev.filter((container) => container.id !== containerId))
+        setSelectedId(null)
+      } else {
+        loadDetail(containerId)
+      }
+    } catch (err) {
+      setContainerState(containerId, previousState)
+      if (err instanceof AuthError) onUnauthorized()
+      const message = err instanceof Error ? err.message : `Unable to ${action} container`
+      setDetailError(message)
+    } finally {
+      setActionPending(false)
+    }
+  }
+
+  const toggleSecret = async (containerId: string, key: string) => {
+    const secretId = `${containerId}:${key}`
+    if (revealedSecrets[secretId] !== undefined) {
+      setRevealedSecrets((prev) => {
+        const next = { ...prev }
+        delete next[secretId]
+        return next
+      })
+      return
+    }
+    try {
+      const secret = await revealSecret(containerId, { source: 'env', key })
+      setRevealedSecrets((prev) => ({ ...prev, [secretId]: secret.value }))
+    } catch (err) {
+      if (err instanceof AuthError) onUnauthorized()
+      const message = err instanceof Error ? err.message : 'Unable to reveal secret'
+      setDetailError(message)
+    }
+  }
+
+  const handleLoadRecording = async (file: File) => {
+    try {
+      const frames = await parseRecording(file)
+      setReplay({ name: file.name, frames, position: frameTime(frames[0]), playing: false, speed: 1 })
+      setView('containers')
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? `Unable to load recording: ${err.message}` : 'Unable to load recording')
+    }
+  }
+
+  const handleExportRecording = async () => {
+    const { blob, filename } = await exportRecording(recordedFrames)
+    downloadBlob(blob, filename)
+  }
+
+  const toggleRecording = () => {
+    if (!recording) setRecordedFrames([])
+    setRecording((value) => !value)
+  }
+
+  const exitReplay = () => {
+    setReplay(null)
+    loadContainers({ silent: true })
+  }
+
+  const handleInventorySelect = (containerId: string) => {
+    setView('containers')
+    if (selectedId !== containerId) handleSelect(containerId)
+  }
+
   const handleSelect = (containerId: string) => {
+    setCursorId(containerId)
     if (selectedId === containerId) {
       setSelectedId(null)
       setDetailError(null)
@@ -231,6 +744,103 @@ function App() {
     }
   }
 
+  const toggleCompare = (containerId: string) => {
+    setCompareIds((prev) => {
+      if (prev.includes(containerId)) return prev.filter((id) => id !== containerId)
+      return prev.length >= MAX_COMPARED ? prev : [...prev, containerId]
+    })
+  }
+
+  const openFromCompare = (containerId: string) => {
+    setView('containers')
+    if (selectedId !== containerId) handleSelect(containerId)
+  }
+
+  const handleSort = (key: ColumnKey) => {
+    if (key === sortBy) {
+      setDescending((prev) => !prev)
+    } else {
+      setSortBy(key)
+      setDescending(defaultDescending(key))
+    }
+  }
+
+  const cycleSort = () => {
+    const index = visibleColumns.findIndex((column) => column.key === sortBy)
+    const next = visibleColumns[(index + 1) % visibleColumns.length].key
+    setSortBy(next)
+    setDescending(defaultDescending(next))
+  }
+
+  const toggleColumn = (key: ColumnKey) => {
+    setHiddenColumns((prev) => (prev.includes(key) ? prev.filter((item) => item !== key) : [...prev, key]))
+  }
+
+  useEffect(() => {
+    saveTableView({ sortBy, descending, hidden: hiddenColumns, filter: filterQuery })
+  }, [sortBy, descending, hiddenColumns, filterQuery])
+
+  useEffect(() => {
+    if (!cursorId) return
+    document.querySelector(`[data-row-id="${cursorId}"]`)?.scrollIntoView({ block: 'nearest' })
+  }, [cursorId])
+
+  // ctop-style bindings. Keys typed into inputs, selects and the shell terminal are left alone.
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (view !== 'containers' || event.ctrlKey || event.metaKey || event.altKey) return
+      const target = event.target as HTMLElement | null
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        if (event.key === 'Escape' && target === filterInputRef.current) target.blur()
+        return
+      }
+      if (event.key === 'Enter' && target?.tagName === 'BUTTON') return
+
+      const index = cursorId ? containerRows.indexOf(cursorId) : -1
+      switch (event.key) {
+        case 'j':
+        case 'ArrowDown':
+          if (!containerRows.length) return
+          setCursorId(containerRows[Math.min(index + 1, containerRows.length - 1)])
+          break
+        case 'k':
+        case 'ArrowUp':
+          if (!containerRows.length) return
+          setCursorId(containerRows[Math.max(index - 1, 0)])
+          break
+        case 'Enter':
+          if (!cursorId || index === -1) return
+          handleSelect(cursorId)
+          break
+        case 'Escape':
+          if (!selectedId) return
+          setSelectedId(null)
+          break
+        case 'x':
+          if (!cursorId || index === -1) return
+          toggleCompare(cursorId)
+          break
+        case '/':
+          filterInputRef.current?.focus()
+          break
+        case 's':
+          cycleSort()
+          break
+        case 'r':
+          setDescending((prev) => !prev)
+          break
+        case 'p':
+          setIsPaused((prev) => !prev)
+          break
+        default:
+          return
+      }
+      event.preventDefault()
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  })
+
   return (
     <div className="app-shell">
       <div className="panel">
@@ -248,309 +858,777 @@ function App() {
             <span>
               Running: <strong>{runningCount}</strong>
             </span>
-            <span>
+            {multiHost &&
+              hosts.map((host) => (
+                <span key={host.name} className="host-count" title={host.error ?? undefined}>
+                  <span className={`host-health ${host.ok === false ? 'down' : 'up'}`} />
+                  {host.name}:{' '}
+                  <strong>
+                    {hostCounts[host.name]?.running ?? 0}/{hostCounts[host.name]?.total ?? 0}
+                  </strong>
+                </span>
+              ))}
+            <span
+              className={stale && !replaying ? 'stale' : undefined}
+              title={stale && !replaying ? 'The server has not refreshed its snapshot recently' : undefined}
+            >
               Updated: <strong>{formatTimestamp(lastUpdated)}</strong>
+              {stale && !replaying && ' (stale)'}
             </span>
+            <button
+              className={`control small${recording ? ' danger active' : ''}`}
+              onClick={toggleRecording}
+              disabled={replaying}
+              title={recording ? 'Stop recording snapshots' : 'Record dashboard snapshots in this browser'}
+            >
+              {recording ? `● Rec ${recordedFrames.length}` : 'Record'}
+            </button>
+            {recordedFrames.length > 0 && (
+              <button className="control small" onClick={handleExportRecording}>
+                Export
+              </button>
+            )}
+            <button className="control small" onClick={() => replayInputRef.current?.click()}>
+              Replay…
+            </button>
+            <input
+              ref={replayInputRef}
+              type="file"
+              accept=".ndjson,.json,.gz,application/gzip,application/json"
+              hidden
+              onChange={(event) => {
+                const file = event.target.files?.[0]
+                if (file) handleLoadRecording(file)
+                event.target.value = ''
+              }}
+            />
+            <button
+              className={`control small ${alertingIds.size ? 'danger' : ''} ${showAlerts ? 'active' : ''}`}
+              onClick={() => setShowAlerts((value) => !value)}
+            >
+              Alerts {alertSummary?.active.length ?? 0}
+            </button>
+            {session.authRequired && session.user && (
+              <span>
+                {session.user.username} <strong>{session.user.role}</strong>{' '}
+                <button className="control small" onClick={onSignOut}>
+                  Sign Out
+                </button>
+              </span>
+            )}
           </div>
         </div>
 
-        <div className="controls">
-          <input
-            type="search"
-            placeholder="Filter containers (name, id, network)"
-            value={filterQuery}
-            onChange={(event) => setFilterQuery(event.target.value)}
+        <HostSummary paused={isPaused} onUnauthorized={onUnauthorized} />
+
+        {replay && (
+          <ReplayBar
+            replay={replay}
+            onChange={(update) => setReplay((prev) => (prev ? { ...prev, ...update } : prev))}
+            onExit={exitReplay}
           />
-          <div className="control-group">
-            <button className="control primary" onClick={handleManualRefresh} disabled={loading}>
-              Refresh
-            </button>
-            <button className="control" onClick={() => setIsPaused((value) => !value)}>
-              {isPaused ? 'Resume Auto' : 'Pause Auto'}
+        )}
+
+        <div className="view-tabs">
+          {VIEW_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              className={`detail-tab${view === tab.value ? ' active' : ''}`}
+              onClick={() => setView(tab.value)}
+            >
+              {tab.label}
+              {tab.value === 'compare' && compared.length > 0 && ` (${compared.length})`}
             </button>
-            <select className="control" value={refreshMs} onChange={(event) => setRefreshMs(Number(event.target.value))}>
-              {REFRESH_OPTIONS.map((option) => (
-                <option key={option.value} value={option.value}>
-                  Every {option.label}
-                </option>
-              ))}
-            </select>
-          </div>
+          ))}
         </div>
 
-        {error && <div className="error-banner">{error}</div>}
-
-        <div className="table-container">
-          {loading ? (
-            <div className="loading-state">
-              <div className="loading-spinner" />
-              <p>Gathering container stats…</p>
-            </div>
-          ) : filteredContainers.length === 0 ? (
-            <div className="empty-state">
-              <p>No containers match your filters.</p>
+        {view === 'compare' ? (
+          <CompareView
+            containers={compared}
+            history={compareHistory}
+            multiHost={multiHost}
+            onRemove={toggleCompare}
+            onClear={() => setCompareIds([])}
+            onOpen={openFromCompare}
+          />
+        ) : view !== 'containers' ? (
+          <InventoryView
+            kind={view}
+            host={hostFilter}
+            hostNames={hosts.map((host) => host.name)}
+            onHostChange={setHostFilter}
+            canOperate={canOperate}
+            onSelectContainer={handleInventorySelect}
+            onUnauthorized={onUnauthorized}
+          />
+        ) : (
+          <>
+            <div className="controls">
+              <input
+                ref={filterInputRef}
+                type="search"
+                className={compiledQuery.error ? 'invalid' : undefined}
+                placeholder="Filter: name, state:running cpu>50 label:team=payments -health:healthy  /"
+                value={filterQuery}
+                spellCheck={false}
+                onChange={(event) => setFilterQuery(event.target.value)}
+              />
+              <div className="control-group">
+                <SavedFilters query={filterQuery} onApply={setFilterQuery} />
+                {multiHost && (
+                  <select className="control" value={hostFilter} onChange={(event) => setHostFilter(event.target.value)}>
+                    <option value="">All hosts</option>
+                    {hosts.map((host) => (
+                      <option key={host.name} value={host.name}>
+                        {host.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <select
+                  className="control"
+                  value={groupMode}
+                  onChange={(event) => setGroupMode(event.target.value as GroupMode)}
+                >
+                  {GROUP_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                {groupMode === 'label' && (
+                  <input
+                    className="control"
+                    type="text"
+                    placeholder="label key"
+                    value={groupLabel}
+                    onChange={(event) => setGroupLabel(event.target.value)}
+                  />
+                )}
+                <details className="column-chooser">
+                  <summary className="control">Columns</summary>
+                  <div className="column-menu">
+                    {chooserColumns.map((column) => (
+                      <label key={column.key}>
+                        <input
+                          type="checkbox"
+                          checked={!hiddenColumns.includes(column.key)}
+                          onChange={() => toggleColumn(column.key)}
+                        />
+                        {column.label}
+                      </label>
+                    ))}
+                  </div>
+                </details>
+                <button className="control primary" onClick={handleManualRefresh} disabled={loading}>
+                  Refresh
+                </button>
+                <button className="control" onClick={() => setIsPaused((value) => !value)}>
+                  {isPaused ? 'Resume Auto' : 'Pause Auto'}
+                </button>
+                <select className="control" value={refreshMs} onChange={(event) => setRefreshMs(Number(event.target.value))}>
+                  {REFRESH_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      Every {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
-          ) : (
-            <table>
-              <thead>
-                <tr>
-                  <th>NAME</th>
-                  <th>PORTS</th>
-                  <th>NETWORKS</th>
-                  <th>CPU</th>
-                  <th>MEM</th>
-                  <th>NET RX/TX</th>
-                  <th>IO R/W</th>
-                  <th>PIDS</th>
-                  <th>UPTIME</th>
-                </tr>
-              </thead>
-              <tbody>
-                {filteredContainers.map((container) => {
-                  const isSelected = container.id === selectedId
-
-                  return (
-                    <Fragment key={container.id}>
-                      <tr>
-                        <td>
-                          <div className="name-cell">
-                            <span className={`state-indicator ${stateClassMap[container.state] ?? 'state-unknown'}`} />
-                            <div className="name-stack">
-                              <button className="name-button" onClick={() => handleSelect(container.id)}>
-                                {container.name}
-                              </button>
-                              <span className="subtle">{container.raw.shortId}</span>
-                            </div>
-                          </div>
-                        </td>
-                        <td>
-                          <div className="badge-stack">
-                            {splitList(container.ports).map((item, index) => (
-                              <span key={index} className="net-badge">
-                                {item}
-                              </span>
-                            ))}
-                          </div>
-                        </td>
-                        <td>
-                          <div className="badge-stack">
-                            {splitList(container.networks).map((network, index) => (
-                              <span key={index} className="net-badge">
-                                {network}
-                              </span>
-                            ))}
-                          </div>
-                        </td>
-                        <td>
-                          <UsageBar type="cpu" percent={container.cpu} label={`${container.cpu.toFixed(1)}%`} />
-                        </td>
-                        <td>
-                          <UsageBar
-                            type="mem"
-                            percent={container.memory.percent}
-                            label={`${container.memory.usage} / ${container.memory.limit}`}
-                          />
-                        </td>
-                        <td>
-                          <div className="badge-stack">
-                            <span className="net-badge">⬇ {container.netIO.rx}</span>
-                            <span className="net-badge">⬆ {container.netIO.tx}</span>
-                          </div>
-                        </td>
-                        <td>
-                          <div className="badge-stack">
-                            <span className="block-badge">R {container.blockIO.read}</span>
-                            <span className="block-badge">W {container.blockIO.write}</span>
-                          </div>
-                        </td>
-                        <td>{container.pids}</td>
-                        <td>{container.uptime}</td>
-                      </tr>
-                      {isSelected && (
-                        <tr className="detail-row">
-                          <td colSpan={9}>
-                            <div className="detail-panel inline">
-                              <div className="detail-header">
-                                <div>
-                                  <div className="detail-title">
-                                    <span
-                                      className={`state-indicator ${stateClassMap[container.state] ?? 'state-unknown'}`}
-                                    />
-                                    <h2>{selectedDetail?.name || container.name}</h2>
-                                  </div>
-                                  <p className="detail-subtle">
-                                    {selectedDetail?.image || '-'} · {container.raw.shortId}
-                                  </p>
-                                </div>
-                                <div className="detail-actions">
+
+            <EventTicker events={events} connected={eventsLive} onSelect={handleSelect} />
+
+            {showAlerts && (
+              <AlertsPanel summary={alertSummary} error={alertError} onSelect={handleSelect} />
+            )}
+
+            {compiledQuery.error && (
+              <div className="query-error">
+                <code>
+                  {filterQuery.slice(0, compiledQuery.error.start)}
+                  <mark>{filterQuery.slice(compiledQuery.error.start, compiledQuery.error.end) || ' '}</mark>
+                  {filterQuery.slice(compiledQuery.error.end)}
+                </code>
+                <span>{compiledQuery.error.message}</span>
+              </div>
+            )}
+
+            {error && <div className="error-banner">{error}</div>}
+
+            <div className="table-container">
+              {loading ? (
+                <div className="loading-state">
+                  <div className="loading-spinner" />
+                  <p>Gathering container stats…</p>
+                </div>
+              ) : filteredContainers.length === 0 ? (
+                <div className="empty-state">
+                  <p>No containers match your filters.</p>
+                </div>
+              ) : (
+                <table>
+                  <thead>
+                    <tr>
+                      {visibleColumns.map((column) => (
+                        <th
+                          key={column.key}
+                          aria-sort={sortBy === column.key ? (descending ? 'descending' : 'ascending') : undefined}
+                        >
+                          <button className="sort-button" onClick={() => handleSort(column.key)}>
+                            {column.label}
+                            {sortBy === column.key ? (descending ? ' ▼' : ' ▲') : ''}
+                          </button>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {tableRows.map((row) => {
+                      if (row.kind === 'group') {
+                        const { group } = row
+                        const collapsed = collapsedGroups.has(group.key)
+                        return (
+                          <tr key={`group:${group.key}`} className="group-row" onClick={() => toggleGroup(group.key)}>
+                            <td colSpan={columnCount}>
+                              <div className="group-header">
+                                <span className="group-caret">{collapsed ? '▸' : '▾'}</span>
+                                <strong>{group.key}</strong>
+                                <span className="subtle">
+                                  {group.running}/{group.containers.length} running
+                                </span>
+                                <span className="net-badge">CPU {group.cpu.toFixed(1)}%</span>
+                                <span className="net-badge">MEM {formatBytes(group.memUsage)}</span>
+                                <span className="net-badge">
+                                  ⬇ {formatRate(group.netRx)} ⬆ {formatRate(group.netTx)}
+                                </span>
+                                <span className="block-badge">
+                                  R {formatRate(group.blockRead)} W {formatRate(group.blockWrite)}
+                                </span>
+                              </div>
+                            </td>
+                          </tr>
+                        )
+                      }
+
+                      const { container } = row
+                      const isSelected = container.id === selectedId
+
+                      return (
+                        <Fragment key={container.id}>
+                          <tr
+                            data-row-id={container.id}
+                            className={
+                              [container.id === cursorId && 'cursor-row', alertingIds.has(container.id) && 'alerting']
+                                .filter(Boolean)
+                                .join(' ') || undefined
+                            }
+                          >
+                            <td>
+                              <div className="name-cell">
+                                <input
+                                  type="checkbox"
+                                  className="compare-check"
+                                  checked={compareIds.includes(container.id)}
+                                  disabled={!compareIds.includes(container.id) && compareIds.length >= MAX_COMPARED}
+                                  onChange={() => toggleCompare(container.id)}
+                                  title="Select for comparison"
+                                />
+                                <span className={`state-indicator ${stateClassMap[container.state] ?? 'state-unknown'}`} />
+                                {container.health && (
+                                  <span
+                                    className={`health-badge ${container.health}`}
+                                    title={`Health: ${container.health}`}
+                                  >
+                                    {HEALTH_BADGES[container.health] ?? container.health}
+                                  </span>
+                                )}
+                                <div className="name-stack">
                                   <button
-                                    className="control"
-                                    onClick={() => selectedId && loadDetail(selectedId)}
-                                    disabled={detailLoading}
+                                    className="name-button"
+                                    onClick={(event) =>
+                                      event.shiftKey ? toggleCompare(container.id) : handleSelect(container.id)
+                                    }
                                   >
-                                    Refresh Detail
-                                  </button>
-                                  <button className="control" onClick={() => setSelectedId(null)}>
-                                    Close
+                                    {container.name}
                                   </button>
+                                  <span className="subtle">{container.raw.shortId}</span>
                                 </div>
+                                {container.collectionError && (
+                                  <span className="collection-error" title={container.collectionError}>
+                                    !
+                                  </span>
+                                )}
                               </div>
-
-                              {detailError && <div className="error-banner">{detailError}</div>}
-
-                              <div className="detail-grid">
-                                <section className="detail-card">
-                                  <h3>Overview</h3>
-                                  <dl>
-                                    <div>
-                                      <dt>Status</dt>
-                                      <dd>{selectedDetail?.status || container.state || '-'}</dd>
-                                    </div>
-                                    <div>
-                                      <dt>Health</dt>
-                                      <dd>{selectedDetail?.health || '-'}</dd>
-                                    </div>
-                                    <div>
-                                      <dt>Uptime</dt>
-                                      <dd>{container.uptime || '-'}</dd>
-                                    </div>
-                                    <div>
-                                      <dt>PID</dt>
-                                      <dd>{selectedDetail?.pid ?? container.pids ?? '-'}</dd>
-                                    </div>
-                                    <div>
-                                      <dt>Restarts</dt>
-                                      <dd>{selectedDetail?.restartCount ?? '-'}</dd>
-                                    </div>
-                                    <div>
-                                      <dt>Ports</dt>
-                                      <dd>{selectedDetail?.ports || container.ports || '-'}</dd>
-                                    </div>
-                                    <div>
-                                      <dt>Networks</dt>
-                                      <dd>{selectedDetail?.networks || container.networks || '-'}</dd>
-                                    </div>
-                                    <div>
-                                      <dt>IPs</dt>
-                                      <dd>{selectedDetail?.ipAddresses?.length ? selectedDetail.ipAddresses.join(', ') : '-'}</dd>
-                                    </div>
-                                    <div>
-                                      <dt>Created</dt>
-                                      <dd>{formatDateTime(selectedDetail?.created || null)}</dd>
-                                    </div>
-                                    <div>
-                                      <dt>Started</dt>
-                                      <dd>{formatDateTime(selectedDetail?.startedAt || null)}</dd>
-                                    </div>
-                                  </dl>
-                                </section>
-
-                                <section className="detail-card">
-                                  <h3>Runtime</h3>
-                                  <dl>
-                                    <div>
-                                      <dt>Command</dt>
-                                      <dd>{selectedDetail?.command || '-'}</dd>
-                                    </div>
-                                    <div>
-                                      <dt>Entrypoint</dt>
-                                      <dd>{selectedDetail?.entrypoint || '-'}</dd>
-                                    </div>
-                                    <div>
-                                      <dt>User</dt>
-                                      <dd>{selectedDetail?.user || '-'}</dd>
-                                    </div>
+                            </td>
+                            {shown.host && <td>{container.host}</td>}
+                            {shown.ports && (
+                              <td>
+                                <div className="badge-stack">
+                                  {splitList(container.ports).map((item, index) => (
+                                    <span key={index} className="net-badge">
+                                      {item}
+                                    </span>
+                                  ))}
+                                </div>
+                              </td>
+                            )}
+                            {shown.networks && (
+                              <td>
+                                <div className="badge-stack">
+                                  {splitList(container.networks).map((network, index) => (
+                                    <span key={index} className="net-badge">
+                                      {network}
+                                    </span>
+                                  ))}
+                                </div>
+                              </td>
+                            )}
+                            {shown.cpu && (
+                              <td>
+                                <UsageBar type="cpu" percent={container.cpu} label={`${container.cpu.toFixed(1)}%`} />
+                              </td>
+                            )}
+                            {shown.mem && (
+                              <td>
+                                <UsageBar
+                                  type="mem"
+                                  percent={container.memory.percent}
+                                  label={`${container.memory.usage} / ${container.memory.limit}`}
+                                />
+                              </td>
+                            )}
+                            {shown.net && (
+                              <td>
+                                <div className="badge-stack">
+                                  <span className="net-badge" title={`${container.netIO.rx} total`}>
+                                    ⬇ {formatRate(container.netRate?.rx)}
+                                  </span>
+                                  <span className="net-badge" title={`${container.netIO.tx} total`}>
+                                    ⬆ {formatRate(container.netRate?.tx)}
+                                  </span>
+                                </div>
+                              </td>
+                            )}
+                            {shown.io && (
+                              <td>
+                                <div className="badge-stack">
+                                  <span className="block-badge" title={`${container.blockIO.read} total`}>
+                                    R {formatRate(container.blockRate?.read)}
+                                  </span>
+                                  <span className="block-badge" title={`${container.blockIO.write} total`}>
+                                    W {formatRate(container.blockRate?.write)}
+                                  </span>
+                                </div>
+                              </td>
+                            )}
+                            {shown.pids && <td>{container.pids}</td>}
+                            {shown.uptime && <td>{formatUptime(container.startedAt, container.uptime)}</td>}
+                          </tr>
+                          {isSelected && (
+                            <tr className="detail-row">
+                              <td colSpan={columnCount}>
+                                <div className="detail-panel inline">
+                                  <div className="detail-header">
                                     <div>
-                                      <dt>Working Dir</dt>
-                                      <dd>{selectedDetail?.workingDir || '-'}</dd>
-                                    </div>
-                                  </dl>
-                                </section>
-
-                                <section className="detail-card detail-metrics">
-                                  <h3>Resource Trends</h3>
-                                  <div className="chart-grid">
-                                    <div className="chart-block">
-                                      <div className="chart-header">
-                                        <span>CPU</span>
-                                        <span>{`${container.cpu.toFixed(1)}%`}</span>
+                                      <div className="detail-title">
+                                        <span
+                                          className={`state-indicator ${stateClassMap[container.state] ?? 'state-unknown'}`}
+                                        />
+                                        <h2>{selectedDetail?.name || container.name}</h2>
                                       </div>
-                                      <Sparkline data={selectedHistory?.cpu || []} max={100} colorClass="cpu" />
+                                      <p className="detail-subtle">
+                                        {selectedDetail?.image || '-'} · {container.raw.shortId}
+                                      </p>
                                     </div>
-                                    <div className="chart-block">
-                                      <div className="chart-header">
-                                        <span>MEM</span>
-                                        <span>{`${container.memory.usage} / ${container.memory.limit}`}</span>
-                                      </div>
-                                      <Sparkline data={selectedHistory?.mem || []} max={100} colorClass="mem" />
-                                    </div>
-                                    <div className="chart-block">
-                                      <div className="chart-header">
-                                        <span>NET RX</span>
-                                        <span>{container.netIO.rx || '-'}</span>
-                                      </div>
-                                      <Sparkline data={selectedHistory?.netRx || []} colorClass="net" />
-                                    </div>
-                                    <div className="chart-block">
-                                      <div className="chart-header">
-                                        <span>NET TX</span>
-                                        <span>{container.netIO.tx || '-'}</span>
-                                      </div>
-                                      <Sparkline data={selectedHistory?.netTx || []} colorClass="net-alt" />
-                                    </div>
-                                    <div className="chart-block">
-                                      <div className="chart-header">
-                                        <span>IO READ</span>
-                                        <span>{container.blockIO.read || '-'}</span>
-                                      </div>
-                                      <Sparkline data={selectedHistory?.blockRead || []} colorClass="io" />
-                                    </div>
-                                    <div className="chart-block">
-                                      <div className="chart-header">
-                                        <span>IO WRITE</span>
-                                        <span>{container.blockIO.write || '-'}</span>
-                                      </div>
-                                      <Sparkline data={selectedHistory?.blockWrite || []} colorClass="io-alt" />
+                                    <div className="detail-actions">
+                                      {canOperate && !replaying && (
+                                        <>
+                                          <ContainerActions
+                                            name={container.name}
+                                            state={container.state}
+                                            busy={actionPending}
+                                            onAction={(action, options) => handleAction(container.id, action, options)}
+                                          />
+                                          <button
+                                            className="control"
+                                            onClick={() => setDetailTab('shell')}
+                                            disabled={container.state !== 'running'}
+                                          >
+                                            Shell
+                                          </button>
+                                        </>
+                                      )}
+                                      <button
+                                        className="control"
+                                        onClick={() => selectedId && loadDetail(selectedId)}
+                                        disabled={detailLoading}
+                                      >
+                                        Refresh Detail
+                                      </button>
+                                      <button className="control" onClick={() => setSelectedId(null)}>
+                                        Close
+                                      </button>
                                     </div>
                                   </div>
-                                </section>
-
-                                <section className="detail-card detail-env">
-                                  <h3>Environment</h3>
-                                  {detailLoading && !selectedDetail ? (
-                                    <p className="detail-muted">Loading environment variables…</p>
-                                  ) : selectedDetail?.env?.length ? (
-                                    <div className="env-grid">
-                                      {selectedDetail.env.map((item) => (
-                                        <div key={item.key} className="env-row">
-                                          <span>{item.key}</span>
-                                          <span>{item.value || '-'}</span>
+
+                                  {detailError && <div className="error-banner">{detailError}</div>}
+
+                                  <div className="detail-tabs">
+                                    {detailTabs.map((tab) => (
+                                      <button
+                                        key={tab.value}
+                                        className={`detail-tab${detailTab === tab.value ? ' active' : ''}`}
+                                        onClick={() => setDetailTab(tab.value)}
+                                      >
+                                        {tab.label}
+                                      </button>
+                                    ))}
+                                  </div>
+
+                                  {detailTab === 'overview' && (
+                                    <div className="detail-grid">
+                                      <section className="detail-card">
+                                        <h3>Overview</h3>
+                                        <dl>
+                                          <div>
+                                            <dt>Status</dt>
+                                            <dd>{selectedDetail?.status || container.state || '-'}</dd>
+                                          </div>
+                                          <div>
+                                            <dt>Health</dt>
+                                            <dd>{selectedDetail?.health || '-'}</dd>
+                                          </div>
+                                          <div>
+                                            <dt>Uptime</dt>
+                                            <dd>{formatUptime(container.startedAt, container.uptime || '-')}</dd>
+                                          </div>
+                                          <div>
+                                            <dt>PID</dt>
+                                            <dd>{selectedDetail?.pid ?? container.pids ?? '-'}</dd>
+                                          </div>
+                                          <div>
+                                            <dt>Restarts</dt>
+                                            <dd>{selectedDetail?.restartCount ?? '-'}</dd>
+                                          </div>
+                                          <div>
+                                            <dt>Ports</dt>
+                                            <dd>{selectedDetail?.ports || container.ports || '-'}</dd>
+                                          </div>
+                                          <div>
+                                            <dt>Networks</dt>
+                                            <dd>{selectedDetail?.networks || container.networks || '-'}</dd>
+                                          </div>
+                                          <div>
+                                            <dt>IPs</dt>
+                                            <dd>{selectedDetail?.ipAddresses?.length ? selectedDetail.ipAddresses.join(', ') : '-'}</dd>
+                                          </div>
+                                          <div>
+                                            <dt>Created</dt>
+                                            <dd>{formatDateTime(selectedDetail?.created || null)}</dd>
+                                          </div>
+                                          <div>
+                                            <dt>Started</dt>
+                                            <dd>{formatDateTime(selectedDetail?.startedAt || null)}</dd>
+                                          </div>
+                                        </dl>
+                                      </section>
+
+                                      <section className="detail-card">
+                                        <h3>Runtime</h3>
+                                        <dl>
+                                          <div>
+                                            <dt>Command</dt>
+                                            <dd>{selectedDetail?.command || '-'}</dd>
+                                          </div>
+                                          <div>
+                                            <dt>Entrypoint</dt>
+                                            <dd>{selectedDetail?.entrypoint || '-'}</dd>
+                                          </div>
+                                          <div>
+                                            <dt>User</dt>
+                                            <dd>{selectedDetail?.user || '-'}</dd>
+                                          </div>
+                                          <div>
+                                            <dt>Working Dir</dt>
+                                            <dd>{selectedDetail?.workingDir || '-'}</dd>
+                                          </div>
+                                        </dl>
+                                      </section>
+
+                                      <HealthCard
+                                        health={selectedDetail ? selectedDetail.healthCheck : undefined}
+                                        loading={detailLoading}
+                                      />
+
+                                      <ResourcesCard
+                                        containerId={container.id}
+                                        resources={selectedDetail?.resources}
+                                        canEdit={canOperate && !replaying}
+                                        onUpdated={() => loadDetail(container.id)}
+                                        onUnauthorized={onUnauthorized}
+                                      />
+
+                                      <section className="detail-card detail-metrics">
+                                        <div className="card-header">
+                                          <h3>Resource Trends</h3>
+                                          <div className="window-picker">
+                                            {TREND_WINDOWS.map((option) => (
+                                              <button
+                                                key={option.value}
+                                                className={`control small${trendWindowMs === option.value ? ' active' : ''}`}
+                                                onClick={() => setTrendWindowMs(option.value)}
+                                              >
+                                                {option.label}
+                                              </button>
+                                            ))}
+                                          </div>
+                                        </div>
+                                        <div className="chart-grid">
+                                          <div className="chart-block">
+                                            <div className="chart-header">
+                                              <span>CPU</span>
+                                              <span>{`${container.cpu.toFixed(1)}%`}</span>
+                                            </div>
+                                            <Sparkline
+                                              data={selectedHistory?.cpu || []}
+                                              max={100}
+                                              colorClass="cpu"
+                                              marks={eventMarks}
+                                            />
+                                          </div>
+                                          <div className="chart-block">
+                                            <div className="chart-header">
+                                              <span>MEM</span>
+                                              <span>{`${container.memory.usage} / ${container.memory.limit}`}</span>
+                                            </div>
+                                            <Sparkline
+                                              data={selectedHistory?.mem || []}
+                                              max={100}
+                                              colorClass="mem"
+                                              marks={eventMarks}
+                                            />
+                                          </div>
+                                          <div className="chart-block">
+                                            <div className="chart-header">
+                                              <span>NET RX</span>
+                                              <span>
+                                                {formatRate(container.netRate?.rx)} · {container.netIO.rx} total
+                                              </span>
+                                            </div>
+                                            <Sparkline
+                                              data={selectedHistory?.netRx || []}
+                                              colorClass="net"
+                                              marks={eventMarks}
+                                            />
+                                          </div>
+                                          <div className="chart-block">
+                                            <div className="chart-header">
+                                              <span>NET TX</span>
+                                              <span>
+                                                {formatRate(container.netRate?.tx)} · {container.netIO.tx} total
+                                              </span>
+                                            </div>
+                                            <Sparkline
+                                              data={selectedHistory?.netTx || []}
+                                              colorClass="net-alt"
+                                              marks={eventMarks}
+                                            />
+                                          </div>
+                                          <div className="chart-block">
+                                            <div className="chart-header">
+                                              <span>IO READ</span>
+                                              <span>
+                                                {formatRate(container.blockRate?.read)} · {container.blockIO.read} total
+                                              </span>
+                                            </div>
+                                            <Sparkline
+                                              data={selectedHistory?.blockRead || []}
+                                              colorClass="io"
+                                              marks={eventMarks}
+                                            />
+                                          </div>
+                                          <div className="chart-block">
+                                            <div className="chart-header">
+                                              <span>IO WRITE</span>
+                                              <span>
+                                                {formatRate(container.blockRate?.write)} · {container.blockIO.write} total
+                                              </span>
+                                            </div>
+                                            <Sparkline
+                                              data={selectedHistory?.blockWrite || []}
+                                              colorClass="io-alt"
+                                              marks={eventMarks}
+                                            />
+                                          </div>
                                         </div>
-                                      ))}
+                                        <div className="resource-breakdown">
+                                          <span>
+                                            RSS <strong>{formatBytes(container.memoryBytes?.rss ?? 0)}</strong>
+                                          </span>
+                                          <span>
+                                            Cache <strong>{formatBytes(container.memoryBytes?.cache ?? 0)}</strong>
+                                          </span>
+                                          <span>
+                                            Swap{' '}
+                                            <strong>
+                                              {container.memoryBytes?.swap == null ? 'n/a' : formatBytes(container.memoryBytes.swap)}
+                                            </strong>
+                                          </span>
+                                        </div>
+                                        {container.state === 'running' &&
+                                          (container.cpuPerCore?.length ? (
+                                            <div className="core-grid">
+                                              {container.cpuPerCore.map((value, index) => (
+                                                <div key={index} className="core-usage">
+                                                  <span className="subtle">cpu{index}</span>
+                                                  <UsageBar type="cpu" percent={value} label={`${value.toFixed(1)}%`} />
+                                                </div>
+                                              ))}
+                                            </div>
+                                          ) : (
+                                            <p className="detail-muted">Per-CPU usage is not reported on this host (cgroup v2).</p>
+                                          ))}
+                                        <div className="event-timeline">
+                                          <h4>Timeline</h4>
+                                          {selectedEvents.length === 0 ? (
+                                            <p className="detail-muted">No lifecycle events recorded for this container.</p>
+                                          ) : (
+                                            <ol>
+                                              {selectedEvents
+                                                .slice(-20)
+                                                .reverse()
+                                                .map((event) => (
+                                                  <li key={event.id} className={eventTone(event)}>
+                                                    <span className="subtle">{formatDateTime(event.time)}</span>
+                                                    <span>{describeEvent(event)}</span>
+                                                  </li>
+                                                ))}
+                                            </ol>
+                                          )}
+                                        </div>
+                                      </section>
+
+                                      <ProcessTable containerId={container.id} running={container.state === 'running'} />
+
+                                      <section className="detail-card detail-env">
+                                        <h3>Environment</h3>
+                                        {detailLoading && !selectedDetail ? (
+                                          <p className="detail-muted">Loading environment variables…</p>
+                                        ) : selectedDetail?.env?.length ? (
+                                          <div className="env-grid">
+                                            {selectedDetail.env.map((item) => {
+                                              const revealed = revealedSecrets[`${container.id}:${item.key}`]
+                                              return (
+                                                <div key={item.key} className="env-row">
+                                                  <span>{item.key}</span>
+                                                  <span className={item.redacted && revealed === undefined ? 'redacted' : undefined}>
+                                                    {revealed ?? (item.value || '-')}
+                                                    {item.redacted && selectedDetail.revealEnabled && (
+                                                      <button
+                                                        className="reveal-button"
+                                                        onClick={() => toggleSecret(container.id, item.key)}
+                                                      >
+                                                        {revealed === undefined ? 'Reveal' : 'Hide'}
+                                                      </button>
+                                                    )}
+                                                  </span>
+                                                </div>
+                                              )
+                                            })}
+                                          </div>
+                                        ) : (
+                                          <p className="detail-muted">No environment variables reported.</p>
+                                        )}
+                                      </section>
                                     </div>
-                                  ) : (
-                                    <p className="detail-muted">No environment variables reported.</p>
                                   )}
-                                </section>
-                              </div>
-                            </div>
-                          </td>
-                        </tr>
-                      )}
-                    </Fragment>
-                  )
-                })}
-              </tbody>
-            </table>
-          )}
-        </div>
-        <div className="footer-note">
-          Auto refresh {isPaused ? 'paused' : `every ${Math.round(refreshMs / 1000)}s`}
-          {refreshing && !loading ? ' · updating…' : ''}
-        </div>
+
+                                  {detailTab === 'logs' && <LogViewer containerId={container.id} containerName={container.name} />}
+
+                                  {detailTab === 'files' && (
+                                    <FileBrowser
+                                      containerId={container.id}
+                                      canRead={canOperate}
+                                      canUpload={canOperate && !replaying}
+                                      onUnauthorized={onUnauthorized}
+                                    />
+                                  )}
+
+                                  {detailTab === 'shell' && canOperate && (
+                                    <ShellTerminal containerId={container.id} running={container.state === 'running'} />
+                                  )}
+                                </div>
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+            <div className="footer-note">
+              {replaying
+                ? 'Live updates stopped while replaying'
+                : isPaused
+                  ? 'Auto refresh paused'
+                  : streamState === 'live'
+                    ? 'Live stream connected'
+                    : `Auto refresh every ${Math.round(refreshMs / 1000)}s`}
+              {refreshing && !loading ? ' · updating…' : ''}
+              <span className="key-hints">j/k move · Enter open · x compare · / filter · s sort · r reverse · p pause</span>
+            </div>
+          </>
+        )}
       </div>
     </div>
   )
 }
 
+function App() {
+  const [session, setSession] = useState<AuthSession | null>(null)
+  const [sessionError, setSessionError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchSession()
+      .then(setSession)
+      .catch((err) => {
+        const message = err instanceof Error ? err.message : 'Unable to reach the API'
+        setSessionError(message)
+      })
+  }, [])
+
+  const handleUnauthorized = useCallback(() => {
+    setSession((prev) => (prev ? { ...prev, user: null } : prev))
+  }, [])
+
+  const handleSignOut = async () => {
+    await logout()
+    handleUnauthorized()
+  }
+
+  if (!session) {
+    return (
+      <div className="app-shell">
+        <div className="panel">
+          {sessionError ? (
+            <div className="error-banner">{sessionError}</div>
+          ) : (
+            <div className="loading-state">
+              <div className="loading-spinner" />
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  if (session.authRequired && !session.user) {
+    return <LoginScreen methods={session.methods} onLogin={setSession} />
+  }
+
+  return <Dashboard session={session} onSignOut={handleSignOut} onUnauthorized={handleUnauthorized} />
+}
+
 export default App
@@ -0,0 +1,240 @@
+import { useMemo, useState } from 'react'
+import {
+  COMPARE_METRICS,
+  formatMetric,
+  isOutlier,
+  median,
+  MIN_OUTLIER_GROUP,
+  nearestIndex,
+  SERIES_COLORS,
+} from './compare'
+import type { CompareMetric } from './compare'
+import type { MetricHistory } from './metricHistory'
+import type { ContainerInfo } from './types'
+
+type Series = { id: string; name: string; color: string; times: number[]; values: number[] }
+
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 160
+
+const OverlayChart = ({ metric, series }: { metric: CompareMetric; series: Series[] }) => {
+  const [hoverRatio, setHoverRatio] = useState<number | null>(null)
+  const times = series.flatMap((item) => item.times)
+  const start = times.length ? Math.min(...times) : 0
+  const end = times.length ? Math.max(...times) : 0
+  const span = end - start || 1
+  const values = series.flatMap((item) => item.values.filter(Number.isFinite))
+  const peak = metric.unit === 'percent' ? Math.max(100, ...values) : Math.max(1, ...values)
+
+  const toX = (time: number) => ((time - start) / span) * CHART_WIDTH
+  const toY = (value: number) =>
+    CHART_HEIGHT - Math.min(Math.max((Number.isFinite(value) ? value : 0) / peak, 0), 1) * (CHART_HEIGHT - 8) - 4
+  const hover = hoverRatio === null ? null : { ratio: hoverRatio, time: start + hoverRatio * span }
+
+  return (
+    <div className="compare-chart">
+      <div className="card-header">
+        <strong>{metric.label}</strong>
+        <span className="subtle">peak {formatMetric(metric, peak)}</span>
+      </div>
+      <div
+        className="compare-plot"
+        onMouseMove={(event) => {
+          const rect = event.currentTarget.getBoundingClientRect()
+          setHoverRatio(Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1))
+        }}
+        onMouseLeave={() => setHoverRatio(null)}
+      >
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none">
+          {series.map((item) => (
+            <polyline
+              key={item.id}
+              stroke={item.color}
+              points={item.values
+                .map((value, index) => `${toX(item.times[index]).toFixed(1)},${toY(value).toFixed(1)}`)
+                .join(' ')}
+            />
+          ))}
+          {hover && (
+            <line
+              className="compare-cursor"
+              x1={hover.ratio * CHART_WIDTH}
+              x2={hover.ratio * CHART_WIDTH}
+              y1={0}
+              y2={CHART_HEIGHT}
+            />
+          )}
+        </svg>
+        {hover && (
+          <div
+            className="compare-tooltip"
+            style={{ left: `${hover.ratio * 100}%`, transform: hover.ratio > 0.6 ? 'translateX(-100%)' : undefined }}
+          >
+            <div className="subtle">{new Date(hover.time).toLocaleTimeString()}</div>
+            {series.map((item) => {
+              const index = nearestIndex(item.times, hover.time)
+              return (
+                <div key={item.id} className="compare-tooltip-row">
+                  <span className="compare-swatch" style={{ background: item.color }} />
+                  <span>{item.name}</span>
+                  <strong>{index === -1 ? '-' : formatMetric(metric, item.values[index])}</strong>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const CompareView = ({
+  containers,
+  history,
+  multiHost,
+  onRemove,
+  onClear,
+  onOpen,
+}: {
+  containers: ContainerInfo[]
+  history: Record<string, MetricHistory>
+  multiHost: boolean
+  onRemove: (id: string) => void
+  onClear: () => void
+  onOpen: (id: string) => void
+}) => {
+  const [hidden, setHidden] = useState<Set<string>>(new Set())
+
+  const colors = useMemo(
+    () =>
+      Object.fromEntries(
+        containers.map((container, index) => [container.id, SERIES_COLORS[index % SERIES_COLORS.length]]),
+      ),
+    [containers],
+  )
+
+  const medians = useMemo(
+    () => Object.fromEntries(COMPARE_METRICS.map((metric) => [metric.key, median(containers.map(metric.current))])),
+    [containers],
+  )
+
+  if (containers.length < 2) {
+    return (
+      <div className="empty-state">
+        <p>Tick two or more containers in the table, or shift-click their names, to compare them here.</p>
+      </div>
+    )
+  }
+
+  const flagOutliers = containers.length >= MIN_OUTLIER_GROUP
+  const visible = containers.filter((container) => !hidden.has(container.id))
+  const seriesFor = (metric: CompareMetric): Series[] =>
+    visible.map((container) => ({
+      id: container.id,
+      name: container.name,
+      color: colors[container.id],
+      times: history[container.id]?.times ?? [],
+      values: history[container.id]?.[metric.key] ?? [],
+    }))
+
+  const toggleHidden = (id: string) => {
+    setHidden((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  return (
+    <div className="compare-view">
+      <div className="compare-legend">
+        {containers.map((container) => (
+          <button
+            key={container.id}
+            className={`compare-legend-item${hidden.has(container.id) ? ' muted' : ''}`}
+            onClick={() => toggleHidden(container.id)}
+            title={hidden.has(container.id) ? 'Show on charts' : 'Hide from charts'}
+          >
+            <span className="compare-swatch" style={{ background: colors[container.id] }} />
+            {container.name}
+            {multiHost && <span className="subtle">@{container.host}</span>}
+          </button>
+        ))}
+        <button className="control small" onClick={onClear}>
+          Clear selection
+        </button>
+      </div>
+
+      <div className="compare-grid">
+        {COMPARE_METRICS.map((metric) => (
+          <OverlayChart key={metric.key} metric={metric} series={seriesFor(metric)} />
+        ))}
+      </div>
+
+      <table className="process-table compare-table">
+        <thead>
+          <tr>
+            <th>CONTAINER</th>
+            {multiHost && <th>HOST</th>}
+            <th>STATE</th>
+            {COMPARE_METRICS.map((metric) => (
+              <th key={metric.key}>{metric.label.toUpperCase()}</th>
+            ))}
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {containers.map((container) => (
+            <tr key={container.id}>
+              <td>
+                <span className="compare-swatch" style={{ background: colors[container.id] }} />{' '}
+                <button className="name-button" onClick={() => onOpen(container.id)}>
+                  {container.name}
+                </button>
+              </td>
+              {multiHost && <td>{container.host}</td>}
+              <td>{container.state}</td>
+              {COMPARE_METRICS.map((metric) => {
+                const value = metric.current(container)
+                const outlier = flagOutliers && isOutlier(metric, value, medians[metric.key])
+                return (
+                  <td
+                    key={metric.key}
+                    className={outlier ? 'compare-outlier' : undefined}
+                    title={outlier ? `Median ${formatMetric(metric, medians[metric.key])}` : undefined}
+                  >
+                    {formatMetric(metric, value)}
+                  </td>
+                )
+              })}
+              <td>
+                <button className="control small" onClick={() => onRemove(container.id)}>
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colSpan={multiHost ? 3 : 2} className="subtle">
+              Median
+            </td>
+            {COMPARE_METRICS.map((metric) => (
+              <td key={metric.key} className="subtle">
+                {formatMetric(metric, medians[metric.key])}
+              </td>
+            ))}
+            <td />
+          </tr>
+        </tfoot>
+      </table>
+      {!flagOutliers && (
+        <p className="detail-muted">Outliers are highlighted once three or more containers are compared.</p>
+      )}
+    </div>
+  )
+}
+
+export default CompareView
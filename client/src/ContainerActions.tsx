@@ -0,0 +1,108 @@
+import { useState } from 'react'
+import type { ContainerAction, ContainerActionOptions } from './types'
+
+const ACTIONS_BY_STATE: Record<string, ContainerAction[]> = {
+  running: ['stop', 'restart', 'pause', 'kill'],
+  paused: ['unpause', 'stop', 'kill'],
+  restarting: ['stop', 'kill'],
+  stopped: ['start', 'remove'],
+  unknown: ['start', 'stop', 'remove'],
+}
+
+const ACTION_LABELS: Record<ContainerAction, string> = {
+  start: 'Start',
+  stop: 'Stop',
+  restart: 'Restart',
+  pause: 'Pause',
+  unpause: 'Unpause',
+  kill: 'Kill',
+  remove: 'Remove',
+}
+
+const DESTRUCTIVE_ACTIONS = new Set<ContainerAction>(['stop', 'restart', 'kill', 'remove'])
+
+const SIGNALS = ['SIGKILL', 'SIGTERM', 'SIGINT', 'SIGHUP', 'SIGQUIT', 'SIGUSR1', 'SIGUSR2']
+
+const ContainerActions = ({
+  name,
+  state,
+  busy,
+  onAction,
+}: {
+  name: string
+  state: string
+  busy: boolean
+  onAction: (action: ContainerAction, options: ContainerActionOptions) => void
+}) => {
+  const [pending, setPending] = useState<ContainerAction | null>(null)
+  const [signal, setSignal] = useState(SIGNALS[0])
+  const [force, setForce] = useState(false)
+  const [volumes, setVolumes] = useState(false)
+  const actions = ACTIONS_BY_STATE[state] ?? ACTIONS_BY_STATE.unknown
+
+  const request = (action: ContainerAction) => {
+    if (DESTRUCTIVE_ACTIONS.has(action)) {
+      setPending(action)
+      return
+    }
+    onAction(action, {})
+  }
+
+  const confirm = () => {
+    if (!pending) return
+    if (pending === 'kill') onAction(pending, { signal })
+    else if (pending === 'remove') onAction(pending, { force, volumes })
+    else onAction(pending, {})
+    setPending(null)
+  }
+
+  return (
+    <>
+      {actions.map((action) => (
+        <button
+          key={action}
+          className={`control${DESTRUCTIVE_ACTIONS.has(action) ? ' danger' : ''}`}
+          onClick={() => request(action)}
+          disabled={busy || pending !== null}
+        >
+          {ACTION_LABELS[action]}
+        </button>
+      ))}
+      {pending && (
+        <div className="action-confirm">
+          <span>
+            {ACTION_LABELS[pending]} <strong>{name}</strong>?
+          </span>
+          {pending === 'kill' && (
+            <select className="control" value={signal} onChange={(event) => setSignal(event.target.value)}>
+              {SIGNALS.map((item) => (
+                <option key={item} value={item}>
+                  {item}
+                </option>
+              ))}
+            </select>
+          )}
+          {pending === 'remove' && (
+            <>
+              <label>
+                <input type="checkbox" checked={force} onChange={(event) => setForce(event.target.checked)} /> Force
+              </label>
+              <label>
+                <input type="checkbox" checked={volumes} onChange={(event) => setVolumes(event.target.checked)} />{' '}
+                Remove volumes
+              </label>
+            </>
+          )}
+          <button className="control danger" onClick={confirm}>
+            Confirm
+          </button>
+          <button className="control" onClick={() => setPending(null)}>
+            Cancel
+          </button>
+        </div>
+      )}
+    </>
+  )
+}
+
+export default ContainerActions
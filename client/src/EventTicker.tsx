@@ -0,0 +1,46 @@
+import { describeEvent, eventTone } from './dockerEvents'
+import type { DockerEvent } from './types'
+
+const TICKER_SIZE = 12
+
+const EventTicker = ({
+  events,
+  connected,
+  onSelect,
+}: {
+  events: DockerEvent[]
+  connected: boolean
+  onSelect: (containerId: string) => void
+}) => {
+  const latest = events.slice(-TICKER_SIZE).reverse()
+
+  return (
+    <div className="event-ticker">
+      <span className={`ticker-label${connected ? ' live' : ''}`}>Events</span>
+      {latest.length === 0 ? (
+        <span className="subtle">{connected ? 'No container events yet.' : 'Connecting to event feed…'}</span>
+      ) : (
+        <ol className="ticker-items">
+          {latest.map((event) => {
+            const { containerId } = event
+            return (
+              <li key={event.id} className={`ticker-item ${eventTone(event)}`} title={`${event.host} · ${event.time}`}>
+                <span className="subtle">{new Date(event.time).toLocaleTimeString()}</span>
+                {containerId ? (
+                  <button className="name-button" onClick={() => onSelect(containerId)}>
+                    {event.containerName ?? containerId.slice(0, 12)}
+                  </button>
+                ) : (
+                  <span>{event.containerName ?? '-'}</span>
+                )}
+                <span className="ticker-action">{describeEvent(event)}</span>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+export default EventTicker
@@ -0,0 +1,372 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import {
+  AuthError,
+  containerDownloadUrl,
+  fetchContainerChanges,
+  fetchContainerPath,
+  fetchFilePreview,
+  uploadContainerFile,
+} from './api'
+import { formatBytes, formatDateTime } from './format'
+import type { ContainerPath, FileChange, FileChangeKind, FileEntry, FilePreview } from './types'
+
+type BrowserMode = 'browse' | 'changes'
+
+const CHANGE_BADGES: Record<FileChangeKind, string> = { added: 'A', changed: 'C', deleted: 'D' }
+
+const CHANGE_FILTERS: { label: string; value: FileChangeKind | 'all' }[] = [
+  { label: 'All changes', value: 'all' },
+  { label: 'Added', value: 'added' },
+  { label: 'Changed', value: 'changed' },
+  { label: 'Deleted', value: 'deleted' },
+]
+
+const TYPE_PREFIX: Record<FileEntry['type'], string> = {
+  directory: 'd',
+  symlink: 'l',
+  link: 'h',
+  file: '-',
+  other: '?',
+}
+
+// Renders "0755" as "rwxr-xr-x" with ls-style type prefix.
+function permissions(entry: Pick<FileEntry, 'type' | 'mode'>) {
+  const bits = parseInt(entry.mode, 8)
+  const flags = 'rwxrwxrwx'
+    .split('')
+    .map((flag, index) => (bits & (1 << (8 - index)) ? flag : '-'))
+    .join('')
+  return TYPE_PREFIX[entry.type] + flags
+}
+
+function parentPath(path: string) {
+  const parent = path.replace(/\/[^/]*$/, '')
+  return parent || '/'
+}
+
+function breadcrumbs(path: string) {
+  const parts = path.split('/').filter(Boolean)
+  return [{ label: '/', path: '/' }].concat(
+    parts.map((part, index) => ({ label: `${part}/`, path: `/${parts.slice(0, index + 1).join('/')}` })),
+  )
+}
+
+// File contents can hold secrets, so previews and downloads are for operators;
+// viewers can still browse the tree.
+const FileBrowser = ({
+  containerId,
+  canRead,
+  canUpload,
+  onUnauthorized,
+}: {
+  containerId: string
+  canRead: boolean
+  canUpload: boolean
+  onUnauthorized: () => void
+}) => {
+  const [mode, setMode] = useState<BrowserMode>('browse')
+  const [path, setPath] = useState('/')
+  const [reloadToken, setReloadToken] = useState(0)
+  const [listing, setListing] = useState<{ key: string; data: ContainerPath | null; error: string | null } | null>(
+    null,
+  )
+  const [preview, setPreview] = useState<{ path: string; data: FilePreview | null; error: string | null } | null>(
+    null,
+  )
+  const [changes, setChanges] = useState<{ key: string; items: FileChange[]; error: string | null } | null>(null)
+  const [changeFilter, setChangeFilter] = useState<FileChangeKind | 'all'>('all')
+  const [uploading, setUploading] = useState(false)
+  const [notice, setNotice] = useState<string | null>(null)
+  const uploadRef = useRef<HTMLInputElement>(null)
+
+  const listingKey = `${containerId}:${path}:${reloadToken}`
+  const changesKey = `${containerId}:${reloadToken}`
+
+  useEffect(() => {
+    if (mode !== 'browse') return undefined
+    let cancelled = false
+    fetchContainerPath(containerId, path)
+      .then((data) => {
+        if (!cancelled) setListing({ key: listingKey, data, error: null })
+      })
+      .catch((err: unknown) => {
+        if (err instanceof AuthError) onUnauthorized()
+        const message = err instanceof Error ? err.message : 'Unable to read path'
+        if (!cancelled) setListing({ key: listingKey, data: null, error: message })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [containerId, path, listingKey, mode, onUnauthorized])
+
+  useEffect(() => {
+    if (mode !== 'changes') return undefined
+    let cancelled = false
+    fetchContainerChanges(containerId)
+      .then((data) => {
+        if (!cancelled) setChanges({ key: changesKey, items: data.changes, error: null })
+      })
+      .catch((err: unknown) => {
+        if (err instanceof AuthError) onUnauthorized()
+        const message = err instanceof Error ? err.message : 'Unable to load changes'
+        if (!cancelled) setChanges({ key: changesKey, items: [], error: message })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [containerId, changesKey, mode, onUnauthorized])
+
+  const current = listing?.key === listingKey ? listing : null
+  const currentChanges = changes?.key === changesKey ? changes : null
+  const currentPreview = preview && current?.data?.entries?.some((entry) => entry.path === preview.path) ? preview : null
+
+  const changeCounts = useMemo(() => {
+    const counts: Record<FileChangeKind, number> = { added: 0, changed: 0, deleted: 0 }
+    currentChanges?.items.forEach((change) => {
+      counts[change.kind] += 1
+    })
+    return counts
+  }, [currentChanges])
+
+  const visibleChanges = (currentChanges?.items ?? []).filter(
+    (change) => changeFilter === 'all' || change.kind === changeFilter,
+  )
+
+  const navigate = (next: string) => {
+    setPath(next)
+    setPreview(null)
+    setNotice(null)
+    setMode('browse')
+  }
+
+  const openPreview = async (target: string) => {
+    if (!canRead) return
+    setPreview({ path: target, data: null, error: null })
+    try {
+      const data = await fetchFilePreview(containerId, target)
+      setPreview((prev) => (prev?.path === target ? { path: target, data, error: null } : prev))
+    } catch (err) {
+      if (err instanceof AuthError) onUnauthorized()
+      const message = err instanceof Error ? err.message : 'Unable to preview file'
+      setPreview((prev) => (prev?.path === target ? { path: target, data: null, error: message } : prev))
+    }
+  }
+
+  // Symlinks are resolved by the server, so ask it what the target turned out to be.
+  const openEntry = async (entry: FileEntry) => {
+    if (entry.type === 'directory') {
+      navigate(entry.path)
+      return
+    }
+    if (entry.type !== 'symlink') {
+      openPreview(entry.path)
+      return
+    }
+    try {
+      const target = await fetchContainerPath(containerId, entry.path)
+      if (target.stat.type === 'directory') navigate(target.stat.path)
+      else openPreview(entry.path)
+    } catch (err) {
+      if (err instanceof AuthError) onUnauthorized()
+      setNotice(err instanceof Error ? err.message : 'Unable to follow link')
+    }
+  }
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return
+    setUploading(true)
+    setNotice(null)
+    try {
+      const result = await uploadContainerFile(containerId, path, file)
+      setNotice(`Uploaded ${result.name} (${formatBytes(result.size)}) to ${result.path}`)
+      setReloadToken((value) => value + 1)
+    } catch (err) {
+      if (err instanceof AuthError) onUnauthorized()
+      setNotice(err instanceof Error ? err.message : 'Upload failed')
+    } finally {
+      setUploading(false)
+      if (uploadRef.current) uploadRef.current.value = ''
+    }
+  }
+
+  return (
+    <section className="detail-card file-browser">
+      <div className="log-controls">
+        <div className="window-picker">
+          <button className={`control small${mode === 'browse' ? ' active' : ''}`} onClick={() => setMode('browse')}>
+            Browse
+          </button>
+          <button className={`control small${mode === 'changes' ? ' active' : ''}`} onClick={() => setMode('changes')}>
+            Changes
+          </button>
+        </div>
+        {mode === 'browse' ? (
+          <>
+            <nav className="file-breadcrumbs">
+              {breadcrumbs(path).map((crumb) => (
+                <button key={crumb.path} className="link-button" onClick={() => navigate(crumb.path)}>
+                  {crumb.label}
+                </button>
+              ))}
+            </nav>
+            <button className="control small" disabled={path === '/'} onClick={() => navigate(parentPath(path))}>
+              Up
+            </button>
+            {canRead && (
+              <a className="file-link" href={containerDownloadUrl(containerId, path)} download>
+                Download .tar
+              </a>
+            )}
+            {canUpload && (
+              <>
+                <button className="control small" disabled={uploading} onClick={() => uploadRef.current?.click()}>
+                  {uploading ? 'Uploading…' : 'Upload…'}
+                </button>
+                <input
+                  ref={uploadRef}
+                  type="file"
+                  hidden
+                  onChange={(event) => handleUpload(event.target.files?.[0])}
+                />
+              </>
+            )}
+          </>
+        ) : (
+          <>
+            <select
+              className="control small"
+              value={changeFilter}
+              onChange={(event) => setChangeFilter(event.target.value as FileChangeKind | 'all')}
+            >
+              {CHANGE_FILTERS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <span className="subtle">
+              {changeCounts.added} added · {changeCounts.changed} changed · {changeCounts.deleted} deleted
+            </span>
+          </>
+        )}
+        <button className="control small" onClick={() => setReloadToken((value) => value + 1)}>
+          Reload
+        </button>
+      </div>
+
+      {notice && <p className="detail-muted">{notice}</p>}
+
+      {mode === 'changes' ? (
+        currentChanges?.error ? (
+          <div className="error-banner">{currentChanges.error}</div>
+        ) : !currentChanges ? (
+          <p className="detail-muted">Comparing with the image…</p>
+        ) : visibleChanges.length === 0 ? (
+          <p className="detail-muted">No changes compared with the image.</p>
+        ) : (
+          <ul className="change-list">
+            {visibleChanges.map((change) => (
+              <li key={change.path}>
+                <span className={`change-badge ${change.kind}`} title={change.kind}>
+                  {CHANGE_BADGES[change.kind]}
+                </span>
+                {change.kind === 'deleted' ? (
+                  <span className="change-path">{change.path}</span>
+                ) : (
+                  <button className="link-button change-path" onClick={() => navigate(parentPath(change.path))}>
+                    {change.path}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )
+      ) : current?.error ? (
+        <div className="error-banner">{current.error}</div>
+      ) : !current?.data ? (
+        <p className="detail-muted">Loading {path}…</p>
+      ) : !current.data.entries ? (
+        <p className="detail-muted">{current.data.path} is not a directory.</p>
+      ) : (
+        <>
+          {current.data.truncated && (
+            <p className="detail-muted">Listing truncated; download the directory to see everything.</p>
+          )}
+          <table className="process-table file-table">
+            <thead>
+              <tr>
+                <th>NAME</th>
+                <th>SIZE</th>
+                <th>MODE</th>
+                <th>MODIFIED</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {current.data.entries.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="detail-muted">
+                    Empty directory.
+                  </td>
+                </tr>
+              )}
+              {current.data.entries.map((entry) => (
+                <tr key={entry.name} className={currentPreview?.path === entry.path ? 'selected' : undefined}>
+                  <td>
+                    {entry.type === 'link' || entry.type === 'other' || (entry.type === 'file' && !canRead) ? (
+                      entry.name
+                    ) : (
+                      <button className="link-button" onClick={() => openEntry(entry)}>
+                        {entry.name}
+                        {entry.type === 'directory' ? '/' : ''}
+                      </button>
+                    )}
+                    {entry.linkTarget && <span className="subtle"> → {entry.linkTarget}</span>}
+                  </td>
+                  <td>{entry.type === 'file' ? formatBytes(entry.size) : '-'}</td>
+                  <td>{permissions(entry)}</td>
+                  <td>{formatDateTime(entry.mtime)}</td>
+                  <td>
+                    {canRead && (entry.type === 'file' || entry.type === 'directory') && (
+                      <a className="file-link" href={containerDownloadUrl(containerId, entry.path)} download>
+                        Download
+                      </a>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {mode === 'browse' && currentPreview && (
+        <div className="file-preview">
+          <div className="card-header">
+            <strong>{currentPreview.path}</strong>
+            {currentPreview.data && (
+              <span className="subtle">
+                {formatBytes(currentPreview.data.size)}
+                {currentPreview.data.truncated ? ' · showing the start of the file' : ''}
+              </span>
+            )}
+            <button className="control small" onClick={() => setPreview(null)}>
+              Close
+            </button>
+          </div>
+          {currentPreview.error ? (
+            <div className="error-banner">{currentPreview.error}</div>
+          ) : !currentPreview.data ? (
+            <p className="detail-muted">Loading preview…</p>
+          ) : currentPreview.data.binary ? (
+            <p className="detail-muted">Binary file; download it to inspect.</p>
+          ) : (
+            <pre>{currentPreview.data.content}</pre>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
+
+export default FileBrowser
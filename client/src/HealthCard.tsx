@@ -0,0 +1,89 @@
+import type { HealthCheck } from './types'
+
+const formatInterval = (ms: number | null) => {
+  if (ms === null) return 'default'
+  if (ms < 1000) return `${ms}ms`
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  return seconds % 60 ? `${minutes}m${seconds % 60}s` : `${minutes}m`
+}
+
+const probeDuration = (start: string | null, end: string | null) => {
+  const ms = Date.parse(end ?? '') - Date.parse(start ?? '')
+  return Number.isFinite(ms) && ms >= 0 ? formatInterval(ms) : '-'
+}
+
+const HealthCard = ({ health, loading }: { health: HealthCheck | null | undefined; loading: boolean }) => {
+  const config = health?.config ?? null
+
+  return (
+    <section className="detail-card detail-health">
+      <h3>Health</h3>
+      {health === undefined ? (
+        <p className="detail-muted">{loading ? 'Loading health…' : 'Health details unavailable.'}</p>
+      ) : health === null || config?.test?.type === 'NONE' ? (
+        <p className="detail-muted">No healthcheck configured.</p>
+      ) : (
+        <>
+          <dl>
+            <div>
+              <dt>Status</dt>
+              <dd>
+                <span className={`health-badge ${health.status}`}>{health.status}</span>
+              </dd>
+            </div>
+            <div>
+              <dt>Failing Streak</dt>
+              <dd>{health.failingStreak}</dd>
+            </div>
+            {config && (
+              <>
+                <div>
+                  <dt>Test</dt>
+                  <dd className="health-test">
+                    {config.test ? `${config.test.type} ${config.test.args.join(' ')}` : 'inherited from image'}
+                  </dd>
+                </div>
+                <div>
+                  <dt>Interval</dt>
+                  <dd>{formatInterval(config.intervalMs)}</dd>
+                </div>
+                <div>
+                  <dt>Timeout</dt>
+                  <dd>{formatInterval(config.timeoutMs)}</dd>
+                </div>
+                <div>
+                  <dt>Retries</dt>
+                  <dd>{config.retries ?? 'default'}</dd>
+                </div>
+                <div>
+                  <dt>Start Period</dt>
+                  <dd>{formatInterval(config.startPeriodMs)}</dd>
+                </div>
+              </>
+            )}
+          </dl>
+          {health.probes.length === 0 ? (
+            <p className="detail-muted">No probes have run yet.</p>
+          ) : (
+            <ol className="probe-list">
+              {health.probes.map((probe, index) => (
+                <li key={`${probe.start}-${index}`} className={probe.exitCode === 0 ? 'passed' : 'failed'}>
+                  <div className="probe-meta">
+                    <span className="probe-exit">exit {probe.exitCode}</span>
+                    <span>{probe.start ? new Date(probe.start).toLocaleTimeString() : '-'}</span>
+                    <span className="subtle">took {probeDuration(probe.start, probe.end)}</span>
+                  </div>
+                  {probe.output.trim() && <pre className="probe-output">{probe.output.trim()}</pre>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </>
+      )}
+    </section>
+  )
+}
+
+export default HealthCard
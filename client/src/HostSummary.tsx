@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react'
+import { AuthError, fetchHostOverview } from './api'
+import { formatBytes, formatRate } from './format'
+import type { EngineInfo, FleetTotals, HostOverview, HostOverviewEntry } from './types'
+import UsageBar from './UsageBar'
+
+const HOST_REFRESH_MS = 10000
+const STORAGE_KEY = 'ctopweb.hostSummaryCollapsed'
+
+const loadCollapsed = () => {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) === 'true'
+  } catch {
+    return false
+  }
+}
+
+const storeCollapsed = (collapsed: boolean) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, String(collapsed))
+  } catch {
+    // ignore quota and privacy errors
+  }
+}
+
+const formatPercent = (value: number | null) => (value === null ? '-' : `${value.toFixed(1)}%`)
+
+const engineFacts = (engine: EngineInfo) =>
+  [
+    engine.version && `Docker ${engine.version}${engine.apiVersion ? ` (API ${engine.apiVersion})` : ''}`,
+    engine.os,
+    engine.kernel && `kernel ${engine.kernel}`,
+    engine.architecture,
+    engine.cgroupDriver && `cgroup ${engine.cgroupDriver}${engine.cgroupVersion ? ` v${engine.cgroupVersion}` : ''}`,
+    engine.storageDriver && `storage ${engine.storageDriver}`,
+    `${engine.cpus} CPUs`,
+    `${formatBytes(engine.memoryBytes)} RAM`,
+  ].filter(Boolean)
+
+const AttentionCounts = ({ fleet }: { fleet: FleetTotals }) => (
+  <>
+    {(['paused', 'restarting', 'unhealthy'] as const).map((key) => (
+      <span key={key} className={`host-summary-count${fleet[key] ? ` ${key}` : ''}`}>
+        {fleet[key]} {key}
+      </span>
+    ))}
+  </>
+)
+
+const EngineRow = ({ entry, showName }: { entry: HostOverviewEntry; showName: boolean }) => (
+  <div className="host-summary-engine">
+    {showName && <strong>{entry.host}</strong>}
+    {entry.engine ? (
+      engineFacts(entry.engine).map((fact) => <span key={fact}>{fact}</span>)
+    ) : (
+      <span className="host-summary-error">{entry.error ?? 'Engine details unavailable'}</span>
+    )}
+    {entry.disk && (
+      <span className="subtle">
+        images {formatBytes(entry.disk.images.size)} · volumes {formatBytes(entry.disk.volumes.size)} ·{' '}
+        {formatBytes(
+          entry.disk.images.reclaimable +
+            entry.disk.containers.reclaimable +
+            entry.disk.volumes.reclaimable +
+            entry.disk.buildCache.reclaimable,
+        )}{' '}
+        reclaimable
+      </span>
+    )}
+  </div>
+)
+
+const HostSummary = ({ paused, onUnauthorized }: { paused: boolean; onUnauthorized: () => void }) => {
+  const [overview, setOverview] = useState<HostOverview | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [collapsed, setCollapsed] = useState(loadCollapsed)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = () =>
+      fetchHostOverview()
+        .then((data) => {
+          if (cancelled) return
+          setOverview(data)
+          setError(null)
+        })
+        .catch((err) => {
+          if (err instanceof AuthError) onUnauthorized()
+          if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to load host overview')
+        })
+    load()
+    if (paused) {
+      return () => {
+        cancelled = true
+      }
+    }
+    const id = setInterval(load, HOST_REFRESH_MS)
+    return () => {
+      cancelled = true
+      clearInterval(id)
+    }
+  }, [paused, onUnauthorized])
+
+  const toggle = () => {
+    storeCollapsed(!collapsed)
+    setCollapsed(!collapsed)
+  }
+
+  const fleet = overview?.totals.fleet
+  const { cpus = 0, memoryBytes = 0 } = overview?.totals ?? {}
+  const cpuLoad = fleet ? `${fleet.cpuPercent.toFixed(0)}% / ${fleet.cpuCapacity}%` : ''
+  const memoryLoad = fleet ? formatPercent(fleet.memoryShare) : ''
+
+  return (
+    <div className="host-summary">
+      <div className="host-summary-bar">
+        <button className="link-button" onClick={toggle} aria-expanded={!collapsed}>
+          {collapsed ? '▸' : '▾'} Host
+        </button>
+        {error && <span className="host-summary-error">{error}</span>}
+        {!error && !fleet && <span className="subtle">Loading host details…</span>}
+        {collapsed && fleet && (
+          <>
+            <span>
+              CPU <strong>{formatPercent(fleet.cpuShare)}</strong> of {cpus} cores
+            </span>
+            <span>
+              Mem <strong>{formatBytes(fleet.memoryUsed)}</strong> / {formatBytes(memoryBytes)}
+            </span>
+            <span>
+              ⬇ {formatRate(fleet.netRate.rx)} ⬆ {formatRate(fleet.netRate.tx)}
+            </span>
+            <span>
+              R {formatRate(fleet.blockRate.read)} W {formatRate(fleet.blockRate.write)}
+            </span>
+            <AttentionCounts fleet={fleet} />
+          </>
+        )}
+      </div>
+
+      {!collapsed && overview && fleet && (
+        <>
+          <div className="host-summary-grid">
+            <div className="host-summary-item">
+              <span className="subtle">CPU</span>
+              <UsageBar
+                percent={fleet.cpuShare ?? 0}
+                label={`${formatPercent(fleet.cpuShare)} of ${cpus} cores (${cpuLoad})`}
+                type="cpu"
+              />
+            </div>
+            <div className="host-summary-item">
+              <span className="subtle">Memory</span>
+              <UsageBar
+                percent={fleet.memoryShare ?? 0}
+                label={`${formatBytes(fleet.memoryUsed)} / ${formatBytes(memoryBytes)} (${memoryLoad})`}
+                type="mem"
+              />
+            </div>
+            <div className="host-summary-item">
+              <span className="subtle">Network</span>
+              <strong>
+                ⬇ {formatRate(fleet.netRate.rx)} ⬆ {formatRate(fleet.netRate.tx)}
+              </strong>
+            </div>
+            <div className="host-summary-item">
+              <span className="subtle">Block I/O</span>
+              <strong>
+                R {formatRate(fleet.blockRate.read)} W {formatRate(fleet.blockRate.write)}
+              </strong>
+            </div>
+            <div className="host-summary-item">
+              <span className="subtle">Containers</span>
+              <strong>
+                {fleet.running}/{fleet.containers} running
+              </strong>
+              <span className="host-summary-counts">
+                <AttentionCounts fleet={fleet} />
+              </span>
+            </div>
+          </div>
+          {overview.hosts.map((entry) => (
+            <EngineRow key={entry.host} entry={entry} showName={overview.hosts.length > 1} />
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default HostSummary
@@ -0,0 +1,245 @@
+import { useEffect, useMemo, useState } from 'react'
+import { AuthError, fetchDiskUsage } from './api'
+import { formatBytes, formatDateTime } from './format'
+import { loadInventoryRows, PRUNE_LABELS } from './inventory'
+import type { InventoryRow } from './inventory'
+import PruneDialog from './PruneDialog'
+import type { DiskUsage, DiskUsageSummary, HostFailure, InventoryKind } from './types'
+
+const DISK_USAGE_ROWS: { label: string; key: keyof DiskUsageSummary }[] = [
+  { label: 'Images', key: 'images' },
+  { label: 'Containers', key: 'containers' },
+  { label: 'Volumes', key: 'volumes' },
+  { label: 'Build cache', key: 'buildCache' },
+]
+
+const DiskUsageStrip = ({ usage, error }: { usage: DiskUsage | null; error: string | null }) => {
+  if (error) return <div className="disk-usage detail-muted">{error}</div>
+  if (!usage) return <div className="disk-usage detail-muted">Measuring disk usage…</div>
+
+  return (
+    <div className="disk-usage">
+      {DISK_USAGE_ROWS.map(({ label, key }) => {
+        const entry = usage.totals[key]
+        return (
+          <div key={key} className="disk-usage-item">
+            <span className="subtle">{label}</span>
+            <strong>{formatBytes(entry.size)}</strong>
+            <span className="subtle">
+              {entry.active}/{entry.total} active · {formatBytes(entry.reclaimable)} reclaimable
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+const InventoryView = ({
+  kind,
+  host,
+  hostNames,
+  onHostChange,
+  canOperate,
+  onSelectContainer,
+  onUnauthorized,
+}: {
+  kind: InventoryKind
+  host: string
+  hostNames: string[]
+  onHostChange: (host: string) => void
+  canOperate: boolean
+  onSelectContainer: (containerId: string) => void
+  onUnauthorized: () => void
+}) => {
+  const [result, setResult] = useState<{
+    kind: InventoryKind
+    rows: InventoryRow[]
+    failures: HostFailure[]
+    error: string | null
+  } | null>(null)
+  const [usage, setUsage] = useState<{ data: DiskUsage | null; error: string | null } | null>(null)
+  const [filter, setFilter] = useState('')
+  const [unusedOnly, setUnusedOnly] = useState(false)
+  const [pruning, setPruning] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    loadInventoryRows(kind, host || undefined)
+      .then(({ rows, failures }) => {
+        if (!cancelled) setResult({ kind, rows, failures, error: null })
+      })
+      .catch((err) => {
+        if (cancelled) return
+        if (err instanceof AuthError) onUnauthorized()
+        const message = err instanceof Error ? err.message : `Unable to load ${kind}`
+        setResult({ kind, rows: [], failures: [], error: message })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [kind, host, reloadKey, onUnauthorized])
+
+  useEffect(() => {
+    let cancelled = false
+    fetchDiskUsage(host || undefined)
+      .then((data) => {
+        if (!cancelled) setUsage({ data, error: null })
+      })
+      .catch((err) => {
+        if (cancelled) return
+        if (err instanceof AuthError) onUnauthorized()
+        setUsage({ data: null, error: err instanceof Error ? err.message : 'Unable to load disk usage' })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [host, reloadKey, onUnauthorized])
+
+  const current = result?.kind === kind ? result : null
+
+  const rows = useMemo(() => {
+    const needle = filter.trim().toLowerCase()
+    return (current?.rows ?? [])
+      .filter((row) => !unusedOnly || row.unused)
+      .filter(
+        (row) =>
+          !needle ||
+          [row.name, row.title, ...row.details, ...row.containers.map((ref) => ref.name)].some((value) =>
+            value.toLowerCase().includes(needle),
+          ),
+      )
+      .sort((a, b) => (b.size ?? -1) - (a.size ?? -1) || a.name.localeCompare(b.name))
+  }, [current, filter, unusedOnly])
+
+  const multiHost = hostNames.length > 1
+  const showSize = kind !== 'networks'
+  const showShared = kind === 'images'
+
+  return (
+    <>
+      <DiskUsageStrip usage={usage?.data ?? null} error={usage?.error ?? null} />
+
+      <div className="controls">
+        <input
+          type="search"
+          placeholder={`Filter ${kind} by name, id or container`}
+          value={filter}
+          spellCheck={false}
+          onChange={(event) => setFilter(event.target.value)}
+        />
+        <div className="control-group">
+          {multiHost && (
+            <select className="control" value={host} onChange={(event) => onHostChange(event.target.value)}>
+              <option value="">All hosts</option>
+              {hostNames.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          )}
+          <label className="control-toggle">
+            <input type="checkbox" checked={unusedOnly} onChange={(event) => setUnusedOnly(event.target.checked)} />
+            Unused only
+          </label>
+          <button className="control primary" onClick={() => setReloadKey((value) => value + 1)}>
+            Refresh
+          </button>
+          {canOperate && (
+            <button className="control danger" onClick={() => setPruning(true)}>
+              {PRUNE_LABELS[kind]}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {current?.error && <div className="error-banner">{current.error}</div>}
+      {current?.failures.map((failure) => (
+        <div key={failure.host} className="error-banner">
+          {failure.host}: {failure.error}
+        </div>
+      ))}
+
+      <div className="table-container">
+        {!current ? (
+          <div className="loading-state">
+            <div className="loading-spinner" />
+            <p>Loading {kind}…</p>
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="empty-state">
+            <p>No {kind} match your filters.</p>
+          </div>
+        ) : (
+          <table className="inventory-table">
+            <thead>
+              <tr>
+                <th>NAME</th>
+                {multiHost && <th>HOST</th>}
+                {showSize && <th>SIZE</th>}
+                {showShared && <th>SHARED</th>}
+                <th>CREATED</th>
+                <th>CONTAINERS</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.key} className={row.unused ? 'unused-row' : undefined}>
+                  <td>
+                    <div className="name-stack" title={row.title}>
+                      <span className="inventory-name">
+                        {row.name}
+                        {row.flags.map((flag) => (
+                          <span key={flag} className={`inventory-flag ${flag}`}>
+                            {flag}
+                          </span>
+                        ))}
+                      </span>
+                      <span className="subtle">{row.details.join(' · ')}</span>
+                    </div>
+                  </td>
+                  {multiHost && <td>{row.host}</td>}
+                  {showSize && <td>{row.size !== null ? formatBytes(row.size) : '-'}</td>}
+                  {showShared && <td>{row.sharedSize !== null ? formatBytes(row.sharedSize) : '-'}</td>}
+                  <td>{formatDateTime(row.created)}</td>
+                  <td>
+                    {row.containers.length === 0 ? (
+                      <span className="subtle">none</span>
+                    ) : (
+                      <div className="badge-stack">
+                        {row.containers.map((ref) => (
+                          <button
+                            key={ref.id}
+                            className="name-button"
+                            title={ref.state}
+                            onClick={() => onSelectContainer(ref.id)}
+                          >
+                            {ref.name}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {pruning && (
+        <PruneDialog
+          kind={kind}
+          host={host}
+          onClose={() => setPruning(false)}
+          onPruned={() => setReloadKey((value) => value + 1)}
+          onUnauthorized={onUnauthorized}
+        />
+      )}
+    </>
+  )
+}
+
+export default InventoryView
@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { ReactNode } from 'react'
+import { fetchContainerLogs, subscribeContainerLogs } from './api'
+import type { LogLine, LogQuery } from './types'
+
+const TAIL_OPTIONS = ['100', '200', '500', '1000', 'all']
+
+const MAX_LOG_LINES = 5000
+
+function toEpoch(value: string) {
+  if (!value) return undefined
+  const time = new Date(value).getTime()
+  return Number.isNaN(time) ? undefined : time
+}
+
+function highlight(text: string, needle: string): ReactNode {
+  if (!needle) return text
+  const lower = text.toLowerCase()
+  const parts: ReactNode[] = []
+  let cursor = 0
+  let index = lower.indexOf(needle)
+  while (index !== -1) {
+    if (index > cursor) parts.push(text.slice(cursor, index))
+    parts.push(<mark key={index}>{text.slice(index, index + needle.length)}</mark>)
+    cursor = index + needle.length
+    index = lower.indexOf(needle, cursor)
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor))
+  return parts
+}
+
+const LogViewer = ({ containerId, containerName }: { containerId: string; containerName: string }) => {
+  const [tail, setTail] = useState('200')
+  const [since, setSince] = useState('')
+  const [until, setUntil] = useState('')
+  const [timestamps, setTimestamps] = useState(true)
+  const [follow, setFollow] = useState(false)
+  const [search, setSearch] = useState('')
+  const [matchesOnly, setMatchesOnly] = useState(false)
+  const [autoScroll, setAutoScroll] = useState(true)
+  const [reloadToken, setReloadToken] = useState(0)
+  const [result, setResult] = useState<{ key: string; lines: LogLine[]; error: string | null; done: boolean } | null>(
+    null,
+  )
+  const bodyRef = useRef<HTMLDivElement>(null)
+
+  const queryKey = `${containerId}|${tail}|${since}|${until}|${timestamps}|${follow}|${reloadToken}`
+
+  useEffect(() => {
+    const query: LogQuery = {
+      tail: tail === 'all' ? 'all' : Number(tail),
+      since: toEpoch(since),
+      until: follow ? undefined : toEpoch(until),
+      timestamps,
+    }
+    let cancelled = false
+
+    if (follow) {
+      const append = (lines: LogLine[]) => {
+        setResult((prev) => {
+          const existing = prev?.key === queryKey ? prev.lines : []
+          return { key: queryKey, lines: existing.concat(lines).slice(-MAX_LOG_LINES), error: null, done: false }
+        })
+      }
+      return subscribeContainerLogs(containerId, query, {
+        onLines: append,
+        onEnd: () => setResult((prev) => (prev?.key === queryKey ? { ...prev, done: true } : prev)),
+        onError: () =>
+          setResult((prev) => ({
+            key: queryKey,
+            lines: prev?.key === queryKey ? prev.lines : [],
+            error: 'Log stream disconnected',
+            done: true,
+          })),
+      })
+    }
+
+    fetchContainerLogs(containerId, query)
+      .then((data) => {
+        if (!cancelled) setResult({ key: queryKey, lines: data.lines.slice(-MAX_LOG_LINES), error: null, done: true })
+      })
+      .catch((err) => {
+        const message = err instanceof Error ? err.message : 'Unable to load container logs'
+        if (!cancelled) setResult({ key: queryKey, lines: [], error: message, done: true })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [containerId, tail, since, until, timestamps, follow, queryKey])
+
+  const current = result?.key === queryKey ? result : null
+  const needle = search.trim().toLowerCase()
+
+  const visibleLines = useMemo(() => {
+    const lines = current?.lines ?? []
+    if (!needle || !matchesOnly) return lines
+    return lines.filter((line) => line.text.toLowerCase().includes(needle))
+  }, [current, needle, matchesOnly])
+
+  const matchCount = useMemo(() => {
+    if (!needle) return 0
+    return (current?.lines ?? []).filter((line) => line.text.toLowerCase().includes(needle)).length
+  }, [current, needle])
+
+  useEffect(() => {
+    if (autoScroll && bodyRef.current) {
+      bodyRef.current.scrollTop = bodyRef.current.scrollHeight
+    }
+  }, [visibleLines, autoScroll])
+
+  const handleDownload = () => {
+    const text = visibleLines
+      .map((line) => `${line.timestamp ? `${line.timestamp} ` : ''}${line.stream === 'stderr' ? '[stderr] ' : ''}${line.text}`)
+      .join('\n')
+    const url = URL.createObjectURL(new Blob([`${text}\n`], { type: 'text/plain' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${containerName}-logs.txt`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <section className="detail-card log-viewer">
+      <div className="log-controls">
+        <select className="control" value={tail} onChange={(event) => setTail(event.target.value)}>
+          {TAIL_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              Tail {option}
+            </option>
+          ))}
+        </select>
+        <label>
+          Since
+          <input type="datetime-local" value={since} onChange={(event) => setSince(event.target.value)} />
+        </label>
+        <label>
+          Until
+          <input
+            type="datetime-local"
+            value={until}
+            disabled={follow}
+            onChange={(event) => setUntil(event.target.value)}
+          />
+        </label>
+        <label>
+          <input type="checkbox" checked={timestamps} onChange={(event) => setTimestamps(event.target.checked)} />{' '}
+          Timestamps
+        </label>
+        <label>
+          <input type="checkbox" checked={follow} onChange={(event) => setFollow(event.target.checked)} /> Follow
+        </label>
+        <button className="control" onClick={() => setReloadToken((value) => value + 1)}>
+          Reload
+        </button>
+      </div>
+      <div className="log-controls">
+        <input
+          type="search"
+          placeholder="Search logs"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+        />
+        <label>
+          <input type="checkbox" checked={matchesOnly} onChange={(event) => setMatchesOnly(event.target.checked)} />{' '}
+          Matches only
+        </label>
+        {needle && <span className="subtle">{matchCount} matching lines</span>}
+        <button className="control" onClick={() => setAutoScroll((value) => !value)}>
+          {autoScroll ? 'Pause Scroll' : 'Resume Scroll'}
+        </button>
+        <button className="control" onClick={handleDownload} disabled={!visibleLines.length}>
+          Download
+        </button>
+      </div>
+
+      {current?.error && <div className="error-banner">{current.error}</div>}
+
+      <div className="log-body" ref={bodyRef}>
+        {!current ? (
+          <p className="detail-muted">Loading logs…</p>
+        ) : visibleLines.length === 0 ? (
+          <p className="detail-muted">No log lines in this range.</p>
+        ) : (
+          visibleLines.map((line, index) => (
+            <div key={index} className={`log-line ${line.stream}`}>
+              {line.timestamp && <span className="log-time">{line.timestamp}</span>}
+              <span className="log-text">{highlight(line.text, needle)}</span>
+            </div>
+          ))
+        )}
+      </div>
+      <div className="log-footer">
+        {visibleLines.length} lines{follow ? (current?.done ? ' · stream ended' : ' · following') : ''}
+      </div>
+    </section>
+  )
+}
+
+export default LogViewer
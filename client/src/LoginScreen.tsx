@@ -0,0 +1,99 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { login } from './api'
+import type { AuthSession } from './types'
+
+const LoginScreen = ({
+  methods,
+  onLogin,
+}: {
+  methods: AuthSession['methods']
+  onLogin: (session: AuthSession) => void
+}) => {
+  const [mode, setMode] = useState<'password' | 'token'>(methods.password ? 'password' : 'token')
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [token, setToken] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    try {
+      const session = await login(mode === 'password' ? { username, password } : { token })
+      onLogin(session)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unable to sign in'
+      setError(message)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="app-shell">
+      <div className="panel login-panel">
+        <div className="header-brand">
+          <img className="brand-logo" src="/caperadar-logo.svg" alt="caperadar logo" />
+          <h1 className="header-title">
+            ctop<span>·web</span>
+          </h1>
+        </div>
+
+        {methods.password && methods.token && (
+          <div className="detail-tabs">
+            <button
+              className={`detail-tab${mode === 'password' ? ' active' : ''}`}
+              onClick={() => setMode('password')}
+            >
+              Password
+            </button>
+            <button className={`detail-tab${mode === 'token' ? ' active' : ''}`} onClick={() => setMode('token')}>
+              API Token
+            </button>
+          </div>
+        )}
+
+        {!methods.password && !methods.token ? (
+          <p className="detail-muted">Sign in through your organisation's login page to access this dashboard.</p>
+        ) : (
+          <form className="login-form" onSubmit={handleSubmit}>
+            {mode === 'password' ? (
+              <>
+                <input
+                  type="text"
+                  placeholder="Username"
+                  autoComplete="username"
+                  value={username}
+                  onChange={(event) => setUsername(event.target.value)}
+                />
+                <input
+                  type="password"
+                  placeholder="Password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                />
+              </>
+            ) : (
+              <input
+                type="password"
+                placeholder="API token"
+                value={token}
+                onChange={(event) => setToken(event.target.value)}
+              />
+            )}
+            {error && <div className="error-banner">{error}</div>}
+            <button className="control primary" type="submit" disabled={submitting}>
+              Sign In
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default LoginScreen
@@ -0,0 +1,103 @@
+import { useEffect, useMemo, useState } from 'react'
+import { fetchContainerProcesses } from './api'
+import type { ProcessInfo } from './types'
+
+const PROCESS_REFRESH_MS = 5000
+
+type ProcessSort = 'cpu' | 'memory' | 'pid'
+
+const SORT_COLUMNS: { label: string; value: ProcessSort }[] = [
+  { label: 'PID', value: 'pid' },
+  { label: 'CPU %', value: 'cpu' },
+  { label: 'MEM %', value: 'memory' },
+]
+
+const ProcessTable = ({ containerId, running }: { containerId: string; running: boolean }) => {
+  const [result, setResult] = useState<{ id: string; processes: ProcessInfo[]; error: string | null } | null>(null)
+  const [sortBy, setSortBy] = useState<ProcessSort>('cpu')
+  const [descending, setDescending] = useState(true)
+
+  useEffect(() => {
+    if (!running) return undefined
+    let cancelled = false
+    const load = async () => {
+      try {
+        const data = await fetchContainerProcesses(containerId)
+        if (!cancelled) setResult({ id: containerId, processes: data.processes, error: null })
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unable to load processes'
+        if (!cancelled) setResult((prev) => ({ id: containerId, processes: prev?.processes ?? [], error: message }))
+      }
+    }
+    load()
+    const id = setInterval(load, PROCESS_REFRESH_MS)
+    return () => {
+      cancelled = true
+      clearInterval(id)
+    }
+  }, [containerId, running])
+
+  const current = result?.id === containerId ? result : null
+
+  const processes = useMemo(() => {
+    const list = [...(current?.processes ?? [])]
+    const direction = descending ? -1 : 1
+    return list.sort((a, b) => ((a[sortBy] ?? -1) - (b[sortBy] ?? -1)) * direction)
+  }, [current, sortBy, descending])
+
+  const handleSort = (value: ProcessSort) => {
+    if (value === sortBy) {
+      setDescending((prev) => !prev)
+    } else {
+      setSortBy(value)
+      setDescending(value !== 'pid')
+    }
+  }
+
+  return (
+    <section className="detail-card detail-processes">
+      <h3>Processes</h3>
+      {!running ? (
+        <p className="detail-muted">Container is not running.</p>
+      ) : current?.error ? (
+        <p className="detail-muted">{current.error}</p>
+      ) : !current ? (
+        <p className="detail-muted">Loading processes…</p>
+      ) : processes.length === 0 ? (
+        <p className="detail-muted">No processes reported.</p>
+      ) : (
+        <table className="process-table">
+          <thead>
+            <tr>
+              {SORT_COLUMNS.map((column) => (
+                <th key={column.value}>
+                  <button className="sort-button" onClick={() => handleSort(column.value)}>
+                    {column.label}
+                    {sortBy === column.value ? (descending ? ' ▼' : ' ▲') : ''}
+                  </button>
+                </th>
+              ))}
+              <th>USER</th>
+              <th>TIME</th>
+              <th>COMMAND</th>
+            </tr>
+          </thead>
+          <tbody>
+            {processes.map((process, index) => (
+              <tr key={process.pid ?? index}>
+                <td>{process.pid ?? '-'}</td>
+                <td>{process.cpu !== null ? process.cpu.toFixed(1) : '-'}</td>
+                <td>{process.memory !== null ? process.memory.toFixed(1) : '-'}</td>
+                <td>{process.user}</td>
+                <td>{process.time}</td>
+                <td className="process-command">{process.command}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  )
+}
+
+export default ProcessTable
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react'
+import { AuthError, pruneInventory } from './api'
+import { formatBytes } from './format'
+import { inventoryRow, PRUNE_LABELS } from './inventory'
+import type { InventoryKind, PruneResult } from './types'
+
+// Runs a dry run first and only removes the previewed items once confirmed.
+const PruneDialog = ({
+  kind,
+  host,
+  onClose,
+  onPruned,
+  onUnauthorized,
+}: {
+  kind: InventoryKind
+  host: string
+  onClose: () => void
+  onPruned: () => void
+  onUnauthorized: () => void
+}) => {
+  const [includeNamed, setIncludeNamed] = useState(false)
+  const [preview, setPreview] = useState<{ all: boolean; result: PruneResult<InventoryKind> } | null>(null)
+  const [outcome, setOutcome] = useState<PruneResult<InventoryKind> | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    pruneInventory(kind, { host: host || undefined, all: includeNamed, dryRun: true })
+      .then((result) => {
+        if (!cancelled) setPreview({ all: includeNamed, result })
+      })
+      .catch((err) => {
+        if (cancelled) return
+        if (err instanceof AuthError) onUnauthorized()
+        setError(err instanceof Error ? err.message : 'Unable to preview prune')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [kind, host, includeNamed, onUnauthorized])
+
+  const current = preview?.all === includeNamed ? preview.result : null
+
+  const confirm = async () => {
+    if (!current) return
+    setBusy(true)
+    try {
+      const result = await pruneInventory(kind, {
+        host: host || undefined,
+        all: includeNamed,
+        dryRun: false,
+        keys: current.items.map((entry) => entry.key),
+      })
+      setOutcome(result)
+      onPruned()
+    } catch (err) {
+      if (err instanceof AuthError) onUnauthorized()
+      setError(err instanceof Error ? err.message : 'Prune failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="dialog-backdrop" onClick={onClose}>
+      <div className="dialog" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>{PRUNE_LABELS[kind]}</h2>
+        {host && <p className="subtle">Host {host}</p>}
+        {error && <div className="error-banner">{error}</div>}
+
+        {outcome ? (
+          <>
+            <p>
+              Removed <strong>{outcome.items.length}</strong> item{outcome.items.length === 1 ? '' : 's'}
+              {outcome.reclaimedBytes ? `, reclaimed ${formatBytes(outcome.reclaimedBytes)}` : ''}.
+            </p>
+            {outcome.failed && outcome.failed.length > 0 && (
+              <ul className="prune-list">
+                {outcome.failed.map((entry) => (
+                  <li key={entry.key} className="failed">
+                    <span>{inventoryRow(kind, entry.item).name}</span>
+                    <span className="subtle">{entry.error}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="dialog-actions">
+              <button className="control" onClick={onClose}>
+                Close
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            {kind === 'volumes' && (
+              <label className="dialog-option">
+                <input
+                  type="checkbox"
+                  checked={includeNamed}
+                  onChange={(event) => setIncludeNamed(event.target.checked)}
+                />
+                Include named volumes (not only anonymous ones)
+              </label>
+            )}
+            {!current ? (
+              <p className="detail-muted">{error ? 'Preview unavailable.' : 'Working out what would be removed…'}</p>
+            ) : current.items.length === 0 ? (
+              <p className="detail-muted">Nothing to remove.</p>
+            ) : (
+              <>
+                <p>
+                  Dry run: <strong>{current.items.length}</strong> item{current.items.length === 1 ? '' : 's'} would
+                  be removed
+                  {current.reclaimableBytes ? `, freeing about ${formatBytes(current.reclaimableBytes)}` : ''}.
+                </p>
+                <ul className="prune-list">
+                  {current.items.map((entry) => {
+                    const row = inventoryRow(kind, entry.item)
+                    return (
+                      <li key={entry.key} title={row.title}>
+                        <span>{row.name}</span>
+                        <span className="subtle">
+                          {row.host} · {row.size !== null ? formatBytes(row.size) : row.details.join(' · ') || '-'}
+                        </span>
+                      </li>
+                    )
+                  })}
+                </ul>
+              </>
+            )}
+            <div className="dialog-actions">
+              <button className="control danger" onClick={confirm} disabled={busy || !current?.items.length}>
+                {busy ? 'Removing…' : 'Remove'}
+              </button>
+              <button className="control" onClick={onClose} disabled={busy}>
+                Cancel
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default PruneDialog
@@ -0,0 +1,57 @@
+import { frameTime, REPLAY_SPEEDS } from './recording'
+import type { Replay } from './recording'
+
+const ReplayBar = ({
+  replay,
+  onChange,
+  onExit,
+}: {
+  replay: Replay
+  onChange: (update: Partial<Replay>) => void
+  onExit: () => void
+}) => {
+  const start = frameTime(replay.frames[0])
+  const end = frameTime(replay.frames[replay.frames.length - 1])
+  const atEnd = replay.position >= end
+
+  return (
+    <div className="replay-bar">
+      <span className="replay-label">REPLAY</span>
+      <span className="subtle" title={replay.name}>
+        {replay.frames.length} frames · {new Date(start).toLocaleString()} – {new Date(end).toLocaleTimeString()}
+      </span>
+      <button
+        className="control small"
+        onClick={() => onChange({ playing: !replay.playing, position: atEnd ? start : replay.position })}
+      >
+        {replay.playing ? 'Pause' : 'Play'}
+      </button>
+      <select
+        className="control small"
+        value={replay.speed}
+        onChange={(event) => onChange({ speed: Number(event.target.value) })}
+      >
+        {REPLAY_SPEEDS.map((speed) => (
+          <option key={speed} value={speed}>
+            {speed}×
+          </option>
+        ))}
+      </select>
+      <input
+        className="replay-scrubber"
+        type="range"
+        min={start}
+        max={end}
+        step={1000}
+        value={replay.position}
+        onChange={(event) => onChange({ position: Number(event.target.value), playing: false })}
+      />
+      <strong>{new Date(replay.position).toLocaleTimeString()}</strong>
+      <button className="control small danger" onClick={onExit}>
+        Exit replay
+      </button>
+    </div>
+  )
+}
+
+export default ReplayBar
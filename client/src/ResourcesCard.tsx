@@ -0,0 +1,353 @@
+import { useState } from 'react'
+import { AuthError, updateContainerResources } from './api'
+import { formatBytes, parseSize } from './format'
+import type { ContainerResources, ResourceUpdate } from './types'
+
+type ResourceKey = keyof ContainerResources
+
+type ResourceForm = {
+  memory: string
+  memorySwap: string
+  memoryReservation: string
+  cpuMode: 'cpus' | 'quota'
+  cpus: string
+  cpuQuota: string
+  cpuPeriod: string
+  cpuShares: string
+  cpusetCpus: string
+  cpusetMems: string
+  pidsLimit: string
+  restartPolicy: string
+  maximumRetryCount: string
+}
+
+const RESTART_POLICIES = ['no', 'always', 'unless-stopped', 'on-failure']
+
+const LABELS: Record<ResourceKey, string> = {
+  memory: 'Memory',
+  memorySwap: 'Memory + Swap',
+  memoryReservation: 'Reservation',
+  nanoCpus: 'CPUs',
+  cpuQuota: 'CPU Quota',
+  cpuPeriod: 'CPU Period',
+  cpuShares: 'CPU Shares',
+  cpusetCpus: 'Cpuset CPUs',
+  cpusetMems: 'Cpuset Mems',
+  pidsLimit: 'PIDs Limit',
+  restartPolicy: 'Restart Policy',
+}
+
+const describe = (key: ResourceKey, resources: ContainerResources) => {
+  switch (key) {
+    case 'memory':
+      return resources.memory ? formatBytes(resources.memory) : 'unlimited'
+    case 'memorySwap':
+      if (resources.memorySwap === -1) return 'unlimited'
+      return resources.memorySwap ? formatBytes(resources.memorySwap) : 'default'
+    case 'memoryReservation':
+      return resources.memoryReservation ? formatBytes(resources.memoryReservation) : 'none'
+    case 'nanoCpus':
+      return resources.nanoCpus ? String(resources.nanoCpus / 1e9) : 'unlimited'
+    case 'cpuQuota':
+      return resources.cpuQuota > 0 ? `${resources.cpuQuota}µs` : 'unlimited'
+    case 'cpuPeriod':
+      return resources.cpuPeriod ? `${resources.cpuPeriod}µs` : 'default'
+    case 'cpuShares':
+      return resources.cpuShares ? String(resources.cpuShares) : 'default'
+    case 'cpusetCpus':
+    case 'cpusetMems':
+      return resources[key] || 'all'
+    case 'pidsLimit':
+      return resources.pidsLimit > 0 ? String(resources.pidsLimit) : 'unlimited'
+    case 'restartPolicy': {
+      const { name, maximumRetryCount } = resources.restartPolicy
+      return name === 'on-failure' && maximumRetryCount ? `${name}:${maximumRetryCount}` : name
+    }
+  }
+}
+
+// Prefills sizes in the largest unit that represents them exactly, so an
+// untouched field never reads as a change.
+const SIZE_STEPS: [string, number][] = [
+  ['G', 1024 ** 3],
+  ['M', 1024 ** 2],
+  ['K', 1024],
+]
+
+const exactSize = (bytes: number) => {
+  if (!bytes) return ''
+  if (bytes === -1) return '-1'
+  const step = SIZE_STEPS.find(([, size]) => bytes % size === 0)
+  return step ? `${bytes / step[1]}${step[0]}` : String(bytes)
+}
+
+const toForm = (resources: ContainerResources): ResourceForm => ({
+  memory: exactSize(resources.memory),
+  memorySwap: exactSize(resources.memorySwap),
+  memoryReservation: exactSize(resources.memoryReservation),
+  cpuMode: resources.cpuQuota > 0 && !resources.nanoCpus ? 'quota' : 'cpus',
+  cpus: resources.nanoCpus ? String(resources.nanoCpus / 1e9) : '',
+  cpuQuota: resources.cpuQuota > 0 ? String(resources.cpuQuota) : '',
+  cpuPeriod: resources.cpuPeriod ? String(resources.cpuPeriod) : '',
+  cpuShares: resources.cpuShares ? String(resources.cpuShares) : '',
+  cpusetCpus: resources.cpusetCpus,
+  cpusetMems: resources.cpusetMems,
+  pidsLimit: resources.pidsLimit > 0 ? String(resources.pidsLimit) : '',
+  restartPolicy: resources.restartPolicy.name || 'no',
+  maximumRetryCount: String(resources.restartPolicy.maximumRetryCount || 0),
+})
+
+// Builds the update from fields that differ from the current values. Empty
+// size and number fields leave the value alone, since Docker cannot unset
+// most limits once they are set.
+const toUpdate = (form: ResourceForm, current: ContainerResources) => {
+  const update: ResourceUpdate = {}
+  const errors: Partial<Record<ResourceKey, string>> = {}
+
+  const size = (key: 'memory' | 'memorySwap' | 'memoryReservation', value: string) => {
+    if (!value.trim()) return
+    const bytes = key === 'memorySwap' && value.trim() === '-1' ? -1 : parseSize(value)
+    if (bytes === null) errors[key] = 'Use a size such as 512M or 2G'
+    else if (bytes !== current[key]) update[key] = bytes
+  }
+  const integer = (key: 'cpuQuota' | 'cpuPeriod' | 'cpuShares' | 'pidsLimit', value: string) => {
+    if (!value.trim()) return
+    const number = Number(value)
+    if (!Number.isInteger(number)) errors[key] = 'Use a whole number'
+    else if (number !== current[key]) update[key] = number
+  }
+
+  size('memory', form.memory)
+  size('memorySwap', form.memorySwap)
+  size('memoryReservation', form.memoryReservation)
+  if (form.cpuMode === 'cpus') {
+    if (form.cpus.trim()) {
+      const cpus = Number(form.cpus)
+      if (!Number.isFinite(cpus) || cpus <= 0) errors.nanoCpus = 'Use a positive number such as 1.5'
+      else if (Math.round(cpus * 1e9) !== current.nanoCpus) update.nanoCpus = Math.round(cpus * 1e9)
+    }
+  } else {
+    integer('cpuQuota', form.cpuQuota)
+    integer('cpuPeriod', form.cpuPeriod)
+  }
+  integer('cpuShares', form.cpuShares)
+  integer('pidsLimit', form.pidsLimit)
+  if (form.cpusetCpus.trim() !== current.cpusetCpus) update.cpusetCpus = form.cpusetCpus.trim()
+  if (form.cpusetMems.trim() !== current.cpusetMems) update.cpusetMems = form.cpusetMems.trim()
+
+  const retries = form.restartPolicy === 'on-failure' ? Number(form.maximumRetryCount || 0) : 0
+  if (!Number.isInteger(retries) || retries < 0) {
+    errors.restartPolicy = 'Retries must be a whole number'
+  } else if (form.restartPolicy !== current.restartPolicy.name || retries !== current.restartPolicy.maximumRetryCount) {
+    update.restartPolicy = { name: form.restartPolicy, maximumRetryCount: retries }
+  }
+
+  return { update, errors }
+}
+
+const ResourcesCard = ({
+  containerId,
+  resources,
+  canEdit,
+  onUpdated,
+  onUnauthorized,
+}: {
+  containerId: string
+  resources: ContainerResources | undefined
+  canEdit: boolean
+  onUpdated: () => void
+  onUnauthorized: () => void
+}) => {
+  const [form, setForm] = useState<ResourceForm | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  if (!resources) {
+    return (
+      <section className="detail-card detail-resources">
+        <h3>Resources</h3>
+        <p className="detail-muted">Loading resource limits…</p>
+      </section>
+    )
+  }
+
+  const { update, errors } = form ? toUpdate(form, resources) : { update: {}, errors: {} }
+  const changed = Object.keys(update) as ResourceKey[]
+  const after = { ...resources, ...update }
+  const hasErrors = Object.keys(errors).length > 0
+
+  const setField = (key: keyof ResourceForm, value: string) => setForm((prev) => (prev ? { ...prev, [key]: value } : prev))
+
+  const apply = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const result = await updateContainerResources(containerId, update)
+      setForm(null)
+      setNotice(result.warnings.length ? `Updated with warnings: ${result.warnings.join('; ')}` : 'Resource limits updated.')
+      onUpdated()
+    } catch (err) {
+      if (err instanceof AuthError) onUnauthorized()
+      setError(err instanceof Error ? err.message : 'Unable to update resources')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const input = (key: keyof ResourceForm, placeholder: string, errorKey?: ResourceKey) => (
+    <input
+      className={`control${errorKey && errors[errorKey] ? ' invalid' : ''}`}
+      type="text"
+      value={form ? (form[key] as string) : ''}
+      placeholder={placeholder}
+      title={errorKey ? errors[errorKey] : undefined}
+      onChange={(event) => setField(key, event.target.value)}
+    />
+  )
+
+  return (
+    <section className="detail-card detail-resources">
+      <div className="card-header">
+        <h3>Resources</h3>
+        {canEdit && !form && (
+          <button
+            className="control small"
+            onClick={() => {
+              setForm(toForm(resources))
+              setNotice(null)
+              setError(null)
+            }}
+          >
+            Edit
+          </button>
+        )}
+      </div>
+      {notice && <p className="detail-muted">{notice}</p>}
+      {error && <div className="error-banner">{error}</div>}
+
+      {!form ? (
+        <dl>
+          {(Object.keys(LABELS) as ResourceKey[]).map((key) => (
+            <div key={key}>
+              <dt>{LABELS[key]}</dt>
+              <dd>{describe(key, resources)}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <>
+          <div className="resource-form">
+            <label>
+              Memory {input('memory', 'unchanged, e.g. 512M', 'memory')}
+            </label>
+            <label>
+              Memory + Swap {input('memorySwap', '-1 for unlimited', 'memorySwap')}
+            </label>
+            <label>
+              Reservation {input('memoryReservation', 'e.g. 256M', 'memoryReservation')}
+            </label>
+            <label>
+              CPU limit
+              <select
+                className="control"
+                value={form.cpuMode}
+                onChange={(event) => setField('cpuMode', event.target.value)}
+              >
+                <option value="cpus">CPUs</option>
+                <option value="quota">Quota / period</option>
+              </select>
+            </label>
+            {form.cpuMode === 'cpus' ? (
+              <label>
+                CPUs {input('cpus', 'e.g. 1.5', 'nanoCpus')}
+              </label>
+            ) : (
+              <>
+                <label>
+                  Quota (µs) {input('cpuQuota', 'e.g. 50000', 'cpuQuota')}
+                </label>
+                <label>
+                  Period (µs) {input('cpuPeriod', 'default 100000', 'cpuPeriod')}
+                </label>
+              </>
+            )}
+            <label>
+              CPU Shares {input('cpuShares', 'default 1024', 'cpuShares')}
+            </label>
+            <label>
+              Cpuset CPUs {input('cpusetCpus', 'all, e.g. 0-3')}
+            </label>
+            <label>
+              Cpuset Mems {input('cpusetMems', 'all, e.g. 0')}
+            </label>
+            <label>
+              PIDs Limit {input('pidsLimit', '-1 for unlimited', 'pidsLimit')}
+            </label>
+            <label>
+              Restart Policy
+              <select
+                className="control"
+                value={form.restartPolicy}
+                onChange={(event) => setField('restartPolicy', event.target.value)}
+              >
+                {RESTART_POLICIES.map((policy) => (
+                  <option key={policy} value={policy}>
+                    {policy}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {form.restartPolicy === 'on-failure' && (
+              <label>
+                Max Retries {input('maximumRetryCount', '0 for unlimited', 'restartPolicy')}
+              </label>
+            )}
+          </div>
+
+          {hasErrors && (
+            <ul className="resource-errors">
+              {Object.entries(errors).map(([key, message]) => (
+                <li key={key}>
+                  {LABELS[key as ResourceKey]}: {message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {changed.length > 0 && (
+            <table className="resource-preview">
+              <thead>
+                <tr>
+                  <th>SETTING</th>
+                  <th>BEFORE</th>
+                  <th>AFTER</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changed.map((key) => (
+                  <tr key={key}>
+                    <td>{LABELS[key]}</td>
+                    <td>{describe(key, resources)}</td>
+                    <td>{describe(key, after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="dialog-actions">
+            <button className="control primary" onClick={apply} disabled={saving || hasErrors || !changed.length}>
+              {saving ? 'Applying…' : `Apply ${changed.length || ''}`.trim()}
+            </button>
+            <button className="control" onClick={() => setForm(null)} disabled={saving}>
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+    </section>
+  )
+}
+
+export default ResourcesCard
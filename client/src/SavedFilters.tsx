@@ -0,0 +1,105 @@
+import { useState } from 'react'
+
+const STORAGE_KEY = 'ctopweb.savedFilters'
+
+type SavedFilter = { name: string; query: string }
+
+const loadSavedFilters = (): SavedFilter[] => {
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]')
+    return Array.isArray(parsed) ? parsed.filter((item) => item && typeof item.name === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+const storeSavedFilters = (filters: SavedFilter[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(filters))
+  } catch {
+    // ignore quota and privacy errors
+  }
+}
+
+const SavedFilters = ({ query, onApply }: { query: string; onApply: (query: string) => void }) => {
+  const [filters, setFilters] = useState(loadSavedFilters)
+  const [naming, setNaming] = useState(false)
+  const [name, setName] = useState('')
+
+  const active = filters.find((item) => item.query === query)
+
+  const update = (next: SavedFilter[]) => {
+    setFilters(next)
+    storeSavedFilters(next)
+  }
+
+  const handleSave = () => {
+    const trimmed = name.trim()
+    if (!trimmed) return
+    update([...filters.filter((item) => item.name !== trimmed), { name: trimmed, query }])
+    setNaming(false)
+    setName('')
+  }
+
+  if (naming) {
+    return (
+      <form
+        className="saved-filters"
+        onSubmit={(event) => {
+          event.preventDefault()
+          handleSave()
+        }}
+      >
+        <input
+          className="control"
+          type="text"
+          placeholder="Filter name"
+          value={name}
+          autoFocus
+          onChange={(event) => setName(event.target.value)}
+        />
+        <button className="control primary" type="submit" disabled={!name.trim()}>
+          Save
+        </button>
+        <button className="control" type="button" onClick={() => setNaming(false)}>
+          Cancel
+        </button>
+      </form>
+    )
+  }
+
+  return (
+    <div className="saved-filters">
+      <select
+        className="control"
+        value={active?.name ?? ''}
+        onChange={(event) => {
+          const match = filters.find((item) => item.name === event.target.value)
+          onApply(match ? match.query : '')
+        }}
+      >
+        <option value="">Saved filters</option>
+        {filters.map((item) => (
+          <option key={item.name} value={item.name} title={item.query}>
+            {item.name}
+          </option>
+        ))}
+      </select>
+      {active ? (
+        <button
+          className="control"
+          title={`Delete "${active.name}"`}
+          onClick={() => update(filters.filter((item) => item.name !== active.name))}
+        >
+          Delete
+        </button>
+      ) : (
+        <button className="control" onClick={() => setNaming(true)} disabled={!query.trim()}>
+          Save Filter
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default SavedFilters
@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from 'react'
+import { Terminal } from '@xterm/xterm'
+import { FitAddon } from '@xterm/addon-fit'
+import '@xterm/xterm/css/xterm.css'
+import { openExecSocket } from './api'
+
+const ShellTerminal = ({ containerId, running }: { containerId: string; running: boolean }) => {
+  const [command, setCommand] = useState('/bin/sh')
+  const [session, setSession] = useState<{ command: string; token: number } | null>(null)
+  const [status, setStatus] = useState('Not connected')
+  const hostRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!session || !hostRef.current) return undefined
+
+    const terminal = new Terminal({
+      cursorBlink: true,
+      fontFamily: "'JetBrains Mono', 'Fira Code', monospace",
+      fontSize: 13,
+      theme: { background: '#020617' },
+    })
+    const fit = new FitAddon()
+    terminal.loadAddon(fit)
+    terminal.open(hostRef.current)
+    fit.fit()
+
+    const socket = openExecSocket(containerId, session.command)
+    const decoder = new TextDecoder()
+    const send = (payload: object) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(payload))
+    }
+
+    socket.onopen = () => {
+      setStatus(`Connected · ${session.command}`)
+      send({ type: 'resize', cols: terminal.cols, rows: terminal.rows })
+      terminal.focus()
+    }
+    socket.onmessage = (event) => {
+      if (typeof event.data === 'string') {
+        const message = JSON.parse(event.data)
+        if (message.type === 'exit') terminal.writeln(`\r\n[process exited with code ${message.exitCode ?? '?'}]`)
+        return
+      }
+      terminal.write(decoder.decode(event.data as ArrayBuffer, { stream: true }))
+    }
+    socket.onclose = (event) => {
+      setStatus(event.reason ? `Disconnected · ${event.reason}` : 'Disconnected')
+    }
+
+    const inputListener = terminal.onData((data) => send({ type: 'input', data }))
+    const resizeListener = terminal.onResize(({ cols, rows }) => send({ type: 'resize', cols, rows }))
+    const observer = new ResizeObserver(() => fit.fit())
+    observer.observe(hostRef.current)
+
+    return () => {
+      observer.disconnect()
+      inputListener.dispose()
+      resizeListener.dispose()
+      socket.close()
+      terminal.dispose()
+    }
+  }, [containerId, session])
+
+  return (
+    <section className="detail-card shell-panel">
+      <div className="log-controls">
+        <input
+          type="text"
+          value={command}
+          onChange={(event) => setCommand(event.target.value)}
+          placeholder="/bin/sh"
+          disabled={session !== null}
+        />
+        {session ? (
+          <button className="control" onClick={() => setSession(null)}>
+            Disconnect
+          </button>
+        ) : (
+          <button
+            className="control primary"
+            onClick={() => setSession({ command: command.trim() || '/bin/sh', token: Date.now() })}
+            disabled={!running}
+          >
+            Connect
+          </button>
+        )}
+        <span className="subtle">{running ? (session ? status : 'Not connected') : 'Container is not running'}</span>
+      </div>
+      {session && <div className="shell-terminal" ref={hostRef} />}
+    </section>
+  )
+}
+
+export default ShellTerminal
@@ -0,0 +1,14 @@
+const UsageBar = ({ percent, label, type }: { percent: number; label: string; type: 'cpu' | 'mem' }) => {
+  const safePercent = Number.isFinite(percent) ? Math.min(Math.max(percent, 0), 100) : 0
+
+  return (
+    <div className="usage">
+      <div className={`usage-bar ${type}`}>
+        <span style={{ width: `${safePercent}%` }} />
+      </div>
+      <span className="usage-label">{label}</span>
+    </div>
+  )
+}
+
+export default UsageBar
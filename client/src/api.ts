@@ -1,27 +1,409 @@
-import type { ContainerDetail, ContainerResponse } from './types'
+import type {
+  AlertSummary,
+  ApiError,
+  AuthSession,
+  ContainerAction,
+  ContainerChanges,
+  ContainerActionOptions,
+  ContainerActionResult,
+  ContainerDelta,
+  ContainerDetail,
+  ContainerHistory,
+  ContainerLogs,
+  ContainerPath,
+  ContainerProcesses,
+  ContainerResponse,
+  DiskUsage,
+  DockerEvent,
+  EventQuery,
+  FilePreview,
+  FileUploadResult,
+  HostOverview,
+  InventoryKind,
+  InventoryResponse,
+  LogLine,
+  LogQuery,
+  LoginCredentials,
+  PruneOptions,
+  PruneResult,
+  ResourceUpdate,
+  ResourceUpdateResult,
+  RevealedSecret,
+  SecretReference,
+} from './types'
 
 const API_BASE_URL =
   import.meta.env.VITE_API_BASE_URL ||
   (typeof window !== 'undefined' ? window.location.origin : 'http://localhost:4000')
 
+export class AuthError extends Error {}
+
+async function apiFetch(path: string, init: RequestInit = {}) {
+  // The server rejects writes without this header, which a cross-site form cannot add.
+  const headers = new Headers(init.headers)
+  headers.set('X-Requested-With', 'ctop')
+  const response = await fetch(`${API_BASE_URL}${path}`, { ...init, headers, credentials: 'include' })
+  if (response.status === 401) {
+    throw new AuthError(await readError(response, 'Authentication required'))
+  }
+  return response
+}
+
+async function readError(response: Response, fallback: string) {
+  const text = await response.text()
+  try {
+    const body = JSON.parse(text) as ApiError
+    return body.error ? `${body.message}: ${body.error}` : body.message || fallback
+  } catch {
+    return text || fallback
+  }
+}
+
+export async function fetchSession(): Promise<AuthSession> {
+  const response = await apiFetch('/api/auth/me')
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to load session'))
+  }
+
+  return response.json()
+}
+
+export async function login(credentials: LoginCredentials): Promise<AuthSession> {
+  const response = await apiFetch('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(credentials),
+  })
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to sign in'))
+  }
+
+  return response.json()
+}
+
+export async function logout(): Promise<void> {
+  await apiFetch('/api/auth/logout', { method: 'POST' })
+}
+
 export async function fetchContainers(): Promise<ContainerResponse> {
-  const response = await fetch(`${API_BASE_URL}/api/containers`)
+  const response = await apiFetch('/api/containers')
 
   if (!response.ok) {
-    const message = await response.text()
-    throw new Error(message || 'Failed to load container stats')
+    throw new Error(await readError(response, 'Failed to load container stats'))
   }
 
   return response.json()
 }
 
 export async function fetchContainerDetail(id: string): Promise<ContainerDetail> {
-  const response = await fetch(`${API_BASE_URL}/api/containers/${id}`)
+  const response = await apiFetch(`/api/containers/${id}`)
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to load container detail'))
+  }
+
+  return response.json()
+}
+
+export async function fetchContainerHistory(
+  id: string,
+  range: { from: number; to: number; step?: number },
+): Promise<ContainerHistory> {
+  const params = new URLSearchParams({ from: String(range.from), to: String(range.to) })
+  if (range.step) params.set('step', String(range.step))
+  const response = await apiFetch(`/api/containers/${id}/history?${params}`)
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to load container history'))
+  }
+
+  return response.json()
+}
+
+export async function runContainerAction(
+  id: string,
+  action: ContainerAction,
+  options: ContainerActionOptions = {},
+): Promise<ContainerActionResult> {
+  const response = await apiFetch(`/api/containers/${id}/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(options),
+  })
+
+  if (!response.ok) {
+    throw new Error(await readError(response, `Failed to ${action} container`))
+  }
+
+  return response.json()
+}
+
+export async function updateContainerResources(id: string, update: ResourceUpdate): Promise<ResourceUpdateResult> {
+  const response = await apiFetch(`/api/containers/${id}/resources`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+  })
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to update container resources'))
+  }
+
+  return response.json()
+}
+
+function logParams(query: LogQuery) {
+  const params = new URLSearchParams()
+  if (query.tail !== undefined) params.set('tail', String(query.tail))
+  if (query.since) params.set('since', String(query.since))
+  if (query.until) params.set('until', String(query.until))
+  if (query.timestamps) params.set('timestamps', 'true')
+  return params
+}
+
+export async function fetchContainerLogs(id: string, query: LogQuery): Promise<ContainerLogs> {
+  const response = await apiFetch(`/api/containers/${id}/logs?${logParams(query)}`)
 
   if (!response.ok) {
-    const message = await response.text()
-    throw new Error(message || 'Failed to load container detail')
+    throw new Error(await readError(response, 'Failed to load container logs'))
   }
 
   return response.json()
 }
+
+export function subscribeContainerLogs(
+  id: string,
+  query: LogQuery,
+  handlers: {
+    onLines: (lines: LogLine[]) => void
+    onEnd: () => void
+    onError: () => void
+  },
+): () => void {
+  const params = logParams(query)
+  params.set('follow', 'true')
+  const source = new EventSource(`${API_BASE_URL}/api/containers/${id}/logs?${params}`, { withCredentials: true })
+
+  source.addEventListener('lines', (event) => {
+    handlers.onLines(JSON.parse((event as MessageEvent<string>).data))
+  })
+  source.addEventListener('end', () => {
+    source.close()
+    handlers.onEnd()
+  })
+  source.onerror = () => {
+    source.close()
+    handlers.onError()
+  }
+
+  return () => source.close()
+}
+
+export async function fetchContainerProcesses(id: string, psArgs?: string): Promise<ContainerProcesses> {
+  const params = new URLSearchParams()
+  if (psArgs) params.set('ps_args', psArgs)
+  const response = await apiFetch(`/api/containers/${id}/processes?${params}`)
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to load container processes'))
+  }
+
+  return response.json()
+}
+
+function pathParams(path: string) {
+  return new URLSearchParams({ path })
+}
+
+export async function fetchContainerPath(id: string, path: string): Promise<ContainerPath> {
+  const response = await apiFetch(`/api/containers/${id}/fs?${pathParams(path)}`)
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to read container path'))
+  }
+
+  return response.json()
+}
+
+export async function fetchFilePreview(id: string, path: string): Promise<FilePreview> {
+  const response = await apiFetch(`/api/containers/${id}/fs/preview?${pathParams(path)}`)
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to preview file'))
+  }
+
+  return response.json()
+}
+
+// Downloads go through a plain link so large files and tarballs stream straight to disk.
+export function containerDownloadUrl(id: string, path: string) {
+  return `${API_BASE_URL}/api/containers/${id}/fs/download?${pathParams(path)}`
+}
+
+export async function uploadContainerFile(id: string, directory: string, file: File): Promise<FileUploadResult> {
+  const params = pathParams(directory)
+  params.set('name', file.name)
+  const response = await apiFetch(`/api/containers/${id}/fs?${params}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: file,
+  })
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to upload file'))
+  }
+
+  return response.json()
+}
+
+export async function fetchContainerChanges(id: string): Promise<ContainerChanges> {
+  const response = await apiFetch(`/api/containers/${id}/changes`)
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to load filesystem changes'))
+  }
+
+  return response.json()
+}
+
+function eventParams(query: EventQuery) {
+  const params = new URLSearchParams()
+  if (query.container) params.set('container', query.container)
+  if (query.type) params.set('type', query.type)
+  if (query.action) params.set('action', query.action)
+  if (query.since !== undefined) params.set('since', String(query.since))
+  if (query.limit !== undefined) params.set('limit', String(query.limit))
+  return params
+}
+
+export function subscribeEvents(
+  query: EventQuery,
+  handlers: {
+    onEvents: (events: DockerEvent[]) => void
+    onEvent: (event: DockerEvent) => void
+    onError: () => void
+  },
+): () => void {
+  const params = eventParams(query)
+  params.set('follow', 'true')
+  const source = new EventSource(`${API_BASE_URL}/api/events?${params}`, { withCredentials: true })
+
+  source.addEventListener('events', (event) => {
+    handlers.onEvents(JSON.parse((event as MessageEvent<string>).data))
+  })
+  source.addEventListener('event', (event) => {
+    handlers.onEvent(JSON.parse((event as MessageEvent<string>).data))
+  })
+  source.onerror = () => {
+    source.close()
+    handlers.onError()
+  }
+
+  return () => source.close()
+}
+
+export async function fetchAlerts(): Promise<AlertSummary> {
+  const response = await apiFetch('/api/alerts')
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to load alerts'))
+  }
+
+  return response.json()
+}
+
+function hostParams(host?: string) {
+  const params = new URLSearchParams()
+  if (host) params.set('host', host)
+  return params
+}
+
+export async function fetchInventory<K extends InventoryKind>(kind: K, host?: string): Promise<InventoryResponse<K>> {
+  const response = await apiFetch(`/api/${kind}?${hostParams(host)}`)
+
+  if (!response.ok) {
+    throw new Error(await readError(response, `Failed to load ${kind}`))
+  }
+
+  return response.json()
+}
+
+export async function fetchDiskUsage(host?: string): Promise<DiskUsage> {
+  const response = await apiFetch(`/api/system/df?${hostParams(host)}`)
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to load disk usage'))
+  }
+
+  return response.json()
+}
+
+export async function fetchHostOverview(): Promise<HostOverview> {
+  const response = await apiFetch('/api/host')
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to load host overview'))
+  }
+
+  return response.json()
+}
+
+export async function pruneInventory<K extends InventoryKind>(kind: K, options: PruneOptions): Promise<PruneResult<K>> {
+  const response = await apiFetch(`/api/${kind}/prune`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(options),
+  })
+
+  if (!response.ok) {
+    throw new Error(await readError(response, `Failed to prune ${kind}`))
+  }
+
+  return response.json()
+}
+
+export function openExecSocket(id: string, command?: string): WebSocket {
+  const url = new URL(`${API_BASE_URL}/api/containers/${id}/exec`)
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:'
+  if (command) url.searchParams.set('command', command)
+  const socket = new WebSocket(url)
+  socket.binaryType = 'arraybuffer'
+  return socket
+}
+
+export async function revealSecret(id: string, secret: SecretReference): Promise<RevealedSecret> {
+  const response = await apiFetch(`/api/containers/${id}/secrets/reveal`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(secret),
+  })
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to reveal secret'))
+  }
+
+  return response.json()
+}
+
+export function subscribeContainers(handlers: {
+  onSnapshot: (data: ContainerResponse) => void
+  onDelta: (delta: ContainerDelta) => void
+  onError: () => void
+}): () => void {
+  const source = new EventSource(`${API_BASE_URL}/api/containers/stream`, { withCredentials: true })
+
+  source.addEventListener('snapshot', (event) => {
+    handlers.onSnapshot(JSON.parse((event as MessageEvent<string>).data))
+  })
+  source.addEventListener('delta', (event) => {
+    handlers.onDelta(JSON.parse((event as MessageEvent<string>).data))
+  })
+  source.onerror = () => {
+    source.close()
+    handlers.onError()
+  }
+
+  return () => source.close()
+}
@@ -0,0 +1,74 @@
+import { formatBytes } from './format'
+import type { MetricSeriesKey } from './metricHistory'
+import type { ContainerInfo } from './types'
+
+export const MAX_COMPARED = 8
+
+export const SERIES_COLORS = ['#38bdf8', '#f472b6', '#facc15', '#4ade80', '#a78bfa', '#fb923c', '#2dd4bf', '#f87171']
+
+// Outliers need a group to compare against; with two containers neither is "the odd one out".
+export const MIN_OUTLIER_GROUP = 3
+
+// A value is flagged when it sits this far from the group median, relative to the median...
+export const OUTLIER_RATIO = 0.5
+
+export type CompareMetric = {
+  key: MetricSeriesKey
+  label: string
+  unit: 'percent' | 'rate'
+  current: (container: ContainerInfo) => number
+  // ...and the absolute gap is at least this large, so idle replicas do not all light up.
+  floor: number
+}
+
+export const COMPARE_METRICS: CompareMetric[] = [
+  { key: 'cpu', label: 'CPU', unit: 'percent', current: (container) => container.cpu, floor: 5 },
+  { key: 'mem', label: 'Memory', unit: 'percent', current: (container) => container.memory.percent, floor: 5 },
+  { key: 'netRx', label: 'Net RX', unit: 'rate', current: (container) => container.netRate?.rx ?? 0, floor: 64 * 1024 },
+  { key: 'netTx', label: 'Net TX', unit: 'rate', current: (container) => container.netRate?.tx ?? 0, floor: 64 * 1024 },
+  {
+    key: 'blockRead',
+    label: 'Block read',
+    unit: 'rate',
+    current: (container) => container.blockRate?.read ?? 0,
+    floor: 256 * 1024,
+  },
+  {
+    key: 'blockWrite',
+    label: 'Block write',
+    unit: 'rate',
+    current: (container) => container.blockRate?.write ?? 0,
+    floor: 256 * 1024,
+  },
+]
+
+export function formatMetric(metric: CompareMetric, value: number) {
+  if (!Number.isFinite(value)) return '-'
+  return metric.unit === 'percent' ? `${value.toFixed(1)}%` : `${formatBytes(value)}/s`
+}
+
+export function median(values: number[]) {
+  if (!values.length) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+export function isOutlier(metric: CompareMetric, value: number, groupMedian: number) {
+  const gap = Math.abs(value - groupMedian)
+  return gap >= metric.floor && gap > Math.abs(groupMedian) * OUTLIER_RATIO
+}
+
+// Index of the point in `times` closest to `time`.
+export function nearestIndex(times: number[], time: number) {
+  let best = -1
+  let bestGap = Infinity
+  times.forEach((value, index) => {
+    const gap = Math.abs(value - time)
+    if (gap < bestGap) {
+      best = index
+      bestGap = gap
+    }
+  })
+  return best
+}
@@ -0,0 +1,24 @@
+import type { DockerEvent } from './types'
+
+export const EVENT_LIMIT = 500
+
+export type EventTone = 'good' | 'bad' | 'neutral'
+
+const BAD_ACTIONS = new Set(['die', 'oom', 'kill', 'destroy'])
+const GOOD_ACTIONS = new Set(['create', 'start', 'restart', 'unpause'])
+
+export function eventTone(event: DockerEvent): EventTone {
+  if (event.action === 'health_status') return event.detail === 'unhealthy' ? 'bad' : event.detail === 'healthy' ? 'good' : 'neutral'
+  if (event.action === 'die' && event.exitCode === 0) return 'neutral'
+  if (BAD_ACTIONS.has(event.action)) return 'bad'
+  if (GOOD_ACTIONS.has(event.action)) return 'good'
+  return 'neutral'
+}
+
+export function describeEvent(event: DockerEvent) {
+  const parts = [event.action === 'health_status' ? 'health' : event.action]
+  if (event.detail) parts.push(event.detail)
+  if (event.exitCode !== null && event.action === 'die') parts.push(`exit ${event.exitCode}`)
+  if (event.signal) parts.push(`signal ${event.signal}`)
+  return parts.join(' · ')
+}
@@ -0,0 +1,52 @@
+export function formatDateTime(value: string | null) {
+  if (!value) return '-'
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return '-'
+  return date.toLocaleString()
+}
+
+export function formatBytes(bytes: number) {
+  if (!Number.isFinite(bytes) || bytes <= 0) return '0B'
+  const units = ['B', 'K', 'M', 'G', 'T']
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1)
+  const value = bytes / Math.pow(1024, i)
+  return `${value.toFixed(value >= 10 || i === 0 ? 0 : 1)}${units[i]}`
+}
+
+// Uptime is derived from startedAt on render so the stream does not have to
+// resend every container each second; `fallback` covers payloads without it.
+export function formatUptime(startedAt: string | null, fallback = '-') {
+  const start = startedAt ? Date.parse(startedAt) : NaN
+  if (Number.isNaN(start) || Date.now() < start) return fallback
+  const seconds = Math.floor((Date.now() - start) / 1000)
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = seconds % 60
+  if (days > 0) return `${days}d${hours}h${minutes}m`
+  if (hours > 0) return `${hours}h${minutes}m${secs}s`
+  if (minutes > 0) return `${minutes}m${secs}s`
+  return `${secs}s`
+}
+
+export function formatRate(bytesPerSecond: number | undefined) {
+  return `${formatBytes(bytesPerSecond ?? 0)}/s`
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  k: 1024,
+  kb: 1024,
+  m: 1024 ** 2,
+  mb: 1024 ** 2,
+  g: 1024 ** 3,
+  gb: 1024 ** 3,
+}
+
+// Parses "512M", "1.5g" or a plain byte count; returns null when it does not parse.
+export function parseSize(value: string) {
+  const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/i.exec(value.trim())
+  const unit = match ? (match[2] || 'b').toLowerCase() : ''
+  if (!match || !SIZE_UNITS[unit]) return null
+  return Math.round(Number(match[1]) * SIZE_UNITS[unit])
+}
@@ -0,0 +1,106 @@
+import { fetchInventory } from './api'
+import type {
+  ContainerRef,
+  HostFailure,
+  InventoryImage,
+  InventoryKind,
+  InventoryNetwork,
+  InventoryVolume,
+} from './types'
+
+export type InventoryFlag = 'dangling' | 'unused' | 'anonymous' | 'builtin' | 'internal'
+
+export type InventoryRow = {
+  key: string
+  host: string
+  name: string
+  title: string
+  details: string[]
+  size: number | null
+  sharedSize: number | null
+  created: string | null
+  containers: ContainerRef[]
+  flags: InventoryFlag[]
+  unused: boolean
+}
+
+export const INVENTORY_TABS: { label: string; value: InventoryKind }[] = [
+  { label: 'Images', value: 'images' },
+  { label: 'Volumes', value: 'volumes' },
+  { label: 'Networks', value: 'networks' },
+]
+
+export const PRUNE_LABELS: Record<InventoryKind, string> = {
+  images: 'Prune dangling images',
+  volumes: 'Prune unused volumes',
+  networks: 'Prune unused networks',
+}
+
+const shortId = (id: string) => id.replace(/^sha256:/, '').slice(0, 12)
+
+// Keys match the ones the server uses for prune candidates.
+const imageRow = (image: InventoryImage): InventoryRow => ({
+  key: `${image.host}/${image.id}`,
+  host: image.host,
+  name: image.tags[0] ?? '<none>',
+  title: image.id,
+  details: [shortId(image.id), ...image.tags.slice(1)],
+  size: image.size,
+  sharedSize: image.sharedSize,
+  created: image.created,
+  containers: image.containers,
+  flags: [image.dangling && 'dangling', image.unused && 'unused'].filter(Boolean) as InventoryFlag[],
+  unused: image.unused,
+})
+
+const volumeRow = (volume: InventoryVolume): InventoryRow => ({
+  key: `${volume.host}/${volume.name}`,
+  host: volume.host,
+  name: volume.anonymous ? shortId(volume.name) : volume.name,
+  title: volume.mountpoint,
+  details: [volume.driver, volume.scope].filter(Boolean),
+  size: volume.size,
+  sharedSize: null,
+  created: volume.created,
+  containers: volume.containers,
+  flags: [volume.anonymous && 'anonymous', volume.unused && 'unused'].filter(Boolean) as InventoryFlag[],
+  unused: volume.unused,
+})
+
+const networkRow = (network: InventoryNetwork): InventoryRow => ({
+  key: `${network.host}/${network.id}`,
+  host: network.host,
+  name: network.name,
+  title: network.id,
+  details: [network.driver, network.scope, ...network.subnets].filter(Boolean),
+  size: null,
+  sharedSize: null,
+  created: network.created,
+  containers: network.containers,
+  flags: [network.builtin && 'builtin', network.internal && 'internal', network.unused && 'unused'].filter(
+    Boolean,
+  ) as InventoryFlag[],
+  unused: network.unused,
+})
+
+export async function loadInventoryRows(
+  kind: InventoryKind,
+  host?: string,
+): Promise<{ rows: InventoryRow[]; failures: HostFailure[] }> {
+  if (kind === 'images') {
+    const data = await fetchInventory('images', host)
+    return { rows: data.images.map(imageRow), failures: data.failures }
+  }
+  if (kind === 'volumes') {
+    const data = await fetchInventory('volumes', host)
+    return { rows: data.volumes.map(volumeRow), failures: data.failures }
+  }
+  const data = await fetchInventory('networks', host)
+  return { rows: data.networks.map(networkRow), failures: data.failures }
+}
+
+export function inventoryRow(kind: InventoryKind, item: InventoryImage | InventoryVolume | InventoryNetwork) {
+  if (kind === 'images') return imageRow(item as InventoryImage)
+  if (kind === 'volumes') return volumeRow(item as InventoryVolume)
+  return networkRow(item as InventoryNetwork)
+}
@@ -0,0 +1,26 @@
+import type { HistoryPoint } from './types'
+
+// Per-container series kept for sparklines and the compare view, oldest first.
+export type MetricHistory = {
+  times: number[]
+  cpu: number[]
+  mem: number[]
+  netRx: number[]
+  netTx: number[]
+  blockRead: number[]
+  blockWrite: number[]
+}
+
+export type MetricSeriesKey = Exclude<keyof MetricHistory, 'times'>
+
+export function historyFromPoints(points: HistoryPoint[]): MetricHistory {
+  return {
+    times: points.map((point) => point.t),
+    cpu: points.map((point) => point.cpu),
+    mem: points.map((point) => point.mem),
+    netRx: points.map((point) => point.netRx),
+    netTx: points.map((point) => point.netTx),
+    blockRead: points.map((point) => point.blockRead),
+    blockWrite: points.map((point) => point.blockWrite),
+  }
+}
@@ -0,0 +1,288 @@
+import type { ContainerInfo } from './types'
+
+// Client copy of server/query.js; keep the two in sync so saved filters can be
+// reused against GET /api/containers?q=.
+//
+//   state:running cpu>50 mem>=80% image:nginx* label:team=payments port:443
+//   health:unhealthy host:edge-1 -state:stopped (name:api* OR name:web*)
+
+type Matcher = (container: ContainerInfo) => boolean
+
+type Token = {
+  type: 'term' | 'or' | 'not' | '(' | ')'
+  text?: string
+  start: number
+  end: number
+}
+
+export type QueryProblem = { message: string; start: number; end: number }
+
+export class QueryError extends Error {
+  start: number
+  end: number
+
+  constructor(message: string, start: number, end: number) {
+    super(message)
+    this.name = 'QueryError'
+    this.start = start
+    this.end = end
+  }
+}
+
+const TEXT_FIELDS = ['name', 'id', 'state', 'image', 'label', 'port', 'health', 'host', 'network']
+const NUMERIC_FIELDS = ['cpu', 'mem', 'pids']
+const UNITS: Record<string, number> = {
+  b: 1,
+  k: 1024,
+  kb: 1024,
+  m: 1024 ** 2,
+  mb: 1024 ** 2,
+  g: 1024 ** 3,
+  gb: 1024 ** 3,
+  t: 1024 ** 4,
+  tb: 1024 ** 4,
+}
+
+export const QUERY_FIELDS = [...TEXT_FIELDS, ...NUMERIC_FIELDS]
+
+function tokenize(input: string) {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < input.length) {
+    const ch = input[i]
+    if (/\s/.test(ch)) {
+      i += 1
+    } else if (ch === '(' || ch === ')' || ch === '|') {
+      tokens.push({ type: ch === '|' ? 'or' : ch, start: i, end: i + 1 })
+      i += 1
+    } else if ((ch === '-' || ch === '!') && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ type: 'not', start: i, end: i + 1 })
+      i += 1
+    } else {
+      const start = i
+      let text = ''
+      while (i < input.length && !/[\s()|]/.test(input[i])) {
+        if (input[i] === '"') {
+          const close = input.indexOf('"', i + 1)
+          if (close === -1) throw new QueryError('Unterminated quote', i, input.length)
+          text += input.slice(i + 1, close)
+          i = close + 1
+        } else {
+          text += input[i]
+          i += 1
+        }
+      }
+      const raw = input.slice(start, i)
+      tokens.push(raw.toUpperCase() === 'OR' ? { type: 'or', start, end: i } : { type: 'term', text, start, end: i })
+    }
+  }
+  return tokens
+}
+
+// Same linear wildcard matcher as server/glob.js: `*` is any run, `?` one
+// character, and a mismatch only backtracks to the last `*`.
+function compileGlob(glob: string) {
+  const pattern = glob.toLowerCase()
+  const test = (value: string) => {
+    const text = value.toLowerCase()
+    let p = 0
+    let t = 0
+    let star = -1
+    let resume = 0
+    while (t < text.length) {
+      if (p < pattern.length && (pattern[p] === text[t] || pattern[p] === '?')) {
+        p += 1
+        t += 1
+      } else if (p < pattern.length && pattern[p] === '*') {
+        star = p
+        resume = t
+        p += 1
+      } else if (star !== -1) {
+        p = star + 1
+        resume += 1
+        t = resume
+      } else {
+        return false
+      }
+    }
+    while (pattern[p] === '*') p += 1
+    return p === pattern.length
+  }
+  return { test }
+}
+
+function compare(op: string, left: number, right: number) {
+  switch (op) {
+    case '>':
+      return left > right
+    case '>=':
+      return left >= right
+    case '<':
+      return left < right
+    case '<=':
+      return left <= right
+    case '!=':
+      return left !== right
+    default:
+      return left === right
+  }
+}
+
+function portNumbers(ports: string) {
+  return String(ports || '')
+    .split(',')
+    .flatMap((entry) => {
+      const numbers: string[] = []
+      const published = entry.match(/:(\d+)\s*->/)
+      const exposed = entry.match(/(\d+)\/\w+\s*$/)
+      if (published) numbers.push(published[1])
+      if (exposed) numbers.push(exposed[1])
+      return numbers
+    })
+}
+
+const networkNames = (networks: string) =>
+  String(networks || '')
+    .split(',')
+    .map((entry) => entry.trim().split(':')[0])
+
+function textMatcher(field: string, value: string, token: Token): Matcher {
+  if (field === 'label') {
+    const idx = value.indexOf('=')
+    const key = idx === -1 ? value : value.slice(0, idx)
+    if (!key) throw new QueryError('label: needs a key, e.g. label:team=payments', token.start, token.end)
+    const keyGlob = compileGlob(key)
+    const valueGlob = idx === -1 ? null : compileGlob(value.slice(idx + 1))
+    return (container) =>
+      Object.entries(container.labels ?? {}).some(
+        ([name, labelValue]) => keyGlob.test(name) && (!valueGlob || valueGlob.test(labelValue)),
+      )
+  }
+
+  const glob = compileGlob(value)
+  switch (field) {
+    case 'name':
+      return (container) => glob.test(container.name)
+    case 'id':
+      return (container) => container.id.toLowerCase().startsWith(value.toLowerCase()) || glob.test(container.id)
+    case 'state':
+      return (container) => glob.test(container.state)
+    case 'image':
+      return (container) => {
+        const image = container.image ?? ''
+        return glob.test(image) || glob.test(image.replace(/:[^/:]+$/, ''))
+      }
+    case 'port':
+      return (container) => portNumbers(container.ports).some((port) => glob.test(port))
+    case 'health':
+      return (container) => glob.test(container.health ?? 'none')
+    case 'host':
+      return (container) => glob.test(container.host ?? '')
+    default:
+      return (container) => networkNames(container.networks).some((name) => glob.test(name))
+  }
+}
+
+function numericMatcher(field: string, op: string, value: string, token: Token): Matcher {
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*(%|[a-z]+)?$/i)
+  if (!match) throw new QueryError(`${field} needs a number, e.g. ${field}>50`, token.start, token.end)
+  const amount = Number(match[1])
+  const unit = (match[2] ?? '').toLowerCase()
+
+  if (field === 'mem' && unit && unit !== '%') {
+    if (!UNITS[unit]) throw new QueryError(`Unknown size unit "${match[2]}"`, token.start, token.end)
+    const bytes = amount * UNITS[unit]
+    return (container) => compare(op, container.memoryBytes?.usage ?? 0, bytes)
+  }
+  if (unit && unit !== '%') throw new QueryError(`${field} does not take a unit`, token.start, token.end)
+  if (field === 'cpu') return (container) => compare(op, container.cpu, amount)
+  if (field === 'mem') return (container) => compare(op, container.memory.percent, amount)
+  return (container) => compare(op, container.pids, amount)
+}
+
+function termMatcher(token: Token): Matcher {
+  const text = token.text ?? ''
+  const match = text.match(/^([a-z]+)(>=|<=|!=|>|<|=|:)(.*)$/i)
+  if (!match) {
+    const needle = text.toLowerCase()
+    return (container) =>
+      container.name.toLowerCase().includes(needle) ||
+      container.raw.shortId.toLowerCase().includes(needle) ||
+      container.networks.toLowerCase().includes(needle)
+  }
+
+  const field = match[1].toLowerCase()
+  const op = match[2]
+  const value = match[3]
+  if (!QUERY_FIELDS.includes(field)) {
+    throw new QueryError(`Unknown field "${match[1]}"`, token.start, token.start + match[1].length)
+  }
+  if (!value) throw new QueryError(`Missing value for ${field}`, token.start, token.end)
+  if (NUMERIC_FIELDS.includes(field)) return numericMatcher(field, op === ':' ? '=' : op, value, token)
+  if (op !== ':' && op !== '=') throw new QueryError(`${field} only supports ":"`, token.start, token.end)
+  return textMatcher(field, value, token)
+}
+
+// Recursive descent over: or := and ('OR' and)* ; and := unary+ ; unary := '-' unary | '(' or ')' | term
+function parse(tokens: Token[], length: number): Matcher {
+  let pos = 0
+  const peek = (): Token | undefined => tokens[pos]
+
+  const parseUnary = (): Matcher => {
+    const token = peek()
+    if (!token) throw new QueryError('Query ends unexpectedly', length, length)
+    if (token.type === 'not') {
+      pos += 1
+      const inner = parseUnary()
+      return (container) => !inner(container)
+    }
+    if (token.type === '(') {
+      pos += 1
+      const inner = parseOr()
+      const close = peek()
+      if (!close || close.type !== ')') throw new QueryError('Missing closing parenthesis', token.start, length)
+      pos += 1
+      return inner
+    }
+    if (token.type === 'term') {
+      pos += 1
+      return termMatcher(token)
+    }
+    throw new QueryError(`Unexpected "${token.type === 'or' ? 'OR' : token.type}"`, token.start, token.end)
+  }
+
+  const parseAnd = (): Matcher => {
+    const terms = [parseUnary()]
+    let next = peek()
+    while (next && next.type !== 'or' && next.type !== ')') {
+      terms.push(parseUnary())
+      next = peek()
+    }
+    return (container) => terms.every((term) => term(container))
+  }
+
+  const parseOr = (): Matcher => {
+    const groups = [parseAnd()]
+    while (peek()?.type === 'or') {
+      pos += 1
+      groups.push(parseAnd())
+    }
+    return (container) => groups.some((group) => group(container))
+  }
+
+  const matcher = parseOr()
+  const rest = peek()
+  if (rest) throw new QueryError(`Unexpected "${rest.type}"`, rest.start, rest.end)
+  return matcher
+}
+
+// Never throws: an invalid query matches everything and reports where it went wrong.
+export function compileQuery(input: string): { match: Matcher; error: QueryProblem | null } {
+  try {
+    const tokens = tokenize(input)
+    return { match: tokens.length ? parse(tokens, input.length) : () => true, error: null }
+  } catch (err) {
+    if (!(err instanceof QueryError)) throw err
+    return { match: () => true, error: { message: err.message, start: err.start, end: err.end } }
+  }
+}
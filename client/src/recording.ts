@@ -0,0 +1,113 @@
+import type { ContainerResponse, HistoryPoint } from './types'
+
+// Roughly an hour of frames at the stream's default 2s cadence.
+export const MAX_RECORDED_FRAMES = 1800
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 30, 60]
+
+const GZIP_MAGIC = [0x1f, 0x8b]
+
+export type RecordedFrame = ContainerResponse
+
+export type Replay = {
+  name: string
+  frames: RecordedFrame[]
+  position: number
+  playing: boolean
+  speed: number
+}
+
+export const frameTime = (frame: RecordedFrame) => Date.parse(frame.fetchedAt)
+
+export function appendFrame(frames: RecordedFrame[], frame: RecordedFrame) {
+  const next = frames.concat(frame)
+  return next.length > MAX_RECORDED_FRAMES ? next.slice(-MAX_RECORDED_FRAMES) : next
+}
+
+// Serializes frames as NDJSON, gzipped when the browser supports CompressionStream.
+export async function exportRecording(frames: RecordedFrame[]) {
+  const text = frames.map((frame) => JSON.stringify(frame)).join('\n') + '\n'
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+  if (typeof CompressionStream === 'undefined') {
+    return { blob: new Blob([text], { type: 'application/x-ndjson' }), filename: `ctopweb-${stamp}.ndjson` }
+  }
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'))
+  const blob = await new Response(stream).blob()
+  return { blob: new Blob([blob], { type: 'application/gzip' }), filename: `ctopweb-${stamp}.ndjson.gz` }
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+const isFrame = (value: unknown): value is RecordedFrame =>
+  typeof value === 'object' &&
+  value !== null &&
+  Array.isArray((value as RecordedFrame).containers) &&
+  !Number.isNaN(Date.parse((value as RecordedFrame).fetchedAt))
+
+// Accepts NDJSON or a JSON array of ContainerResponse snapshots, optionally gzipped.
+export async function parseRecording(file: Blob): Promise<RecordedFrame[]> {
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer())
+  const gzipped = GZIP_MAGIC.every((byte, index) => head[index] === byte)
+  if (gzipped && typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot read gzipped recordings')
+  }
+  const text = gzipped
+    ? await new Response(file.stream().pipeThrough(new DecompressionStream('gzip'))).text()
+    : await file.text()
+
+  const trimmed = text.trim()
+  let values: unknown[]
+  try {
+    values = trimmed.startsWith('[')
+      ? JSON.parse(trimmed)
+      : trimmed
+          .split('\n')
+          .filter((line) => line.trim())
+          .map((line) => JSON.parse(line))
+  } catch {
+    throw new Error('Recording is not valid JSON or NDJSON')
+  }
+
+  const frames = values.filter(isFrame).sort((a, b) => frameTime(a) - frameTime(b))
+  if (!frames.length) throw new Error('Recording contains no container snapshots')
+  return frames
+}
+
+// Index of the last frame at or before `time`.
+export function frameIndexAt(frames: RecordedFrame[], time: number) {
+  let low = 0
+  let high = frames.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (frameTime(frames[mid]) <= time) low = mid
+    else high = mid - 1
+  }
+  return low
+}
+
+// Sparkline points for one container from the frames leading up to `index`.
+export function replayPoints(frames: RecordedFrame[], index: number, containerId: string, limit: number) {
+  const points: HistoryPoint[] = []
+  for (let i = index; i >= 0 && points.length < limit; i -= 1) {
+    const container = frames[i].containers.find((item) => item.id === containerId)
+    if (!container) continue
+    points.push({
+      t: frameTime(frames[i]),
+      cpu: container.cpu,
+      mem: container.memory.percent,
+      memUsage: container.memoryBytes?.usage ?? 0,
+      netRx: container.netRate?.rx ?? 0,
+      netTx: container.netRate?.tx ?? 0,
+      blockRead: container.blockRate?.read ?? 0,
+      blockWrite: container.blockRate?.write ?? 0,
+    })
+  }
+  return points.reverse()
+}
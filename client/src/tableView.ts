@@ -0,0 +1,126 @@
+import type { ContainerInfo } from './types'
+
+export type ColumnKey = 'name' | 'host' | 'ports' | 'networks' | 'cpu' | 'mem' | 'net' | 'io' | 'pids' | 'uptime'
+
+export type TableView = {
+  sortBy: ColumnKey
+  descending: boolean
+  hidden: ColumnKey[]
+  filter: string
+}
+
+type ColumnDef = {
+  key: ColumnKey
+  label: string
+  hideable: boolean
+  numeric: boolean
+  value: (container: ContainerInfo) => number | string
+}
+
+const startedAt = (container: ContainerInfo) => {
+  const time = container.startedAt ? Date.parse(container.startedAt) : NaN
+  return Number.isFinite(time) ? time : Number.POSITIVE_INFINITY
+}
+
+export const COLUMNS: ColumnDef[] = [
+  { key: 'name', label: 'NAME', hideable: false, numeric: false, value: (c) => c.name },
+  { key: 'host', label: 'HOST', hideable: true, numeric: false, value: (c) => c.host },
+  { key: 'ports', label: 'PORTS', hideable: true, numeric: false, value: (c) => c.ports },
+  { key: 'networks', label: 'NETWORKS', hideable: true, numeric: false, value: (c) => c.networks },
+  { key: 'cpu', label: 'CPU', hideable: true, numeric: true, value: (c) => c.cpu },
+  { key: 'mem', label: 'MEM', hideable: true, numeric: true, value: (c) => c.memoryBytes?.usage ?? 0 },
+  {
+    key: 'net',
+    label: 'NET RX/TX',
+    hideable: true,
+    numeric: true,
+    value: (c) => (c.netRate?.rx ?? 0) + (c.netRate?.tx ?? 0),
+  },
+  {
+    key: 'io',
+    label: 'IO R/W',
+    hideable: true,
+    numeric: true,
+    value: (c) => (c.blockRate?.read ?? 0) + (c.blockRate?.write ?? 0),
+  },
+  { key: 'pids', label: 'PIDS', hideable: true, numeric: true, value: (c) => c.pids },
+  // Older containers have been up longer, so uptime sorts by start time reversed.
+  { key: 'uptime', label: 'UPTIME', hideable: true, numeric: true, value: (c) => -startedAt(c) },
+]
+
+const COLUMN_KEYS = COLUMNS.map((column) => column.key)
+
+const isColumnKey = (value: string | null): value is ColumnKey => value !== null && COLUMN_KEYS.includes(value as ColumnKey)
+
+export const DEFAULT_VIEW: TableView = { sortBy: 'name', descending: false, hidden: [], filter: '' }
+
+const STORAGE_KEY = 'ctopweb.tableView'
+
+export const defaultDescending = (key: ColumnKey) => COLUMNS.find((column) => column.key === key)?.numeric ?? false
+
+// Sorts by the chosen column and falls back to name and id, so rows keep their
+// position between refreshes when the sort values tie.
+export function sortContainers(list: ContainerInfo[], sortBy: ColumnKey, descending: boolean) {
+  const column = COLUMNS.find((item) => item.key === sortBy) ?? COLUMNS[0]
+  const direction = descending ? -1 : 1
+  return [...list].sort((a, b) => {
+    const left = column.value(a)
+    const right = column.value(b)
+    const primary =
+      typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left).localeCompare(String(right), undefined, { numeric: true })
+    if (primary !== 0 && Number.isFinite(primary)) return primary * direction
+    return a.name.localeCompare(b.name) || a.id.localeCompare(b.id)
+  })
+}
+
+const parseView = (params: URLSearchParams, fallback: TableView): TableView => {
+  const sort = params.get('sort')
+  const dir = params.get('dir')
+  const hide = params.get('hide')
+  return {
+    sortBy: isColumnKey(sort) ? sort : fallback.sortBy,
+    descending: dir === 'desc' ? true : dir === 'asc' ? false : fallback.descending,
+    hidden: hide !== null ? hide.split(',').filter(isColumnKey) : fallback.hidden,
+    filter: params.get('q') ?? fallback.filter,
+  }
+}
+
+// URL parameters win over the last view saved in localStorage so shared links
+// reproduce the same table.
+export function loadTableView(): TableView {
+  let stored = DEFAULT_VIEW
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (raw) stored = parseView(new URLSearchParams(raw), DEFAULT_VIEW)
+  } catch {
+    // storage can be unavailable in private browsing
+  }
+  return parseView(new URLSearchParams(window.location.search), stored)
+}
+
+export function saveTableView(view: TableView) {
+  const params = new URLSearchParams(window.location.search)
+  params.set('sort', view.sortBy)
+  params.set('dir', view.descending ? 'desc' : 'asc')
+  if (view.hidden.length) params.set('hide', view.hidden.join(','))
+  else params.delete('hide')
+  if (view.filter) params.set('q', view.filter)
+  else params.delete('q')
+
+  const stored = new URLSearchParams()
+  ;['sort', 'dir', 'hide', 'q'].forEach((key) => {
+    const value = params.get(key)
+    if (value !== null) stored.set(key, value)
+  })
+  try {
+    window.localStorage.setItem(STORAGE_KEY, stored.toString())
+  } catch {
+    // ignore quota and privacy errors
+  }
+
+  const query = params.toString()
+  const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`
+  window.history.replaceState(window.history.state, '', url)
+}
@@ -16,6 +16,14 @@ export interface IOBytes {
   tx: number;
 }
 
+export interface MemoryBytes {
+  usage: number;
+  limit: number;
+  rss: number;
+  cache: number;
+  swap: number | null;
+}
+
 export interface BlockIOBytes {
   read: number;
   write: number;
@@ -24,29 +32,91 @@ export interface BlockIOBytes {
 export interface EnvVar {
   key: string;
   value: string;
+  redacted?: boolean;
 }
 
 export interface ContainerInfo {
   id: string;
+  host: string;
   name: string;
+  image: string;
   state: string;
+  health: string | null;
   ports: string;
   networks: string;
   cpu: number;
   memory: ContainerMetrics;
+  memoryBytes: MemoryBytes;
   netIO: Required<Pick<IOStats, 'rx' | 'tx'>>;
   netIOBytes: IOBytes;
   blockIO: Required<Pick<IOStats, 'read' | 'write'>>;
   blockIOBytes: BlockIOBytes;
+  netRate: IOBytes;
+  blockRate: BlockIOBytes;
+  cpuPerCore: number[];
   pids: number;
   uptime: string;
+  startedAt: string | null;
+  restartCount: number;
+  exitCode: number | null;
+  labels: Record<string, string>;
+  collectionError?: string | null;
   raw: {
     shortId: string;
   };
 }
 
+export interface HealthProbe {
+  start: string | null;
+  end: string | null;
+  exitCode: number;
+  output: string;
+}
+
+export interface HealthCheck {
+  status: string;
+  failingStreak: number;
+  probes: HealthProbe[];
+  config: {
+    test: { type: string; args: string[] } | null;
+    intervalMs: number | null;
+    timeoutMs: number | null;
+    startPeriodMs: number | null;
+    startIntervalMs: number | null;
+    retries: number | null;
+  } | null;
+}
+
+export interface ContainerResources {
+  memory: number;
+  memorySwap: number;
+  memoryReservation: number;
+  nanoCpus: number;
+  cpuQuota: number;
+  cpuPeriod: number;
+  cpuShares: number;
+  cpusetCpus: string;
+  cpusetMems: string;
+  pidsLimit: number;
+  restartPolicy: {
+    name: string;
+    maximumRetryCount: number;
+  };
+}
+
+export type ResourceUpdate = Partial<ContainerResources>
+
+export interface ResourceUpdateResult {
+  id: string;
+  host: string;
+  before: ContainerResources;
+  after: ContainerResources;
+  warnings: string[];
+}
+
 export interface ContainerDetail {
   id: string;
+  host: string;
   name: string;
   image: string;
   state: string;
@@ -55,6 +125,8 @@ export interface ContainerDetail {
   startedAt: string | null;
   finishedAt: string | null;
   health: string;
+  healthCheck: HealthCheck | null;
+  resources: ContainerResources;
   restartCount: number;
   pid: number;
   ports: string;
@@ -66,9 +138,411 @@ export interface ContainerDetail {
   user: string;
   env: EnvVar[];
   labels: Record<string, string>;
+  revealEnabled: boolean;
+}
+
+export interface HostStatus {
+  name: string;
+  ok: boolean | null;
+  error: string | null;
+  latencyMs: number | null;
+  checkedAt: string | null;
 }
 
 export interface ContainerResponse {
   containers: ContainerInfo[];
+  hosts?: HostStatus[];
+  fetchedAt: string;
+  collectedAt?: string;
+  stale?: boolean;
+}
+
+export interface ContainerDelta {
+  added: ContainerInfo[];
+  removed: string[];
+  changed: ContainerInfo[];
+  hosts?: HostStatus[];
+  fetchedAt: string;
+}
+
+export interface HistoryPoint {
+  t: number;
+  cpu: number;
+  mem: number;
+  memUsage: number;
+  netRx: number;
+  netTx: number;
+  blockRead: number;
+  blockWrite: number;
+}
+
+export interface ContainerHistory {
+  id: string;
+  from: string;
+  to: string;
+  step: number;
+  points: HistoryPoint[];
+}
+
+export type ContainerAction = 'start' | 'stop' | 'restart' | 'pause' | 'unpause' | 'kill' | 'remove'
+
+export interface ContainerActionOptions {
+  timeout?: number;
+  signal?: string;
+  force?: boolean;
+  volumes?: boolean;
+}
+
+export interface ContainerActionResult {
+  id: string;
+  action: ContainerAction;
+  ok: boolean;
+}
+
+export interface ApiError {
+  message: string;
+  error?: string;
+  statusCode?: number | null;
+}
+
+export interface LogLine {
+  stream: 'stdout' | 'stderr';
+  timestamp: string | null;
+  text: string;
+}
+
+export interface LogQuery {
+  tail?: number | 'all';
+  since?: number;
+  until?: number;
+  timestamps?: boolean;
+}
+
+export interface ContainerLogs {
+  id: string;
+  lines: LogLine[];
+}
+
+export interface ProcessInfo {
+  pid: number | null;
+  ppid: number | null;
+  user: string;
+  cpu: number | null;
+  memory: number | null;
+  rss: number | null;
+  time: string;
+  command: string;
+}
+
+export interface ContainerProcesses {
+  id: string;
+  psArgs: string;
+  titles: string[];
+  processes: ProcessInfo[];
+  fetchedAt: string;
+}
+
+export type FileType = 'file' | 'directory' | 'symlink' | 'link' | 'other'
+
+export interface FileStat {
+  path: string;
+  name: string;
+  type: FileType;
+  size: number;
+  mode: string;
+  mtime: string | null;
+  linkTarget: string | null;
+  linkedFrom?: string;
+}
+
+export interface FileEntry extends Omit<FileStat, 'linkedFrom'> {
+  path: string;
+}
+
+export interface ContainerPath {
+  id: string;
+  host: string;
+  path: string;
+  stat: FileStat;
+  entries: FileEntry[] | null;
+  truncated: boolean;
+}
+
+export interface FilePreview {
+  path: string;
+  size: number;
+  truncated: boolean;
+  binary: boolean;
+  content: string | null;
+}
+
+export interface FileUploadResult {
+  id: string;
+  host: string;
+  path: string;
+  name: string | null;
+  size: number;
+}
+
+export type FileChangeKind = 'added' | 'changed' | 'deleted'
+
+export interface FileChange {
+  path: string;
+  kind: FileChangeKind;
+}
+
+export interface ContainerChanges {
+  id: string;
+  host: string;
+  changes: FileChange[];
+  fetchedAt: string;
+}
+
+export type UserRole = 'viewer' | 'operator'
+
+export interface AuthUser {
+  username: string;
+  role: UserRole;
+}
+
+export interface AuthSession {
+  authRequired: boolean;
+  user: AuthUser | null;
+  methods: {
+    password: boolean;
+    token: boolean;
+    proxy: boolean;
+  };
+}
+
+export interface LoginCredentials {
+  username?: string;
+  password?: string;
+  token?: string;
+}
+
+export interface SecretReference {
+  source: 'env' | 'label';
+  key: string;
+}
+
+export interface RevealedSecret extends SecretReference {
+  value: string;
+}
+
+export interface DockerEvent {
+  id: number;
+  time: string;
+  host: string;
+  type: string;
+  action: string;
+  detail: string | null;
+  containerId: string | null;
+  containerName: string | null;
+  image: string | null;
+  exitCode: number | null;
+  signal: string | null;
+}
+
+export interface EventQuery {
+  container?: string;
+  type?: string;
+  action?: string;
+  since?: number;
+  limit?: number;
+}
+
+export type AlertMetric = 'cpu' | 'memory' | 'restarts' | 'health' | 'exit'
+
+export interface AlertEvent {
+  id: string;
+  rule: string;
+  metric: AlertMetric;
+  severity: string;
+  status: 'firing' | 'resolved';
+  value: number | string;
+  message: string;
+  container: {
+    id: string;
+    name: string;
+    host: string;
+  };
+  startedAt: string;
+  resolvedAt: string | null;
+}
+
+export interface AlertRule {
+  name: string;
+  metric: AlertMetric;
+  threshold: number;
+  forMinutes: number;
+  severity: string;
+  scope: string;
+}
+
+export interface AlertSummary {
+  enabled: boolean;
+  active: AlertEvent[];
+  recent: AlertEvent[];
+  rules: AlertRule[];
+  notifiers: string[];
+}
+
+export type InventoryKind = 'images' | 'volumes' | 'networks'
+
+export interface ContainerRef {
+  id: string;
+  name: string;
+  state: string;
+}
+
+export interface InventoryImage {
+  id: string;
+  host: string;
+  tags: string[];
+  digests: string[];
+  size: number | null;
+  sharedSize: number | null;
+  uniqueSize: number | null;
+  created: string | null;
+  containers: ContainerRef[];
+  dangling: boolean;
+  unused: boolean;
+}
+
+export interface InventoryVolume {
+  name: string;
+  host: string;
+  driver: string;
+  scope: string;
+  mountpoint: string;
+  labels: Record<string, string>;
+  size: number | null;
+  created: string | null;
+  containers: ContainerRef[];
+  anonymous: boolean;
+  unused: boolean;
+}
+
+export interface InventoryNetwork {
+  id: string;
+  host: string;
+  name: string;
+  driver: string;
+  scope: string;
+  internal: boolean;
+  subnets: string[];
+  created: string | null;
+  containers: ContainerRef[];
+  builtin: boolean;
+  unused: boolean;
+}
+
+export interface InventoryItems {
+  images: InventoryImage;
+  volumes: InventoryVolume;
+  networks: InventoryNetwork;
+}
+
+export interface HostFailure {
+  host: string;
+  error: string;
+}
+
+export type InventoryResponse<K extends InventoryKind> = {
+  [key in K]: InventoryItems[K][];
+} & {
+  failures: HostFailure[];
+  hosts: HostStatus[];
+  fetchedAt: string;
+}
+
+export interface DiskUsageEntry {
+  total: number;
+  active: number;
+  size: number;
+  reclaimable: number;
+}
+
+export interface DiskUsageSummary {
+  images: DiskUsageEntry;
+  containers: DiskUsageEntry;
+  volumes: DiskUsageEntry;
+  buildCache: DiskUsageEntry;
+}
+
+export interface DiskUsage {
+  hosts: (DiskUsageSummary & { host: string })[];
+  totals: DiskUsageSummary;
+  failures: HostFailure[];
   fetchedAt: string;
 }
+
+export interface EngineInfo {
+  name: string | null;
+  version: string | null;
+  apiVersion: string | null;
+  os: string | null;
+  osType: string | null;
+  kernel: string | null;
+  architecture: string | null;
+  cgroupDriver: string | null;
+  cgroupVersion: string | null;
+  storageDriver: string | null;
+  cpus: number;
+  memoryBytes: number;
+}
+
+export interface FleetTotals {
+  containers: number;
+  running: number;
+  paused: number;
+  restarting: number;
+  stopped: number;
+  unhealthy: number;
+  cpuPercent: number;
+  cpuCapacity: number;
+  cpuShare: number | null;
+  memoryUsed: number;
+  memoryTotal: number;
+  memoryShare: number | null;
+  netRate: { rx: number; tx: number };
+  blockRate: { read: number; write: number };
+}
+
+export interface HostOverviewEntry {
+  host: string;
+  engine: EngineInfo | null;
+  disk: (DiskUsageSummary & { host: string }) | null;
+  fleet: FleetTotals;
+  error: string | null;
+}
+
+export interface HostOverview {
+  hosts: HostOverviewEntry[];
+  totals: { cpus: number; memoryBytes: number; fleet: FleetTotals };
+  collectedAt: string | null;
+  fetchedAt: string;
+}
+
+export interface PruneOptions {
+  host?: string;
+  all?: boolean;
+  dryRun?: boolean;
+  keys?: string[];
+}
+
+export interface PruneEntry<K extends InventoryKind> {
+  key: string;
+  item: InventoryItems[K];
+  error?: string;
+}
+
+export interface PruneResult<K extends InventoryKind> {
+  kind: K;
+  dryRun: boolean;
+  items: PruneEntry<K>[];
+  failed?: PruneEntry<K>[];
+  reclaimableBytes?: number;
+  reclaimedBytes?: number;
+}
@@ -0,0 +1,181 @@
+const fs = require('fs');
+const { compileQuery } = require('./query');
+const { createNotifier } = require('./notifiers');
+
+const MINUTE = 60 * 1000;
+const RECENT_LIMIT = 200;
+
+// Each check returns the observed value when the rule is breached, or null.
+// `memo` is per rule and container so event-style rules can remember the last sample.
+const CHECKS = {
+  cpu: (rule, container) => (container.cpu > rule.threshold ? container.cpu : null),
+  memory: (rule, container) => (container.memory.percent > rule.threshold ? container.memory.percent : null),
+  restarts: (rule, container, memo, now) => {
+    if (memo.restartCount !== undefined && container.restartCount > memo.restartCount) memo.increasedAt = now;
+    memo.restartCount = container.restartCount;
+    return memo.increasedAt && now - memo.increasedAt < rule.windowMs ? container.restartCount : null;
+  },
+  health: (rule, container) => (container.health === 'unhealthy' ? container.health : null),
+  exit: (rule, container) => (
+    container.state === 'stopped' && container.exitCode !== null && container.exitCode !== undefined && container.exitCode !== 0
+      ? container.exitCode
+      : null
+  )
+};
+
+const describe = (rule, value) => {
+  switch (rule.metric) {
+    case 'cpu': return `CPU ${value.toFixed(1)}% above ${rule.threshold}%${rule.forMs ? ` for ${rule.forMs / MINUTE}m` : ''}`;
+    case 'memory': return `Memory ${value.toFixed(1)}% above ${rule.threshold}%${rule.forMs ? ` for ${rule.forMs / MINUTE}m` : ''}`;
+    case 'restarts': return `Restart count increased to ${value}`;
+    case 'health': return 'Health check reports unhealthy';
+    default: return `Exited with code ${value}`;
+  }
+};
+
+const normalizeRule = (rule, index) => {
+  if (!CHECKS[rule.metric]) throw new Error(`Alert rule ${rule.name || index + 1}: unknown metric "${rule.metric}"`);
+  if ((rule.metric === 'cpu' || rule.metric === 'memory') && !Number.isFinite(Number(rule.threshold))) {
+    throw new Error(`Alert rule ${rule.name || index + 1}: ${rule.metric} needs a numeric threshold`);
+  }
+  let scope = () => true;
+  try {
+    scope = compileQuery(rule.scope);
+  } catch (err) {
+    throw new Error(`Alert rule ${rule.name || index + 1}: invalid scope "${rule.scope}": ${err.message}`);
+  }
+  return {
+    name: rule.name || `${rule.metric}-${index + 1}`,
+    metric: rule.metric,
+    threshold: Number(rule.threshold) || 0,
+    forMs: (Number(rule.forMinutes) || 0) * MINUTE,
+    windowMs: (Number(rule.windowMinutes) || 10) * MINUTE,
+    cooldownMs: rule.cooldownMinutes !== undefined ? Number(rule.cooldownMinutes) * MINUTE : null,
+    severity: rule.severity || 'warning',
+    scope: rule.scope || '',
+    matches: scope,
+    notify: rule.notify || null
+  };
+};
+
+// Reads ALERT_RULES_FILE: { "rules": [...], "notifiers": [...], "cooldownMinutes": 15 }.
+const loadAlertConfig = (file) => {
+  if (!file) return { rules: [], notifiers: [] };
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+};
+
+const createAlertEngine = ({ rules = [], notifiers = [], cooldownMinutes = 15 } = {}) => {
+  const compiled = rules.map(normalizeRule);
+  const channels = notifiers.map(createNotifier);
+  const defaultCooldownMs = Number(cooldownMinutes) * MINUTE;
+  const states = new Map();
+  const lastNotified = new Map();
+  const recent = [];
+
+  const record = (event) => {
+    recent.unshift(event);
+    recent.length = Math.min(recent.length, RECENT_LIMIT);
+  };
+
+  const dispatch = (rule, event) => {
+    const targets = rule.notify ? channels.filter((channel) => rule.notify.includes(channel.name)) : channels;
+    targets.forEach((channel) => channel.notify(event));
+  };
+
+  const publicEvent = (rule, state, container, status, now) => ({
+    id: `${rule.name}:${container.id}:${state.startedAt}`,
+    rule: rule.name,
+    metric: rule.metric,
+    severity: rule.severity,
+    status,
+    value: state.value,
+    message: describe(rule, state.value),
+    container: { id: container.id, name: container.name, host: container.host },
+    startedAt: new Date(state.startedAt).toISOString(),
+    resolvedAt: status === 'resolved' ? new Date(now).toISOString() : null
+  });
+
+  const fire = (rule, state, container, now) => {
+    state.firing = true;
+    state.startedAt = now;
+    const key = `${rule.name}:${container.id}`;
+    const cooldownMs = rule.cooldownMs !== null ? rule.cooldownMs : defaultCooldownMs;
+    // Dedup: one notification per firing, and none while the key is cooling down.
+    state.notified = !lastNotified.has(key) || now - lastNotified.get(key) >= cooldownMs;
+    const event = publicEvent(rule, state, container, 'firing', now);
+    record(event);
+    if (state.notified) {
+      lastNotified.set(key, now);
+      dispatch(rule, event);
+    }
+  };
+
+  const resolve = (rule, state, container, now) => {
+    const event = publicEvent(rule, state, container, 'resolved', now);
+    record(event);
+    if (state.notified) dispatch(rule, event);
+    state.firing = false;
+    state.notified = false;
+  };
+
+  // Called with every stats sample (the full container payload list).
+  // `unreachableHosts` names hosts that could not be listed this round; their
+  // containers are missing from the sample, so their alert state is kept as is.
+  const evaluate = (containers, { now = Date.now(), unreachableHosts = [] } = {}) => {
+    const held = new Set(unreachableHosts);
+    const seen = new Set();
+    compiled.forEach((rule) => {
+      containers.forEach((container) => {
+        if (!rule.matches(container)) return;
+        const key = `${rule.name}:${container.id}`;
+        seen.add(key);
+        const state = states.get(key) || { rule, memo: {}, pendingSince: null, firing: false, container };
+        states.set(key, state);
+        state.container = container;
+
+        const value = CHECKS[rule.metric](rule, container, state.memo, now);
+        if (value === null) {
+          state.pendingSince = null;
+          if (state.firing) resolve(rule, state, container, now);
+          return;
+        }
+        state.value = value;
+        if (state.pendingSince === null) state.pendingSince = now;
+        if (!state.firing && now - state.pendingSince >= rule.forMs) fire(rule, state, container, now);
+      });
+    });
+
+    // Containers that went away (or left the rule scope) resolve their alerts.
+    states.forEach((state, key) => {
+      if (seen.has(key) || held.has(state.container.host)) return;
+      if (state.firing) resolve(state.rule, state, state.container, now);
+      states.delete(key);
+    });
+  };
+
+  const active = () => {
+    const list = [];
+    states.forEach((state) => {
+      if (state.firing) list.push(publicEvent(state.rule, state, state.container, 'firing', Date.now()));
+    });
+    return list;
+  };
+
+  const summary = () => ({
+    active: active(),
+    recent: recent.slice(),
+    rules: compiled.map(({ name, metric, threshold, forMs, severity, scope }) => ({
+      name,
+      metric,
+      threshold,
+      forMinutes: forMs / MINUTE,
+      severity,
+      scope
+    })),
+    notifiers: channels.map((channel) => channel.name)
+  });
+
+  return { evaluate, active, summary, enabled: compiled.length > 0 };
+};
+
+module.exports = { createAlertEngine, loadAlertConfig };
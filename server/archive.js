@@ -0,0 +1,345 @@
+const path = require('path').posix;
+
+// Docker's archive API speaks tar: GET returns a tarball of the path, PUT extracts
+// one into a directory, and HEAD reports a base64 JSON stat in this header.
+const STAT_HEADER = 'x-docker-container-path-stat';
+const BLOCK_SIZE = 512;
+const TEXT_SNIFF_BYTES = 8192;
+
+// Go's os.FileMode type bits, as reported in the stat header.
+const GO_MODE_DIR = 2 ** 31;
+const GO_MODE_SYMLINK = 2 ** 27;
+
+const TAR_TYPES = { 0: 'file', '': 'file', 1: 'link', 2: 'symlink', 5: 'directory' };
+
+const fileType = (goMode) => {
+  if (Math.floor(goMode / GO_MODE_DIR) % 2) return 'directory';
+  if (Math.floor(goMode / GO_MODE_SYMLINK) % 2) return 'symlink';
+  return goMode >= 2 ** 24 ? 'other' : 'file';
+};
+
+const octalMode = (mode) => (mode % 0o1000).toString(8).padStart(4, '0');
+
+// Accepts absolute paths only and collapses "..", so callers cannot escape "/".
+const normalizePath = (value) => {
+  const raw = value === undefined || value === '' ? '/' : String(value);
+  if (!raw.startsWith('/') || raw.includes('\0')) return null;
+  return path.normalize(raw).replace(/(.)\/+$/, '$1');
+};
+
+const statPath = async (container, target) => {
+  const response = await container.infoArchive({ path: target });
+  response.resume();
+  const header = response.headers && response.headers[STAT_HEADER];
+  if (!header) throw Object.assign(new Error(`No stat returned for ${target}`), { statusCode: 404 });
+  const stat = JSON.parse(Buffer.from(header, 'base64').toString('utf8'));
+  return {
+    path: target,
+    name: stat.name,
+    type: fileType(stat.mode),
+    size: stat.size,
+    mode: octalMode(stat.mode),
+    mtime: stat.mtime || null,
+    linkTarget: stat.linkTarget || null
+  };
+};
+
+// Stats `target`, following a symlink once so links to files and directories can be opened.
+const resolvePath = async (container, target) => {
+  const stat = await statPath(container, target);
+  if (stat.type !== 'symlink' || !stat.linkTarget) return stat;
+  const resolved = await statPath(container, path.resolve(path.dirname(target), stat.linkTarget));
+  return { ...resolved, linkedFrom: target };
+};
+
+const readString = (block, start, length) => {
+  const end = block.indexOf(0, start);
+  return block.toString('utf8', start, end === -1 || end > start + length ? start + length : end);
+};
+
+// Sizes above 8GiB use GNU base-256 encoding, flagged by the high bit.
+const readNumber = (block, start, length) => {
+  if (block[start] & 0x80) {
+    let value = block[start] & 0x7f;
+    for (let i = start + 1; i < start + length; i += 1) value = value * 256 + block[i];
+    return value;
+  }
+  return parseInt(readString(block, start, length).trim() || '0', 8);
+};
+
+const parsePax = (data) => {
+  const records = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = Number(data.toString('utf8', offset, space));
+    if (space === -1 || !length) break;
+    const record = data.toString('utf8', space + 1, offset + length - 1);
+    const equals = record.indexOf('=');
+    if (equals !== -1) records[record.slice(0, equals)] = record.slice(equals + 1);
+    offset += length;
+  }
+  return records;
+};
+
+// Push-based tar reader. `onEntry` sees each header and `onData` its body chunks;
+// either may return false to stop parsing.
+const createTarParser = ({ onEntry, onData = () => true }) => {
+  let buffer = Buffer.alloc(0);
+  let entry = null;
+  let remaining = 0;
+  let padding = 0;
+  let meta = null;
+  let overrides = {};
+  let stopped = false;
+
+  const finishEntry = () => {
+    if (meta) {
+      const data = Buffer.concat(meta.chunks);
+      if (meta.type === 'x') overrides = { ...overrides, ...parsePax(data) };
+      if (meta.type === 'L') overrides.path = readString(data, 0, data.length);
+      if (meta.type === 'K') overrides.linkpath = readString(data, 0, data.length);
+    }
+    entry = null;
+    meta = null;
+  };
+
+  const readHeader = (block) => {
+    const prefix = block.toString('utf8', 257, 262) === 'ustar' ? readString(block, 345, 155) : '';
+    const name = readString(block, 0, 100);
+    const typeflag = String.fromCharCode(block[156]).replace('\0', '');
+    const size = overrides.size !== undefined ? Number(overrides.size) : readNumber(block, 124, 12);
+    remaining = size;
+    padding = (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+
+    if (['x', 'g', 'L', 'K'].includes(typeflag)) {
+      entry = {};
+      meta = { type: typeflag, chunks: [] };
+      if (!size) finishEntry();
+      return;
+    }
+
+    entry = {
+      name: overrides.path || (prefix ? `${prefix}/${name}` : name),
+      type: TAR_TYPES[typeflag] || 'other',
+      size,
+      mode: octalMode(readNumber(block, 100, 8)),
+      mtime: new Date((overrides.mtime ? Number(overrides.mtime) : readNumber(block, 136, 12)) * 1000).toISOString(),
+      linkTarget: overrides.linkpath || readString(block, 157, 100) || null
+    };
+    overrides = {};
+    if (onEntry(entry) === false) stopped = true;
+    if (!size) finishEntry();
+  };
+
+  // Returns false once parsing has stopped, either by a handler or the end-of-archive marker.
+  const push = (chunk) => {
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+    while (!stopped) {
+      if (remaining > 0) {
+        if (!buffer.length) break;
+        const data = buffer.subarray(0, Math.min(remaining, buffer.length));
+        buffer = buffer.subarray(data.length);
+        remaining -= data.length;
+        if (meta) meta.chunks.push(data);
+        else if (onData(entry, data) === false) stopped = true;
+        if (!remaining) finishEntry();
+        continue;
+      }
+      if (padding > 0) {
+        const skip = Math.min(padding, buffer.length);
+        buffer = buffer.subarray(skip);
+        padding -= skip;
+        if (padding) break;
+        continue;
+      }
+      if (buffer.length < BLOCK_SIZE) break;
+      const block = buffer.subarray(0, BLOCK_SIZE);
+      buffer = buffer.subarray(BLOCK_SIZE);
+      if (block.every((byte) => byte === 0)) stopped = true;
+      else readHeader(block);
+    }
+    return !stopped;
+  };
+
+  return { push };
+};
+
+// Feeds a Docker archive stream to a tar parser, destroying the stream early when
+// the parser stops or more than `maxBytes` have been read.
+const readArchive = (stream, handlers, { maxBytes = Infinity } = {}) =>
+  new Promise((resolve, reject) => {
+    const parser = createTarParser(handlers);
+    let bytes = 0;
+    let done = false;
+    const finish = (truncated) => {
+      if (done) return;
+      done = true;
+      stream.destroy();
+      resolve({ truncated });
+    };
+    stream.on('data', (chunk) => {
+      bytes += chunk.length;
+      if (!parser.push(chunk)) finish(false);
+      else if (bytes > maxBytes) finish(true);
+    });
+    stream.on('end', () => finish(false));
+    stream.on('close', () => finish(false));
+    stream.on('error', (err) => {
+      if (!done) reject(err);
+      done = true;
+    });
+  });
+
+// Docker has no directory listing API, so the listing is the tar of the directory
+// with everything below the first level skipped.
+const listDirectory = async (container, target, { maxEntries = 2000, maxBytes = Infinity } = {}) => {
+  const stream = await container.getArchive({ path: target });
+  const entries = [];
+  let root = null;
+  let more = false;
+
+  const { truncated } = await readArchive(
+    stream,
+    {
+      onEntry: (entry) => {
+        const name = entry.name.replace(/^\.\//, '').replace(/\/$/, '');
+        if (root === null) {
+          root = name;
+          return true;
+        }
+        const relative = root ? name.slice(root.length + 1) : name;
+        if (!relative || relative.includes('/')) return true;
+        if (entries.length >= maxEntries) {
+          more = true;
+          return false;
+        }
+        entries.push({ ...entry, name: relative, path: path.join(target, relative) });
+        return true;
+      }
+    },
+    { maxBytes }
+  );
+
+  entries.sort((a, b) => (b.type === 'directory') - (a.type === 'directory') || a.name.localeCompare(b.name));
+  return { entries, truncated: truncated || more };
+};
+
+// Reads up to `limit` bytes of a regular file and reports whether it looks like text.
+const readFilePreview = async (container, target, limit) => {
+  const stream = await container.getArchive({ path: target });
+  const chunks = [];
+  let length = 0;
+  await readArchive(stream, {
+    onEntry: (entry) => entry.type === 'file',
+    onData: (entry, data) => {
+      chunks.push(data.subarray(0, limit - length));
+      length += Math.min(data.length, limit - length);
+      return length < limit;
+    }
+  });
+  const content = Buffer.concat(chunks);
+  const binary = content.subarray(0, TEXT_SNIFF_BYTES).includes(0);
+  return { binary, content: binary ? null : content.toString('utf8') };
+};
+
+// Streams the single file inside the archive of `target` to `out`, honouring backpressure.
+const pipeFile = async (container, target, out) => {
+  const stream = await container.getArchive({ path: target });
+  out.once('close', () => stream.destroy());
+  await readArchive(stream, {
+    onEntry: (entry) => entry.type === 'file',
+    onData: (entry, data) => {
+      if (!out.write(data)) {
+        stream.pause();
+        out.once('drain', () => stream.resume());
+      }
+      return true;
+    }
+  });
+};
+
+const writeOctal = (block, value, start, length) => {
+  block.write(value.toString(8).padStart(length - 1, '0'), start, length - 1, 'ascii');
+};
+
+const TYPE_FLAGS = { file: '0', symlink: '2', directory: '5', pax: 'x' };
+const USTAR_NAME_BYTES = 100;
+
+const tarHeader = ({ name, size, type, linkTarget = '', mode, mtime }) => {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  header.write(name, 0, USTAR_NAME_BYTES, 'utf8');
+  writeOctal(header, mode, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(mtime / 1000), 136, 12);
+  header.fill(' ', 148, 156);
+  header.write(TYPE_FLAGS[type] || '0', 156, 1, 'ascii');
+  header.write(linkTarget, 157, USTAR_NAME_BYTES, 'utf8');
+  header.write('ustar\0', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8, 'ascii');
+  return header;
+};
+
+// A PAX record is "<length> <key>=<value>\n", where the length counts its own digits.
+const paxRecord = (key, value) => {
+  const base = Buffer.byteLength(` ${key}=${value}\n`);
+  let length = base + String(base).length;
+  if (String(length).length > String(base).length) length = base + String(length).length;
+  return `${length} ${key}=${value}\n`;
+};
+
+const blockPadding = (size) => Buffer.alloc((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE);
+
+// Builds a minimal ustar archive from `{ name, content, type, linkTarget, mode, mtime }`
+// entries, e.g. to wrap an uploaded file for Docker's put archive API. Names and
+// link targets that do not fit ustar's 100 bytes go into a PAX extended header.
+const buildTar = (entries) => {
+  const blocks = entries.flatMap((entry) => {
+    const { content = Buffer.alloc(0), type = 'file', linkTarget = '', mode, mtime = Date.now() } = entry;
+    const directory = type === 'directory';
+    const name = directory && !entry.name.endsWith('/') ? `${entry.name}/` : entry.name;
+    const body = type === 'file' ? Buffer.from(content) : Buffer.alloc(0);
+    const link = type === 'symlink' ? linkTarget : '';
+    const records = [
+      Buffer.byteLength(name) > USTAR_NAME_BYTES ? paxRecord('path', name) : '',
+      Buffer.byteLength(link) > USTAR_NAME_BYTES ? paxRecord('linkpath', link) : ''
+    ].join('');
+    const pax = records ? Buffer.from(records, 'utf8') : null;
+    const header = tarHeader({
+      name,
+      size: body.length,
+      type,
+      linkTarget: link,
+      mode: mode !== undefined ? mode : directory ? 0o755 : 0o644,
+      mtime
+    });
+    const paxHeader = pax && tarHeader({ name: 'PaxHeader', size: pax.length, type: 'pax', mode: 0o644, mtime });
+    return [...(pax ? [paxHeader, pax, blockPadding(pax.length)] : []), header, body, blockPadding(body.length)];
+  });
+  return Buffer.concat([...blocks, Buffer.alloc(BLOCK_SIZE * 2)]);
+};
+
+// Docker's container diff reports kind 0/1/2 for changed/added/deleted paths.
+const CHANGE_KINDS = ['changed', 'added', 'deleted'];
+
+const formatChanges = (changes) =>
+  (changes || [])
+    .map((change) => ({ path: change.Path, kind: CHANGE_KINDS[change.Kind] || 'changed' }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+module.exports = {
+  GO_MODE_DIR,
+  GO_MODE_SYMLINK,
+  buildTar,
+  createTarParser,
+  formatChanges,
+  listDirectory,
+  normalizePath,
+  pipeFile,
+  readFilePreview,
+  resolvePath
+};
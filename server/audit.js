@@ -0,0 +1,19 @@
+const fs = require('fs');
+
+// Operator actions (secret reveals, uploads, prunes) are written as one JSON line
+// each: to stdout unless disabled, and appended to `file` when one is set.
+const createAuditLog = ({ file = null, stdout = true } = {}) => {
+  const record = (event, details) => {
+    const line = JSON.stringify({ at: new Date().toISOString(), event, ...details });
+    if (stdout) console.log(line);
+    if (file) {
+      fs.appendFile(file, `${line}\n`, (err) => {
+        if (err) console.error('Failed to write audit log', err);
+      });
+    }
+  };
+
+  return { record };
+};
+
+module.exports = { createAuditLog };
@@ -0,0 +1,236 @@
+const crypto = require('crypto');
+const fs = require('fs');
+
+const ROLES = ['viewer', 'operator'];
+const SESSION_COOKIE = 'ctop_session';
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+const hasRole = (user, role) => Boolean(user) && ROLES.indexOf(user.role) >= ROLES.indexOf(role);
+
+const normalizeRole = (role) => (ROLES.includes(role) ? role : 'viewer');
+
+const hashPassword = (password, salt = crypto.randomBytes(16).toString('hex')) => {
+  const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+};
+
+const verifyPassword = (password, stored) => {
+  const [scheme, salt, hash] = String(stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+const safeEqual = (a, b) => {
+  const left = crypto.createHash('sha256').update(String(a)).digest();
+  const right = crypto.createHash('sha256').update(String(b)).digest();
+  return crypto.timingSafeEqual(left, right);
+};
+
+// Cookies whose value is not valid percent-encoding are skipped rather than thrown on.
+const parseCookies = (header) => {
+  if (!header) return {};
+  const cookies = {};
+  header.split(';').forEach((part) => {
+    const idx = part.indexOf('=');
+    if (idx === -1) {
+      cookies[part.trim()] = '';
+      return;
+    }
+    try {
+      cookies[part.slice(0, idx).trim()] = decodeURIComponent(part.slice(idx + 1).trim());
+    } catch (err) {
+      // malformed cookie value
+    }
+  });
+  return cookies;
+};
+
+// Parses "token:role,token:role" into a token list. A token without a role is a viewer.
+const parseTokens = (value) => {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const idx = entry.lastIndexOf(':');
+      const token = idx === -1 ? entry : entry.slice(0, idx);
+      const role = idx === -1 ? 'viewer' : entry.slice(idx + 1);
+      return { token, user: { username: `token-${index + 1}`, role: normalizeRole(role) } };
+    });
+};
+
+const loadUsers = (file) => {
+  if (!file) return [];
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return (Array.isArray(data) ? data : data.users || []).map((user) => ({
+      username: user.username,
+      passwordHash: user.passwordHash,
+      role: normalizeRole(user.role)
+    }));
+  } catch (err) {
+    console.error('Failed to load auth users file', err);
+    return [];
+  }
+};
+
+const createAuth = ({
+  modes = [],
+  tokens = '',
+  usersFile = null,
+  sessionTtlMs = 12 * 60 * 60 * 1000,
+  secureCookies = false,
+  proxy = {}
+} = {}) => {
+  const enabled = modes.length > 0;
+  const tokenList = modes.includes('token') ? parseTokens(tokens) : [];
+  const users = modes.includes('local') ? loadUsers(usersFile) : [];
+  const sessions = new Map();
+  const proxyUserHeader = (proxy.userHeader || 'x-forwarded-user').toLowerCase();
+  const proxyGroupsHeader = (proxy.groupsHeader || 'x-forwarded-groups').toLowerCase();
+  const operatorGroups = proxy.operatorGroups || [];
+  const trustedProxies = proxy.trusted || [];
+  // Without a trusted list anyone could send the user and groups headers themselves.
+  if (modes.includes('proxy') && !trustedProxies.length) {
+    throw new Error('AUTH_MODE=proxy requires AUTH_PROXY_TRUSTED to list the proxy addresses');
+  }
+
+  const fromToken = (token) => {
+    const match = tokenList.find((entry) => safeEqual(entry.token, token));
+    return match ? match.user : null;
+  };
+
+  const fromSession = (id) => {
+    const session = id && sessions.get(id);
+    if (!session) return null;
+    if (session.expires < Date.now()) {
+      sessions.delete(id);
+      return null;
+    }
+    return session.user;
+  };
+
+  const fromProxy = (req) => {
+    const username = req.headers[proxyUserHeader];
+    if (!username) return null;
+    const remote = (req.socket && req.socket.remoteAddress) || '';
+    if (!trustedProxies.includes(remote.replace(/^::ffff:/, ''))) return null;
+    const groups = String(req.headers[proxyGroupsHeader] || '').split(',').map((group) => group.trim());
+    const role = groups.some((group) => operatorGroups.includes(group)) ? 'operator' : normalizeRole(proxy.defaultRole);
+    return { username: String(username), role };
+  };
+
+  // Resolves the user for a raw Node request so it also works for WebSocket upgrades.
+  const authenticateRequest = (req) => {
+    if (!enabled) return { username: 'anonymous', role: 'operator' };
+
+    const header = req.headers.authorization || '';
+    if (tokenList.length && header.startsWith('Bearer ')) {
+      const user = fromToken(header.slice(7).trim());
+      if (user) return user;
+    }
+    const sessionUser = fromSession(parseCookies(req.headers.cookie)[SESSION_COOKIE]);
+    if (sessionUser) return sessionUser;
+    if (modes.includes('proxy')) return fromProxy(req);
+    return null;
+  };
+
+  const createSession = (res, user) => {
+    // Sessions that are never looked up again would otherwise stay in the map forever.
+    const now = Date.now();
+    sessions.forEach((session, key) => {
+      if (session.expires < now) sessions.delete(key);
+    });
+    const id = crypto.randomBytes(32).toString('hex');
+    sessions.set(id, { user, expires: Date.now() + sessionTtlMs });
+    res.cookie(SESSION_COOKIE, id, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: secureCookies,
+      maxAge: sessionTtlMs,
+      path: '/'
+    });
+  };
+
+  const authenticate = (req, res, next) => {
+    req.user = authenticateRequest(req);
+    next();
+  };
+
+  // A cross-site form can POST with the session cookie attached but cannot set a JSON
+  // content type or a custom header without a CORS preflight, so writes need one of those.
+  const csrfGuard = (req, res, next) => {
+    if (SAFE_METHODS.includes(req.method) || req.is('application/json') || req.get('x-requested-with')) {
+      next();
+      return;
+    }
+    res.status(403).json({ message: 'Forbidden', error: 'Send JSON or an X-Requested-With header' });
+  };
+
+  const requireRole = (role) => (req, res, next) => {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required', error: 'Sign in to access this resource' });
+      return;
+    }
+    if (!hasRole(req.user, role)) {
+      res.status(403).json({ message: 'Forbidden', error: `This action requires the ${role} role` });
+      return;
+    }
+    next();
+  };
+
+  const methods = () => ({
+    password: users.length > 0,
+    token: tokenList.length > 0,
+    proxy: modes.includes('proxy')
+  });
+
+  const registerRoutes = (app) => {
+    app.get('/api/auth/me', (req, res) => {
+      res.json({ authRequired: enabled, user: req.user || null, methods: methods() });
+    });
+
+    app.post('/api/auth/login', (req, res) => {
+      const { username, password, token } = req.body || {};
+      let user = null;
+
+      if (token && tokenList.length) {
+        user = fromToken(token);
+      } else if (username && password && users.length) {
+        const match = users.find((entry) => entry.username === username);
+        if (match && verifyPassword(password, match.passwordHash)) {
+          user = { username: match.username, role: match.role };
+        }
+      }
+
+      if (!user) {
+        res.status(401).json({ message: 'Invalid credentials', error: 'Username, password or token not recognised' });
+        return;
+      }
+      createSession(res, user);
+      res.json({ authRequired: enabled, user, methods: methods() });
+    });
+
+    app.post('/api/auth/logout', (req, res) => {
+      sessions.delete(parseCookies(req.headers.cookie)[SESSION_COOKIE]);
+      res.clearCookie(SESSION_COOKIE, { path: '/' });
+      res.json({ ok: true });
+    });
+  };
+
+  return { enabled, authenticate, authenticateRequest, csrfGuard, requireRole, registerRoutes };
+};
+
+module.exports = { createAuth, hasRole, hashPassword, parseCookies, parseTokens, verifyPassword };
+
+if (require.main === module) {
+  const [command, password] = process.argv.slice(2);
+  if (command !== 'hash-password' || !password) {
+    console.error('Usage: node auth.js hash-password <password>');
+    process.exit(1);
+  }
+  console.log(hashPassword(password));
+}
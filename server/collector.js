@@ -0,0 +1,231 @@
+const { containerPayload, createRateTracker } = require('./metrics');
+const { errorMessage } = require('./util');
+
+const INSPECT_TTL_MS = 5 * 60 * 1000;
+// How long a pass waits for a newly opened stream to deliver a frame CPU can be read from.
+const FIRST_FRAME_TIMEOUT_MS = 3000;
+
+// Runs `fn` over `items` with at most `limit` calls in flight.
+const mapLimit = async (items, limit, fn) => {
+  const results = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+};
+
+// Docker's first streamed frame has empty precpu_stats, so CPU needs the second.
+const completeFrame = (stats) => Boolean(stats && stats.precpu_stats && stats.precpu_stats.system_cpu_usage);
+
+// Owns all stats sampling: one persistent Docker stats stream per running
+// container, read into one shared snapshot on a fixed schedule, so API requests,
+// live clients, history and alerts never fan out to dockerd themselves. Inspect
+// data is cached until a Docker event, a listed state change or INSPECT_TTL_MS
+// says it is stale.
+const createCollector = ({ hosts, events = null, decorate = (payload) => payload, intervalMs = 2000, concurrency = 8 }) => {
+  const tracked = new Map();
+  const rates = createRateTracker();
+  const listeners = new Set();
+  const unreachable = new Set();
+  let snapshot = null;
+  let running = null;
+  let timer = null;
+
+  if (events) {
+    events.subscribe({}, (event) => {
+      const entry = event.containerId && tracked.get(event.containerId);
+      if (entry) entry.inspectedAt = 0;
+    });
+  }
+
+  const closeStream = (entry) => {
+    if (entry.stream === 'pending') {
+      entry.stream = null;
+    } else if (entry.stream) {
+      entry.stream.removeAllListeners();
+      entry.stream.destroy();
+      entry.stream = null;
+    }
+    entry.stats = null;
+  };
+
+  // Resolves once the stream has produced a usable frame, failed, or timed out.
+  const openStream = (entry) => new Promise((resolve) => {
+    const timeout = setTimeout(resolve, FIRST_FRAME_TIMEOUT_MS);
+    const done = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+    entry.stream = 'pending';
+    entry.host.docker.getContainer(entry.info.Id).stats({ stream: true }).then((stream) => {
+      if (entry.stream !== 'pending') {
+        stream.destroy();
+        done();
+        return;
+      }
+      let buffer = '';
+      entry.stream = stream;
+      entry.streamError = null;
+      stream.on('data', (chunk) => {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop();
+        lines.forEach((line) => {
+          if (!line.trim()) return;
+          try {
+            entry.stats = JSON.parse(line);
+          } catch (err) {
+            // skip partial or malformed frames
+          }
+        });
+        if (completeFrame(entry.stats)) done();
+      });
+      const reset = (err) => {
+        if (entry.stream === stream) entry.stream = null;
+        if (err) entry.streamError = `stats: ${errorMessage(err)}`;
+        done();
+      };
+      stream.on('end', () => reset());
+      stream.on('error', reset);
+    }, (err) => {
+      entry.stream = null;
+      entry.streamError = `stats: ${errorMessage(err)}`;
+      done();
+    });
+  });
+
+  const inspect = async (entry) => {
+    try {
+      entry.inspect = await entry.host.docker.getContainer(entry.info.Id).inspect();
+      entry.inspectedAt = Date.now();
+      entry.inspectError = null;
+    } catch (err) {
+      // keep the previous inspect data so the container still renders
+      entry.inspectError = `inspect: ${errorMessage(err)}`;
+    }
+  };
+
+  // Logs a host only when it goes down or comes back, not on every pass.
+  const noteHostState = (listings, failures) => {
+    failures.forEach(({ host, error }) => {
+      if (unreachable.has(host.name)) return;
+      unreachable.add(host.name);
+      console.error(`Failed to list containers on host ${host.name}`, error.message);
+    });
+    listings.forEach(({ host }) => {
+      if (unreachable.delete(host.name)) console.log(`Host ${host.name} is reachable again`);
+    });
+  };
+
+  const collect = async () => {
+    const startedAt = Date.now();
+    const { listings, failures } = await hosts.listAll({ all: true });
+    noteHostState(listings, failures);
+
+    const listed = listings.flatMap(({ host, containers }) => containers.map((info) => ({ host, info })));
+    const stale = [];
+    const opened = [];
+    listed.forEach(({ host, info }) => {
+      let entry = tracked.get(info.Id);
+      if (!entry) {
+        entry = {
+          host,
+          info,
+          inspect: null,
+          inspectedAt: 0,
+          inspectError: null,
+          stats: null,
+          stream: null,
+          streamError: null
+        };
+        tracked.set(info.Id, entry);
+      }
+      if (entry.info.State !== info.State || Date.now() - entry.inspectedAt >= INSPECT_TTL_MS) stale.push(entry);
+      entry.host = host;
+      entry.info = info;
+      // Stopped containers have no stats worth streaming.
+      if (info.State === 'running') {
+        if (!entry.stream) opened.push(openStream(entry));
+      } else {
+        closeStream(entry);
+        entry.streamError = null;
+      }
+    });
+
+    const ids = new Set(listed.map(({ info }) => info.Id));
+    tracked.forEach((entry, id) => {
+      if (!ids.has(id)) {
+        closeStream(entry);
+        tracked.delete(id);
+      }
+    });
+    rates.forget(ids);
+    await Promise.all([mapLimit(stale, concurrency, inspect), ...opened]);
+
+    const samples = listed.map(({ info }) => {
+      const entry = tracked.get(info.Id);
+      const errors = [entry.inspectError, entry.streamError].filter(Boolean);
+      const error = errors.length ? errors.join('; ') : null;
+      return { host: entry.host, info, inspect: entry.inspect, stats: entry.stats, error };
+    });
+    snapshot = {
+      samples,
+      containers: samples.map(({ host, info, inspect: inspectInfo, stats, error }) => ({
+        ...decorate(containerPayload(info, inspectInfo, stats, host.name, rates)),
+        collectionError: error
+      })),
+      hosts: hosts.status(),
+      error: !listings.length && failures.length ? failures[0].error : null,
+      collectedAt: new Date().toISOString(),
+      durationMs: Date.now() - startedAt
+    };
+    listeners.forEach((listener) => listener(snapshot));
+    return snapshot;
+  };
+
+  // Concurrent callers share the refresh that is already in flight.
+  const refresh = () => {
+    if (!running) {
+      running = collect()
+        .catch((err) => {
+          console.error('Container collection failed', err);
+          return snapshot;
+        })
+        .finally(() => {
+          running = null;
+        });
+    }
+    return running;
+  };
+
+  // Resolves the latest snapshot, waiting for the first collection if needed.
+  const latest = async () => snapshot || refresh();
+
+  // Calls `listener` with every new snapshot; returns the unsubscribe function.
+  const onSnapshot = (listener) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  };
+
+  const start = () => {
+    refresh();
+    timer = setInterval(refresh, intervalMs);
+  };
+
+  const stop = () => {
+    clearInterval(timer);
+    timer = null;
+    tracked.forEach(closeStream);
+    tracked.clear();
+  };
+
+  return { start, stop, refresh, latest, onSnapshot, intervalMs };
+};
+
+module.exports = { createCollector };
@@ -0,0 +1,132 @@
+const DEFAULT_ACTIONS = [
+  'create', 'start', 'restart', 'stop', 'die', 'kill', 'oom', 'pause', 'unpause',
+  'health_status', 'rename', 'update', 'destroy'
+];
+const RECONNECT_MS = 5000;
+
+// Docker reports health changes as "health_status: healthy" and exec events as
+// "exec_start: sh"; split those into the action and its detail.
+const normalizeEvent = (raw, host, seq) => {
+  const rawAction = raw.Action || raw.status || '';
+  const idx = rawAction.indexOf(':');
+  const action = idx === -1 ? rawAction : rawAction.slice(0, idx);
+  const detail = idx === -1 ? null : rawAction.slice(idx + 1).trim();
+  const attributes = (raw.Actor && raw.Actor.Attributes) || {};
+  const timeNano = raw.timeNano || (raw.time || 0) * 1e9;
+  const exitCode = attributes.exitCode !== undefined ? Number(attributes.exitCode) : null;
+
+  return {
+    id: seq,
+    time: new Date(Math.floor(timeNano / 1e6)).toISOString(),
+    host: host.name,
+    type: raw.Type || 'container',
+    action,
+    detail,
+    containerId: (raw.Actor && raw.Actor.ID) || raw.id || null,
+    containerName: attributes.name || null,
+    image: attributes.image || raw.from || null,
+    exitCode: Number.isNaN(exitCode) ? null : exitCode,
+    signal: attributes.signal || null
+  };
+};
+
+// Follows the Docker events API on every host, keeping a bounded buffer of recent
+// events and fanning live events out to subscribers.
+const createEventFeed = ({ hosts, bufferSize = 500, actions = DEFAULT_ACTIONS }) => {
+  const buffer = [];
+  const listeners = new Set();
+  const streams = new Map();
+  const lastSeen = new Map();
+  let seq = 0;
+  let stopped = false;
+
+  const push = (event) => {
+    buffer.push(event);
+    if (buffer.length > bufferSize) buffer.splice(0, buffer.length - bufferSize);
+    listeners.forEach((listener) => listener(event));
+  };
+
+  // Reconnects resume from the last event seen on the host so short outages
+  // do not leave gaps in the buffer.
+  const follow = async (host) => {
+    if (stopped) return;
+    const options = { filters: { type: ['container'], event: actions } };
+    const lastNano = lastSeen.get(host.name);
+    if (lastNano) options.since = Math.floor(lastNano / 1e9);
+    try {
+      const stream = await host.docker.getEvents(options);
+      streams.set(host.name, stream);
+      let pending = '';
+      stream.on('data', (chunk) => {
+        pending += chunk.toString();
+        const lines = pending.split('\n');
+        pending = lines.pop();
+        lines.forEach((line) => {
+          if (!line.trim()) return;
+          try {
+            const raw = JSON.parse(line);
+            const timeNano = raw.timeNano || (raw.time || 0) * 1e9;
+            if (timeNano <= (lastSeen.get(host.name) || 0)) return;
+            lastSeen.set(host.name, timeNano);
+            seq += 1;
+            push(normalizeEvent(raw, host, seq));
+          } catch (err) {
+            // skip malformed event frames
+          }
+        });
+      });
+      const reconnect = () => {
+        stream.removeAllListeners();
+        streams.delete(host.name);
+        setTimeout(() => follow(host), RECONNECT_MS);
+      };
+      stream.on('end', reconnect);
+      stream.on('error', reconnect);
+    } catch (err) {
+      console.error(`Failed to follow Docker events on host ${host.name}`, err.message);
+      setTimeout(() => follow(host), RECONNECT_MS);
+    }
+  };
+
+  const start = () => {
+    stopped = false;
+    hosts.hosts.forEach(follow);
+  };
+
+  const stop = () => {
+    stopped = true;
+    streams.forEach((stream) => {
+      stream.removeAllListeners();
+      stream.destroy();
+    });
+    streams.clear();
+  };
+
+  // Filters: container (id prefix or name), type, action (lists), host and since (epoch ms).
+  const matcher = ({ container, type, action, host, since } = {}) => {
+    const actionList = action ? String(action).split(',').map((item) => item.trim()) : null;
+    const typeList = type ? String(type).split(',').map((item) => item.trim()) : null;
+    return (event) => (
+      (!container || event.containerName === container || (event.containerId || '').startsWith(container)) &&
+      (!typeList || typeList.includes(event.type)) &&
+      (!actionList || actionList.includes(event.action)) &&
+      (!host || event.host === host) &&
+      (!since || Date.parse(event.time) >= since)
+    );
+  };
+
+  const recent = (filters, limit = bufferSize) => buffer.filter(matcher(filters)).slice(-limit);
+
+  const subscribe = (filters, listener) => {
+    const matches = matcher(filters);
+    const wrapped = (event) => {
+      if (matches(event)) listener(event);
+    };
+    listeners.add(wrapped);
+    return () => listeners.delete(wrapped);
+  };
+
+  return { start, stop, recent, subscribe };
+};
+
+module.exports = { createEventFeed, DEFAULT_ACTIONS };
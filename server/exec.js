@@ -0,0 +1,130 @@
+const { WebSocketServer } = require('ws');
+const { errorMessage } = require('./util');
+
+const EXEC_PATH = /^\/api\/containers\/([^/]+)\/exec$/;
+
+const reject = (socket, status) => {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+};
+
+// Bridges a browser WebSocket to an interactive `docker exec` session with a TTY.
+// Client frames are JSON control messages ({ type: 'input' | 'resize' }); exec
+// output is forwarded as binary frames. The client may pick a command, but only
+// one from `allowedCommands`.
+const attachExecServer = ({
+  server,
+  resolveDocker,
+  authorize = () => false,
+  enabled = false,
+  command = '/bin/sh',
+  allowedCommands = []
+}) => {
+  const wss = new WebSocketServer({ noServer: true });
+  const commands = new Set([command, ...allowedCommands]);
+
+  server.on('upgrade', (req, socket, head) => {
+    // Anything in the request line or headers may be malformed; none of it may throw here.
+    let target;
+    try {
+      if (!authorize(req)) {
+        reject(socket, '403 Forbidden');
+        return;
+      }
+      const url = new URL(req.url, 'http://localhost');
+      const match = url.pathname.match(EXEC_PATH);
+      if (!match) {
+        reject(socket, '404 Not Found');
+        return;
+      }
+      target = {
+        id: decodeURIComponent(match[1]),
+        host: url.searchParams.get('host'),
+        command: url.searchParams.get('command') || command
+      };
+    } catch (err) {
+      reject(socket, '400 Bad Request');
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => handleSession(ws, target));
+  });
+
+  const handleSession = async (ws, { id, host: hostName, command: requestedCommand }) => {
+    if (!enabled) {
+      ws.close(1008, 'Exec is disabled on this server');
+      return;
+    }
+    if (!commands.has(requestedCommand)) {
+      ws.close(1008, `Command not allowed: ${requestedCommand}`.slice(0, 120));
+      return;
+    }
+
+    const cmd = requestedCommand.split(' ').filter(Boolean);
+    let stream = null;
+    let exec = null;
+
+    const teardown = () => {
+      if (stream) {
+        stream.removeAllListeners();
+        stream.destroy();
+        stream = null;
+      }
+    };
+
+    ws.on('close', teardown);
+    ws.on('message', (message, isBinary) => {
+      if (!stream || isBinary) return;
+      let payload;
+      try {
+        payload = JSON.parse(message.toString());
+      } catch (err) {
+        return;
+      }
+      if (payload.type === 'input' && typeof payload.data === 'string') {
+        stream.write(payload.data);
+      } else if (payload.type === 'resize' && payload.cols > 0 && payload.rows > 0) {
+        exec.resize({ w: payload.cols, h: payload.rows }).catch(() => {});
+      }
+    });
+
+    try {
+      const docker = await resolveDocker(id, hostName);
+      exec = await docker.getContainer(id).exec({
+        Cmd: cmd,
+        AttachStdin: true,
+        AttachStdout: true,
+        AttachStderr: true,
+        Tty: true
+      });
+      stream = await exec.start({ hijack: true, stdin: true, Tty: true });
+    } catch (err) {
+      ws.close(1011, errorMessage(err).slice(0, 120));
+      return;
+    }
+
+    if (ws.readyState !== ws.OPEN) {
+      teardown();
+      return;
+    }
+
+    stream.on('data', (chunk) => ws.send(chunk, { binary: true }));
+    stream.on('end', async () => {
+      let exitCode = null;
+      try {
+        exitCode = (await exec.inspect()).ExitCode;
+      } catch (err) {
+        // the exec may already be gone
+      }
+      if (ws.readyState === ws.OPEN) {
+        ws.send(JSON.stringify({ type: 'exit', exitCode }));
+        ws.close(1000, 'Session ended');
+      }
+    });
+    stream.on('error', () => ws.close(1011, 'Exec stream error'));
+  };
+
+  return wss;
+};
+
+module.exports = { attachExecServer };
@@ -0,0 +1,210 @@
+const { BUILTIN_NETWORKS } = require('./inventory');
+
+// What a simulated engine starts out with: the containers, images, volumes and
+// networks its scenario describes, a small filesystem per container and the
+// log lines services print. simulator.js drives them; this file only builds them.
+const ACCESS_PATHS = ['/', '/cart', '/products', '/products/42', '/checkout', '/static/app.js', '/healthz'];
+const APP_MESSAGES = [
+  'processed job batch',
+  'cache hit ratio 0.93',
+  'flushed metrics buffer',
+  'connection pool size 12/20',
+  'checkpoint complete',
+  'handled request in 18ms'
+];
+const APP_WARNINGS = ['slow query took 1.2s', 'retrying upstream call', 'queue depth 120'];
+
+// Builds the fleet for `scenario`. Every value comes from `random`, so a seed
+// always yields the same fleet.
+const createFleet = ({ scenario, random, origin }) => {
+  const containers = [];
+  const images = new Map();
+  const volumes = new Map();
+  const networks = new Map();
+
+  const imageId = (ref) => {
+    if (!images.has(ref)) {
+      images.set(ref, {
+        id: `sha256:${random.hex(64)}`,
+        tags: [ref],
+        created: origin - random.int(2, 90) * 86400000,
+        size: random.int(5, 900) * 1024 ** 2,
+        shared: random.int(1, 60) * 1024 ** 2
+      });
+    }
+    return images.get(ref).id;
+  };
+
+  const addVolume = (volumeName, labels = {}) => {
+    if (!volumes.has(volumeName)) {
+      volumes.set(volumeName, {
+        name: volumeName,
+        created: origin - random.int(1, 60) * 86400000,
+        size: random.int(1, 4000) * 1024 ** 2,
+        labels
+      });
+    }
+    return volumeName;
+  };
+
+  const addNetwork = (networkName, driver = 'bridge') => {
+    if (!networks.has(networkName)) {
+      const index = networks.size;
+      networks.set(networkName, {
+        id: random.hex(64),
+        name: networkName,
+        driver: networkName === 'host' || networkName === 'none' ? networkName : driver,
+        subnet: networkName === 'host' || networkName === 'none' ? null : `172.${17 + index}.0.0/16`,
+        prefix: `172.${17 + index}.0`,
+        created: origin - random.int(1, 90) * 86400000
+      });
+    }
+    return networks.get(networkName);
+  };
+
+  BUILTIN_NETWORKS.forEach((networkName) => addNetwork(networkName));
+
+  // One container per replica of each service in the scenario.
+  scenario.services.forEach((service) => {
+    const network = addNetwork(service.project ? `${service.project}_default` : 'bridge');
+    for (let replica = 1; replica <= service.replicas; replica += 1) {
+      const containerName = service.project
+        ? `${service.project}-${service.name}-${replica}`
+        : service.replicas > 1 ? `${service.name}-${replica}` : service.name;
+      const labels = { ...service.labels };
+      if (service.project) {
+        labels['com.docker.compose.project'] = service.project;
+        labels['com.docker.compose.service'] = service.name;
+        labels['com.docker.compose.container-number'] = String(replica);
+      }
+      const running = service.state === 'running';
+      const created = origin - random.int(1, 14 * 24) * 3600000;
+      const container = {
+        id: random.hex(64),
+        name: containerName,
+        service,
+        image: service.image,
+        imageId: imageId(service.image),
+        created,
+        labels,
+        env: ['PATH=/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin', ...service.env],
+        mounts: service.volumes.map((volume) => ({
+          name: addVolume(volume.name || random.hex(64), service.project && volume.name
+            ? { 'com.docker.compose.project': service.project }
+            : {}),
+          destination: volume.destination
+        })),
+        network: { name: network.name, id: network.id, ip: `${network.prefix}.${containers.length + 2}` },
+        hostConfig: {
+          Memory: service.memory.limit,
+          MemorySwap: service.memory.limit ? service.memory.limit * 2 : 0,
+          MemoryReservation: 0,
+          NanoCpus: 0,
+          CpuQuota: 0,
+          CpuPeriod: 0,
+          CpuShares: 0,
+          CpusetCpus: '',
+          CpusetMems: '',
+          PidsLimit: null,
+          RestartPolicy: { Name: service.restartPolicy, MaximumRetryCount: 0 }
+        },
+        state: running ? 'running' : 'exited',
+        pid: running ? random.int(1000, 60000) : 0,
+        startedAt: running ? origin - random.int(5, 72 * 60) * 60000 : created + 60000,
+        finishedAt: running ? null : created + random.int(61, 300) * 1000,
+        exitCode: 0,
+        oomKilled: false,
+        restartCount: 0,
+        manuallyStopped: false,
+        restartAtTick: null,
+        load: null,
+        cpuLevel: random.range(service.cpu.min, service.cpu.max),
+        memLevel: random.range(service.memory.usage.min, service.memory.usage.max),
+        leaked: 0,
+        cpuNs: random.int(1, 1000) * 1e9,
+        perCpuNs: Array.from({ length: scenario.cpus }, () => 0),
+        previous: null,
+        counters: { rx: random.int(1, 500) * 1024 ** 2, tx: random.int(1, 500) * 1024 ** 2, read: 0, write: 0 },
+        pids: random.int(1, 24),
+        health: service.healthcheck
+          ? { status: running ? 'healthy' : 'unhealthy', failingStreak: 0, log: [], failUntilTick: -1 }
+          : null,
+        logs: [],
+        logFollowers: new Set(),
+        files: null,
+        changes: new Map([['/tmp', 0], ['/run', 0], [`/run/${service.name}.pid`, 1]])
+      };
+      container.counters.read = random.int(1, 200) * 1024 ** 2;
+      container.counters.write = random.int(1, 200) * 1024 ** 2;
+      containers.push(container);
+    }
+  });
+
+  // A little clutter so the inventory and prune views have something to show.
+  images.set('<none>', {
+    id: `sha256:${random.hex(64)}`,
+    tags: [],
+    created: origin - 20 * 86400000,
+    size: 312 * 1024 ** 2,
+    shared: 0
+  });
+  images.set('alpine:3.18', {
+    id: `sha256:${random.hex(64)}`,
+    tags: ['alpine:3.18'],
+    created: origin - 200 * 86400000,
+    size: 7 * 1024 ** 2,
+    shared: 0
+  });
+  addVolume(random.hex(64));
+  addVolume('old_backups');
+  addNetwork('legacy_net');
+
+  return { containers, images, volumes, networks };
+};
+
+// A lazily built filesystem so the file browser has something to open.
+const filesFor = (container) => {
+  if (!container.files) {
+    const mtime = container.created;
+    const files = new Map();
+    const dir = (dirPath) => files.set(dirPath, { type: 'directory', mode: 0o755, mtime });
+    const file = (filePath, content, mode = 0o644) => files.set(filePath, { type: 'file', content, mode, mtime });
+    ['/', '/app', '/bin', '/etc', '/run', '/tmp', '/usr', '/usr/bin', '/var', '/var/log'].forEach(dir);
+    file('/etc/hostname', `${container.id.slice(0, 12)}\n`);
+    file('/etc/hosts', `127.0.0.1\tlocalhost\n${container.network.ip}\t${container.id.slice(0, 12)}\n`);
+    file('/etc/os-release', 'NAME="Debian GNU/Linux"\nVERSION_ID="12"\n');
+    const config = { service: container.service.name, image: container.image, workers: 4 };
+    file('/app/config.json', `${JSON.stringify(config, null, 2)}\n`);
+    file('/usr/bin/sh', Buffer.from([0x7f, 0x45, 0x4c, 0x46, 2, 1, 1, 0, 0, 0, 0, 0]), 0o755);
+    files.set('/bin/sh', { type: 'symlink', linkTarget: '/usr/bin/sh', mode: 0o777, mtime });
+    files.set('/var/log/app.log', {
+      type: 'file',
+      mode: 0o644,
+      mtime,
+      content: () => container.logs.map((line) => `${new Date(line.time).toISOString()} ${line.text}\n`).join('')
+    });
+    files.set(`/run/${container.service.name}.pid`, {
+      type: 'file',
+      mode: 0o644,
+      mtime,
+      content: () => `${container.pid}\n`
+    });
+    container.files = files;
+  }
+  return container.files;
+};
+
+// Picks the line a running service prints this tick, or null for a quiet tick.
+const chatter = (service, random) => {
+  if (!random.chance(0.4)) return null;
+  if (service.logs === 'access') {
+    const status = random.chance(0.05) ? random.pick([404, 500, 502]) : 200;
+    const request = `${random.pick(['GET', 'GET', 'POST'])} ${random.pick(ACCESS_PATHS)} HTTP/1.1`;
+    const text = `172.18.0.1 - - "${request}" ${status} ${random.int(200, 40000)}`;
+    return { text, stream: status >= 500 ? 'stderr' : 'stdout' };
+  }
+  if (random.chance(0.1)) return { text: `WARN ${random.pick(APP_WARNINGS)}`, stream: 'stderr' };
+  return { text: `INFO ${random.pick(APP_MESSAGES)}`, stream: 'stdout' };
+};
+
+module.exports = { chatter, createFleet, filesFor };
@@ -0,0 +1,38 @@
+// Case-insensitive wildcard matching without regexes, shared by the filter
+// language and the redaction policy. `*` matches any run of characters and,
+// with `singleChar`, `?` matches exactly one. On a mismatch the matcher only
+// backtracks to the most recent `*`, so a test costs at most
+// pattern length × text length whatever the input looks like.
+const compileGlob = (glob, { singleChar = true } = {}) => {
+  const pattern = String(glob).toLowerCase();
+
+  const test = (value) => {
+    const text = String(value).toLowerCase();
+    let p = 0;
+    let t = 0;
+    let star = -1;
+    let resume = 0;
+    while (t < text.length) {
+      if (p < pattern.length && (pattern[p] === text[t] || (singleChar && pattern[p] === '?'))) {
+        p += 1;
+        t += 1;
+      } else if (p < pattern.length && pattern[p] === '*') {
+        star = p;
+        resume = t;
+        p += 1;
+      } else if (star !== -1) {
+        p = star + 1;
+        resume += 1;
+        t = resume;
+      } else {
+        return false;
+      }
+    }
+    while (pattern[p] === '*') p += 1;
+    return p === pattern.length;
+  };
+
+  return { test };
+};
+
+module.exports = { compileGlob };
@@ -0,0 +1,175 @@
+const fs = require('fs');
+
+const METRICS = ['cpu', 'mem', 'memUsage', 'netRx', 'netTx', 'blockRead', 'blockWrite'];
+// Bumped whenever the meaning of a stored metric changes. Files without a
+// version predate per-second network and block I/O rates and held raw counters.
+const FORMAT_VERSION = 2;
+
+class RingBuffer {
+  constructor(capacity) {
+    this.capacity = capacity;
+    this.items = new Array(capacity);
+    this.start = 0;
+    this.length = 0;
+  }
+
+  push(item) {
+    const index = (this.start + this.length) % this.capacity;
+    this.items[index] = item;
+    if (this.length < this.capacity) {
+      this.length += 1;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  last() {
+    if (!this.length) return null;
+    return this.items[(this.start + this.length - 1) % this.capacity];
+  }
+
+  toArray() {
+    const out = [];
+    for (let i = 0; i < this.length; i += 1) {
+      out.push(this.items[(this.start + i) % this.capacity]);
+    }
+    return out;
+  }
+}
+
+const samplePoint = (payload, t) => ({
+  t,
+  cpu: payload.cpu,
+  mem: payload.memory.percent,
+  memUsage: payload.memoryBytes ? payload.memoryBytes.usage : 0,
+  netRx: payload.netRate.rx,
+  netTx: payload.netRate.tx,
+  blockRead: payload.blockRate.read,
+  blockWrite: payload.blockRate.write
+});
+
+const averagePoints = (points, t) => {
+  const out = { t };
+  METRICS.forEach((key) => {
+    out[key] = points.reduce((sum, point) => sum + point[key], 0) / points.length;
+  });
+  return out;
+};
+
+const rebucket = (points, stepMs) => {
+  const buckets = new Map();
+  points.forEach((point) => {
+    const bucket = Math.floor(point.t / stepMs) * stepMs;
+    if (!buckets.has(bucket)) buckets.set(bucket, []);
+    buckets.get(bucket).push(point);
+  });
+  return [...buckets.entries()].map(([t, list]) => averagePoints(list, t));
+};
+
+// Samples are kept in tiers of increasing resolution step. The first tier holds
+// raw samples; coarser tiers hold averages so a 24h window stays bounded.
+const buildTiers = (intervalMs, retentionMs) => {
+  const tiers = [
+    { stepMs: intervalMs, spanMs: Math.min(retentionMs, 60 * 60 * 1000) },
+    { stepMs: Math.max(intervalMs, 60 * 1000), spanMs: Math.min(retentionMs, 6 * 60 * 60 * 1000) },
+    { stepMs: Math.max(intervalMs, 5 * 60 * 1000), spanMs: retentionMs }
+  ];
+  return tiers
+    .filter((tier, index) => index === 0 || tier.stepMs > tiers[index - 1].stepMs)
+    .map((tier) => ({ ...tier, capacity: Math.ceil(tier.spanMs / tier.stepMs) + 1 }));
+};
+
+const createHistoryStore = ({ intervalMs = 10000, retentionMs = 24 * 60 * 60 * 1000, file = null } = {}) => {
+  const tiers = buildTiers(intervalMs, retentionMs);
+  const series = new Map();
+
+  const seriesFor = (id) => {
+    if (!series.has(id)) {
+      series.set(id, tiers.map((tier) => ({ buffer: new RingBuffer(tier.capacity), pending: [] })));
+    }
+    return series.get(id);
+  };
+
+  const addPoint = (id, point) => {
+    seriesFor(id).forEach((level, index) => {
+      if (index === 0) {
+        level.buffer.push(point);
+        return;
+      }
+      const { stepMs } = tiers[index];
+      const bucket = Math.floor(point.t / stepMs) * stepMs;
+      if (level.pending.length && Math.floor(level.pending[0].t / stepMs) * stepMs !== bucket) {
+        level.buffer.push(averagePoints(level.pending, Math.floor(level.pending[0].t / stepMs) * stepMs));
+        level.pending = [];
+      }
+      level.pending.push(point);
+    });
+  };
+
+  const record = (payloads, t = Date.now()) => {
+    payloads.forEach((payload) => addPoint(payload.id, samplePoint(payload, t)));
+
+    series.forEach((levels, id) => {
+      const latest = levels[0].buffer.last();
+      if (!latest || latest.t < t - retentionMs) series.delete(id);
+    });
+  };
+
+  const query = (id, { from, to, stepMs }) => {
+    const levels = series.get(id);
+    if (!levels) return { stepMs: tiers[0].stepMs, points: [] };
+
+    const now = Date.now();
+    let tierIndex = tiers.findIndex((tier) => from >= now - tier.spanMs - tier.stepMs);
+    if (tierIndex === -1) tierIndex = tiers.length - 1;
+
+    const level = levels[tierIndex];
+    let points = level.buffer.toArray().concat(
+      tierIndex > 0 && level.pending.length ? [averagePoints(level.pending, level.pending[0].t)] : []
+    );
+    points = points.filter((point) => point.t >= from && point.t <= to);
+
+    const effectiveStep = Math.max(stepMs || 0, tiers[tierIndex].stepMs);
+    if (effectiveStep > tiers[tierIndex].stepMs) points = rebucket(points, effectiveStep);
+
+    return { stepMs: effectiveStep, points };
+  };
+
+  const save = () => {
+    if (!file) return;
+    const data = {};
+    series.forEach((levels, id) => {
+      data[id] = levels.map((level) => ({ points: level.buffer.toArray(), pending: level.pending }));
+    });
+    try {
+      fs.writeFileSync(file, JSON.stringify({ version: FORMAT_VERSION, savedAt: Date.now(), series: data }));
+    } catch (err) {
+      console.error('Failed to persist metrics history', err);
+    }
+  };
+
+  const load = () => {
+    if (!file || !fs.existsSync(file)) return;
+    try {
+      const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+      if (data.version !== FORMAT_VERSION) {
+        console.warn(`Discarding metrics history in ${file}: format version ${data.version || 1} is not ${FORMAT_VERSION}`);
+        return;
+      }
+      const cutoff = Date.now() - retentionMs;
+      Object.entries(data.series || {}).forEach(([id, levels]) => {
+        const target = seriesFor(id);
+        levels.slice(0, tiers.length).forEach((level, index) => {
+          level.points.filter((point) => point.t >= cutoff).forEach((point) => target[index].buffer.push(point));
+          target[index].pending = level.pending || [];
+        });
+      });
+    } catch (err) {
+      console.error('Failed to load metrics history', err);
+    }
+  };
+
+  return { record, query, save, load, intervalMs, retentionMs };
+};
+
+module.exports = { createHistoryStore };
@@ -0,0 +1,152 @@
+const fs = require('fs');
+const Docker = require('dockerode');
+const { createSimulatorFromConfig } = require('./simulator');
+
+const readFile = (file) => (file ? fs.readFileSync(file) : undefined);
+
+// Accepts unix:///path, bare socket paths, tcp://host:port and http(s)://host:port.
+const dockerOptions = ({ url, tls }) => {
+  if (!url || url.startsWith('/')) return { socketPath: url || '/var/run/docker.sock' };
+  if (url.startsWith('unix://')) return { socketPath: url.slice('unix://'.length) };
+
+  const parsed = new URL(url.replace(/^tcp:/, tls ? 'https:' : 'http:'));
+  const options = {
+    host: parsed.hostname,
+    port: Number(parsed.port) || (parsed.protocol === 'https:' ? 2376 : 2375),
+    protocol: parsed.protocol.replace(':', '')
+  };
+  if (tls) {
+    options.ca = readFile(tls.ca);
+    options.cert = readFile(tls.cert);
+    options.key = readFile(tls.key);
+  }
+  return options;
+};
+
+const isSimulated = (config) => config.engine === 'simulator' || Boolean(config.url && config.url.startsWith('sim://'));
+
+// A simulated host runs an in-process fake engine instead of talking to a daemon.
+const createEngine = (config) => (isSimulated(config)
+  ? createSimulatorFromConfig(config)
+  : new Docker(dockerOptions(config)));
+
+// SIM_* variables fill in whatever a simulated host config leaves out.
+const withSimulatorDefaults = (env) => (config) => {
+  if (!isSimulated(config) && env.DOCKER_ENGINE !== 'simulator') return config;
+  return {
+    ...config,
+    engine: 'simulator',
+    scenario: config.scenario || env.SIM_SCENARIO_FILE,
+    seed: config.seed !== undefined ? config.seed : env.SIM_SEED,
+    containers: config.containers !== undefined ? config.containers : env.SIM_CONTAINERS
+  };
+};
+
+const readHostConfigs = (env) => {
+  if (env.HOSTS_FILE) {
+    const data = JSON.parse(fs.readFileSync(env.HOSTS_FILE, 'utf8'));
+    return Array.isArray(data) ? data : data.hosts || [];
+  }
+  if (env.DOCKER_HOSTS) {
+    return env.DOCKER_HOSTS.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+      const idx = entry.indexOf('=');
+      return idx === -1 ? { name: entry, url: entry } : { name: entry.slice(0, idx), url: entry.slice(idx + 1) };
+    });
+  }
+  if (env.DOCKER_ENGINE === 'simulator') return [{ name: 'sim', engine: 'simulator' }];
+  return [{ name: 'local', url: env.DOCKER_SOCKET || '/var/run/docker.sock' }];
+};
+
+// Reads hosts from HOSTS_FILE (JSON array of { name, url, tls }) or DOCKER_HOSTS
+// ("name=url,name=url"), falling back to the single local socket. With
+// DOCKER_ENGINE=simulator every host is simulated.
+const loadHostConfigs = (env) => readHostConfigs(env).map(withSimulatorDefaults(env));
+
+const createHostRegistry = (configs) => {
+  const seen = new Set();
+  configs.forEach((config) => {
+    if (seen.has(config.name)) throw new Error(`Docker host name "${config.name}" is configured more than once`);
+    seen.add(config.name);
+  });
+  const hosts = configs.map((config) => ({
+    name: config.name,
+    docker: createEngine(config),
+    health: { ok: null, error: null, latencyMs: null, checkedAt: null }
+  }));
+  const byName = new Map(hosts.map((host) => [host.name, host]));
+  const containerHosts = new Map();
+
+  const markHealth = (host, ok, error = null, latencyMs = null) => {
+    host.health = { ok, error: error ? error.message || String(error) : null, latencyMs, checkedAt: new Date().toISOString() };
+  };
+
+  const check = async (host) => {
+    const startedAt = Date.now();
+    try {
+      await host.docker.ping();
+      markHealth(host, true, null, Date.now() - startedAt);
+    } catch (err) {
+      markHealth(host, false, err);
+    }
+  };
+
+  // A full listing is authoritative for its host, so ids it no longer reports
+  // are dropped; otherwise the map grows with every container ever seen.
+  const remember = (host, containers, complete) => {
+    if (complete) {
+      const current = new Set(containers.map((info) => info.Id));
+      containerHosts.forEach((name, id) => {
+        if (name === host.name && !current.has(id)) containerHosts.delete(id);
+      });
+    }
+    containers.forEach((info) => containerHosts.set(info.Id, host.name));
+  };
+
+  // Lists containers on every host. A failing host is reported in `failures`
+  // instead of rejecting the whole call.
+  const listAll = async (options = { all: true }) => {
+    const results = await Promise.all(hosts.map(async (host) => {
+      const startedAt = Date.now();
+      try {
+        const containers = await host.docker.listContainers(options);
+        markHealth(host, true, null, Date.now() - startedAt);
+        remember(host, containers, Boolean(options.all));
+        return { host, containers };
+      } catch (err) {
+        markHealth(host, false, err);
+        return { host, containers: [], error: err };
+      }
+    }));
+    return {
+      listings: results.filter((result) => !result.error),
+      failures: results.filter((result) => result.error)
+    };
+  };
+
+  const get = (name) => byName.get(name) || null;
+
+  const locate = async (id, name) => {
+    if (name) {
+      const host = get(name);
+      if (!host) throw new Error(`Unknown Docker host "${name}"`);
+      return host;
+    }
+    if (hosts.length === 1) return hosts[0];
+    const known = containerHosts.get(id);
+    if (known && byName.has(known)) return byName.get(known);
+
+    const matches = await Promise.all(hosts.map((host) => host.docker.getContainer(id).inspect()
+      .then((info) => {
+        containerHosts.set(info.Id, host.name);
+        return host;
+      })
+      .catch(() => null)));
+    return matches.find(Boolean) || hosts[0];
+  };
+
+  const status = () => hosts.map((host) => ({ name: host.name, ...host.health }));
+
+  return { hosts, get, locate, listAll, check, status };
+};
+
+module.exports = { createHostRegistry, loadHostConfigs };
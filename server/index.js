@@ -1,218 +1,274 @@
 const express = require('express');
-const Docker = require('dockerode');
 const cors = require('cors');
+const {
+  containerState,
+  formatEnvVars,
+  formatHealth,
+  formatNetworks,
+  formatPortsFromInspect
+} = require('./metrics');
+const { createStatsStream } = require('./stream');
+const { createHistoryStore } = require('./history');
+const { createLogParser } = require('./logs');
+const { attachExecServer } = require('./exec');
+const { errorMessage } = require('./util');
+const { createAuth, hasRole } = require('./auth');
+const { createRedactionPolicy } = require('./redaction');
+const { createAuditLog } = require('./audit');
+const { createHostRegistry, loadHostConfigs } = require('./hosts');
+const { compileQuery } = require('./query');
+const { createAlertEngine, loadAlertConfig } = require('./alerts');
+const { renderMetrics } = require('./prometheus');
+const { createEventFeed, DEFAULT_ACTIONS } = require('./events');
+const { createCollector } = require('./collector');
+const { createInventory, PRUNE_KINDS } = require('./inventory');
+const { createOverview } = require('./overview');
+const { formatResources, parseResourceUpdate } = require('./resources');
+const {
+  buildTar,
+  formatChanges,
+  listDirectory,
+  normalizePath,
+  pipeFile,
+  readFilePreview,
+  resolvePath
+} = require('./archive');
 
 const app = express();
-const docker = new Docker({ socketPath: process.env.DOCKER_SOCKET || '/var/run/docker.sock' });
+const hosts = createHostRegistry(loadHostConfigs(process.env));
 const PORT = process.env.PORT || 4000;
+const splitList = (value) => (value ? value.split(',').map((item) => item.trim()).filter(Boolean) : []);
+const redaction = createRedactionPolicy({
+  patterns: splitList(process.env.REDACT_PATTERNS),
+  useDefaults: process.env.REDACT_DEFAULTS !== 'false',
+  revealEnabled: process.env.REDACT_REVEAL_ENABLED === 'true'
+});
+const auditLog = createAuditLog({
+  file: process.env.AUDIT_FILE || process.env.REDACT_AUDIT_FILE || null,
+  stdout: process.env.AUDIT_STDOUT !== 'false'
+});
+const redactPayload = (payload) => ({ ...payload, labels: redaction.redactLabels(payload.labels) });
+const history = createHistoryStore({
+  intervalMs: Number(process.env.HISTORY_INTERVAL_MS) || 10000,
+  retentionMs: (Number(process.env.HISTORY_RETENTION_HOURS) || 24) * 60 * 60 * 1000,
+  file: process.env.HISTORY_FILE || null
+});
+const events = createEventFeed({
+  hosts,
+  bufferSize: Number(process.env.EVENTS_BUFFER_SIZE) || 500,
+  actions: process.env.EVENTS_ACTIONS ? splitList(process.env.EVENTS_ACTIONS) : DEFAULT_ACTIONS
+});
+const collector = createCollector({
+  hosts,
+  events,
+  decorate: redactPayload,
+  intervalMs: Number(process.env.COLLECT_INTERVAL_MS) || 2000,
+  concurrency: Number(process.env.COLLECT_CONCURRENCY) || 8
+});
+const statsStream = createStatsStream({ collector });
+const inventory = createInventory({ hosts });
+const overview = createOverview({
+  hosts,
+  collector,
+  engineTtlMs: Number(process.env.HOST_INFO_TTL_MS) || 60 * 1000
+});
+const alerts = createAlertEngine(loadAlertConfig(process.env.ALERT_RULES_FILE));
 
-app.use(cors());
+const auth = createAuth({
+  modes: splitList(process.env.AUTH_MODE).filter((mode) => mode !== 'none'),
+  tokens: process.env.AUTH_TOKENS,
+  usersFile: process.env.AUTH_USERS_FILE || null,
+  sessionTtlMs: (Number(process.env.AUTH_SESSION_TTL_HOURS) || 12) * 60 * 60 * 1000,
+  secureCookies: process.env.AUTH_SECURE_COOKIES === 'true',
+  proxy: {
+    userHeader: process.env.AUTH_PROXY_USER_HEADER,
+    groupsHeader: process.env.AUTH_PROXY_GROUPS_HEADER,
+    operatorGroups: splitList(process.env.AUTH_PROXY_OPERATOR_GROUPS),
+    defaultRole: process.env.AUTH_PROXY_DEFAULT_ROLE,
+    trusted: splitList(process.env.AUTH_PROXY_TRUSTED)
+  }
+});
+const corsOrigins = splitList(process.env.CORS_ORIGINS || 'http://localhost:5173');
 
-const formatBytes = (bytes) => {
-  if (!bytes && bytes !== 0) return '-';
-  if (bytes === 0) return '0B';
-  const units = ['B', 'K', 'M', 'G', 'T'];
-  const k = 1024;
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  const value = bytes / Math.pow(k, i);
-  return `${value.toFixed(value >= 10 || i === 0 ? 0 : 1)}${units[i]}`;
+// Browsers do not apply CORS to WebSocket upgrades, so check the origin ourselves.
+const originAllowed = (req) => {
+  const origin = req.headers.origin;
+  if (!origin || corsOrigins.includes('*') || corsOrigins.includes(origin)) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch (err) {
+    return false;
+  }
 };
 
-const formatDuration = (start) => {
-  if (!start) return '-';
-  const startTime = new Date(start).getTime();
-  if (Number.isNaN(startTime)) return '-';
-  const diff = Date.now() - startTime;
-  if (diff < 0) return '-';
-  const seconds = Math.floor(diff / 1000);
-  const days = Math.floor(seconds / 86400);
-  const hours = Math.floor((seconds % 86400) / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = seconds % 60;
-
-  if (days > 0) return `${days}d${hours}h${minutes}m`;
-  if (hours > 0) return `${hours}h${minutes}m${secs}s`;
-  if (minutes > 0) return `${minutes}m${secs}s`;
-  return `${secs}s`;
-};
+app.use(cors({ origin: corsOrigins.includes('*') ? true : corsOrigins, credentials: true }));
+app.use(express.json());
+app.use(auth.csrfGuard);
+app.use(auth.authenticate);
+auth.registerRoutes(app);
+app.use('/api', auth.requireRole('viewer'));
 
-const cpuPercent = (stats) => {
-  if (!stats || !stats.precpu_stats || !stats.cpu_stats) return 0;
-  const cpuDelta = stats.cpu_stats.cpu_usage.total_usage - stats.precpu_stats.cpu_usage.total_usage;
-  const systemDelta = stats.cpu_stats.system_cpu_usage - stats.precpu_stats.system_cpu_usage;
-  const cores = stats.cpu_stats.online_cpus || (stats.cpu_stats.cpu_usage.percpu_usage ? stats.cpu_stats.cpu_usage.percpu_usage.length : 1);
-  if (cpuDelta > 0 && systemDelta > 0) {
-    return (cpuDelta / systemDelta) * cores * 100;
+// Resolves which Docker host owns :id (or the explicit ?host=) for per-container routes.
+const resolveHost = async (req, res, next) => {
+  try {
+    req.dockerHost = await hosts.locate(req.params.id, req.query.host);
+    next();
+  } catch (err) {
+    res.status(404).json({ message: 'Unknown Docker host', error: err.message });
   }
-  return 0;
 };
 
-const memoryUsage = (stats) => {
-  if (!stats || !stats.memory_stats) {
-    return { usage: 0, limit: 0, percent: 0 };
+const sampleHistory = async () => {
+  try {
+    const snapshot = await collector.latest();
+    if (!snapshot || snapshot.error) return;
+    history.record(snapshot.containers);
+    const unreachableHosts = snapshot.hosts.filter((host) => host.ok === false).map((host) => host.name);
+    alerts.evaluate(snapshot.containers, { unreachableHosts });
+  } catch (err) {
+    console.error('Failed to sample container history', err);
   }
-  const cache = stats.memory_stats.stats && stats.memory_stats.stats.cache ? stats.memory_stats.stats.cache : 0;
-  const usage = Math.max(stats.memory_stats.usage - cache, 0);
-  const limit = stats.memory_stats.limit || 0;
-  const percent = limit ? (usage / limit) * 100 : 0;
-  return { usage, limit, percent };
 };
 
-const networkIO = (stats) => {
-  if (!stats || !stats.networks) return { rx: 0, tx: 0 };
-  return Object.values(stats.networks).reduce(
-    (acc, nic) => ({ rx: acc.rx + (nic.rx_bytes || 0), tx: acc.tx + (nic.tx_bytes || 0) }),
-    { rx: 0, tx: 0 }
-  );
-};
+// Docker answers 304 when the container is already in the requested state and
+// 404/409 for missing or conflicting containers; surface those as client errors.
+const sendDockerError = (res, err, message) => {
+  const dockerStatus = err && err.statusCode;
+  let status = 500;
+  if (dockerStatus === 304) status = 409;
+  else if (dockerStatus >= 400 && dockerStatus < 500) status = dockerStatus;
 
-const blockIO = (stats) => {
-  if (!stats || !stats.blkio_stats || !Array.isArray(stats.blkio_stats.io_service_bytes_recursive)) {
-    return { read: 0, write: 0 };
-  }
-  return stats.blkio_stats.io_service_bytes_recursive.reduce((acc, entry) => {
-    if (entry.op === 'Read') acc.read += entry.value;
-    if (entry.op === 'Write') acc.write += entry.value;
-    return acc;
-  }, { read: 0, write: 0 });
+  if (status >= 500) console.error(message, err);
+  res.status(status).json({
+    message,
+    error: errorMessage(err),
+    statusCode: dockerStatus || null
+  });
 };
 
-const formatPorts = (ports) => {
-  if (!ports || ports.length === 0) return '-';
-  return ports
-    .map((port) => {
-      const proto = port.Type ? port.Type.toLowerCase() : 'tcp';
-      const container = `${port.PrivatePort}/${proto}`;
-      if (port.PublicPort) {
-        const host = port.IP && port.IP !== '0.0.0.0' ? port.IP : '0.0.0.0';
-        return `${host}:${port.PublicPort} -> ${container}`;
-      }
-      return container;
-    })
-    .join(', ');
-};
+const SIGNAL_PATTERN = /^(SIG)?[A-Z0-9]+$|^\d+$/;
 
-const formatNetworks = (networkSettings) => {
-  if (!networkSettings || !networkSettings.Networks) return '-';
-  const entries = Object.entries(networkSettings.Networks).map(([name, info]) => `${name}:${info.IPAddress || '0.0.0.0'}`);
-  return entries.length ? entries.join(', ') : '-';
+const CONTAINER_ACTIONS = {
+  start: (container) => container.start(),
+  stop: (container, options) => container.stop(options.timeout !== undefined ? { t: Number(options.timeout) } : {}),
+  restart: (container, options) => container.restart(options.timeout !== undefined ? { t: Number(options.timeout) } : {}),
+  pause: (container) => container.pause(),
+  unpause: (container) => container.unpause(),
+  kill: (container, options) => container.kill({ signal: options.signal || 'SIGKILL' }),
+  remove: (container, options) => container.remove({ force: Boolean(options.force), v: Boolean(options.volumes) })
 };
 
-const formatPortsFromInspect = (portMap) => {
-  if (!portMap || Object.keys(portMap).length === 0) return '-';
-  const entries = Object.entries(portMap).flatMap(([containerPort, bindings]) => {
-    if (!bindings || bindings.length === 0) {
-      return containerPort;
-    }
-    return bindings.map((binding) => {
-      const host = binding.HostIp && binding.HostIp !== '' ? binding.HostIp : '0.0.0.0';
-      return `${host}:${binding.HostPort} -> ${containerPort}`;
-    });
+const startEventStream = (res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
   });
-  return entries.length ? entries.join(', ') : '-';
+  res.flushHeaders();
+  return (event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
 };
 
-const containerState = (inspectData) => {
-  if (!inspectData || !inspectData.State) return 'unknown';
-  if (inspectData.State.Paused) return 'paused';
-  if (inspectData.State.Restarting) return 'restarting';
-  if (inspectData.State.Running) return 'running';
-  return 'stopped';
-};
+const PS_ARGS_PATTERN = /^[\w\s,=%-]+$/;
 
-const formatEnvVars = (envList) => {
-  if (!Array.isArray(envList)) return [];
-  return envList.map((entry) => {
-    const idx = entry.indexOf('=');
-    if (idx === -1) return { key: entry, value: '' };
-    return { key: entry.slice(0, idx), value: entry.slice(idx + 1) };
-  });
+const PROCESS_COLUMNS = {
+  pid: ['PID'],
+  ppid: ['PPID'],
+  user: ['USER', 'UID', 'RUSER'],
+  cpu: ['%CPU', 'PCPU', 'C'],
+  memory: ['%MEM', 'PMEM'],
+  rss: ['RSS', 'RSZ'],
+  time: ['TIME', 'ELAPSED', 'ETIME'],
+  command: ['COMMAND', 'CMD', 'ARGS']
 };
 
-async function buildContainerPayload(containerInfo) {
-  const container = docker.getContainer(containerInfo.Id);
-  let stats = null;
-  let inspectInfo = null;
+const formatProcesses = (top, redactCommand = (command) => command) => {
+  const titles = (top && top.Titles) || [];
+  const index = Object.fromEntries(
+    Object.entries(PROCESS_COLUMNS).map(([key, names]) => [key, titles.findIndex((title) => names.includes(title.toUpperCase()))])
+  );
+  const column = (row, key) => (index[key] === -1 ? null : row[index[key]]);
+  const number = (value) => (value === null || value === undefined || Number.isNaN(Number(value)) ? null : Number(value));
 
-  try {
-    [inspectInfo, stats] = await Promise.all([
-      container.inspect(),
-      container.stats({ stream: false })
-    ]);
-  } catch (err) {
-    try {
-      inspectInfo = inspectInfo || (await container.inspect());
-    } catch (inspectErr) {
-      // ignore inspect errors to still return base info
-    }
-  }
+  return ((top && top.Processes) || []).map((row) => ({
+    pid: number(column(row, 'pid')),
+    ppid: number(column(row, 'ppid')),
+    user: column(row, 'user') || '-',
+    cpu: number(column(row, 'cpu')),
+    memory: number(column(row, 'memory')),
+    rss: number(column(row, 'rss')),
+    time: column(row, 'time') || '-',
+    command: redactCommand(column(row, 'command') || row[row.length - 1] || '-')
+  }));
+};
 
-  const cpu = cpuPercent(stats);
-  const mem = memoryUsage(stats);
-  const net = networkIO(stats);
-  const blk = blockIO(stats);
-  const pids = (stats && stats.pids_stats && stats.pids_stats.current) || (inspectInfo && inspectInfo.State && inspectInfo.State.Pid) || 0;
-  const uptime = inspectInfo ? formatDuration(inspectInfo.State && inspectInfo.State.StartedAt) : '-';
-  const networks = inspectInfo ? formatNetworks(inspectInfo.NetworkSettings) : '-';
-
-  return {
-    id: containerInfo.Id,
-    name: (containerInfo.Names && containerInfo.Names[0]) ? containerInfo.Names[0].replace(/^\//, '') : containerInfo.Id.substring(0, 12),
-    state: containerState(inspectInfo),
-    ports: formatPorts(containerInfo.Ports),
-    networks,
-    cpu: Number(cpu.toFixed(1)),
-    memory: {
-      usage: formatBytes(mem.usage),
-      limit: formatBytes(mem.limit),
-      percent: Number(mem.percent.toFixed(1))
-    },
-    netIO: {
-      rx: formatBytes(net.rx),
-      tx: formatBytes(net.tx)
-    },
-    netIOBytes: {
-      rx: net.rx,
-      tx: net.tx
-    },
-    blockIO: {
-      read: formatBytes(blk.read),
-      write: formatBytes(blk.write)
-    },
-    blockIOBytes: {
-      read: blk.read,
-      write: blk.write
-    },
-    pids,
-    uptime,
-    raw: {
-      shortId: containerInfo.Id.substring(0, 12)
-    }
-  };
-}
+const parseBoolean = (value) => value === 'true' || value === '1';
+
+const parseTime = (value, fallback) => {
+  if (value === undefined || value === '') return fallback;
+  const numeric = Number(value);
+  const time = Number.isNaN(numeric) ? Date.parse(value) : numeric;
+  return Number.isNaN(time) ? null : time;
+};
 
 app.get('/api/containers', async (req, res) => {
+  let matches;
   try {
-    const containers = await docker.listContainers({ all: true });
-    const payload = await Promise.all(containers.map(buildContainerPayload));
-    res.json({ containers: payload, fetchedAt: new Date().toISOString() });
+    matches = compileQuery(req.query.q);
   } catch (err) {
-    console.error('Failed to fetch container stats', err);
-    res.status(500).json({ message: 'Unable to fetch container data', error: err.message });
+    res.status(400).json({ message: 'Invalid filter query', error: err.message, start: err.start, end: err.end });
+    return;
+  }
+
+  const snapshot = await collector.latest();
+  if (!snapshot || snapshot.error) {
+    sendDockerError(res, snapshot ? snapshot.error : new Error('No collection has completed yet'), 'Unable to fetch container data');
+    return;
   }
+  const ageMs = Date.now() - Date.parse(snapshot.collectedAt);
+  res.json({
+    containers: snapshot.containers.filter(matches),
+    hosts: snapshot.hosts,
+    collectedAt: snapshot.collectedAt,
+    stale: ageMs > collector.intervalMs * 3,
+    fetchedAt: new Date().toISOString()
+  });
 });
 
-app.get('/api/containers/:id', async (req, res) => {
+app.get('/api/containers/stream', async (req, res) => {
+  const send = startEventStream(res);
+  let closed = false;
+  let unsubscribe = null;
+  req.on('close', () => {
+    closed = true;
+    if (unsubscribe) unsubscribe();
+  });
+
+  unsubscribe = await statsStream.subscribe(send);
+  if (closed) unsubscribe();
+});
+
+app.get('/api/containers/:id', resolveHost, async (req, res) => {
   try {
-    const container = docker.getContainer(req.params.id);
+    const container = req.dockerHost.docker.getContainer(req.params.id);
     const inspectInfo = await container.inspect();
     const state = inspectInfo.State || {};
     const config = inspectInfo.Config || {};
     const networks = inspectInfo.NetworkSettings || {};
     const ipAddresses = networks.Networks ? Object.values(networks.Networks).map((info) => info.IPAddress || '0.0.0.0') : [];
+    const labels = config.Labels || {};
+    const command = redaction.redactArgs(config.Cmd, labels);
+    const entrypoint = redaction.redactArgs(config.Entrypoint, labels);
+    const healthCheck = formatHealth(state.Health, config.Healthcheck);
+    if (healthCheck && healthCheck.config && healthCheck.config.test) {
+      healthCheck.config.test.args = redaction.redactArgs(healthCheck.config.test.args, labels);
+    }
 
     res.json({
       id: inspectInfo.Id,
+      host: req.dockerHost.name,
       name: inspectInfo.Name ? inspectInfo.Name.replace(/^\//, '') : inspectInfo.Id.substring(0, 12),
       image: config.Image || '-',
       state: containerState(inspectInfo),
@@ -221,28 +277,527 @@ app.get('/api/containers/:id', async (req, res) => {
       startedAt: state.StartedAt || null,
       finishedAt: state.FinishedAt || null,
       health: state.Health && state.Health.Status ? state.Health.Status : '-',
+      healthCheck,
+      resources: formatResources(inspectInfo.HostConfig),
       restartCount: inspectInfo.RestartCount || 0,
       pid: state.Pid || 0,
       ports: formatPortsFromInspect(networks.Ports),
       networks: formatNetworks(networks),
       ipAddresses,
-      command: Array.isArray(config.Cmd) && config.Cmd.length ? config.Cmd.join(' ') : '-',
-      entrypoint: Array.isArray(config.Entrypoint) && config.Entrypoint.length ? config.Entrypoint.join(' ') : '-',
+      command: Array.isArray(command) && command.length ? command.join(' ') : '-',
+      entrypoint: Array.isArray(entrypoint) && entrypoint.length ? entrypoint.join(' ') : '-',
       workingDir: config.WorkingDir || '-',
       user: config.User || '-',
-      env: formatEnvVars(config.Env),
-      labels: config.Labels || {}
+      env: redaction.redactEnv(formatEnvVars(config.Env), labels),
+      labels: redaction.redactLabels(labels),
+      revealEnabled: redaction.revealEnabled && hasRole(req.user, 'operator')
+    });
+  } catch (err) {
+    sendDockerError(res, err, 'Unable to fetch container detail');
+  }
+});
+
+app.post('/api/containers/:id/secrets/reveal', auth.requireRole('operator'), resolveHost, async (req, res) => {
+  const { source = 'env', key } = req.body || {};
+
+  if (!redaction.revealEnabled) {
+    res.status(403).json({ message: 'Secret reveal is disabled', error: 'Set REDACT_REVEAL_ENABLED=true to allow it' });
+    return;
+  }
+  if (!key || !['env', 'label'].includes(source)) {
+    res.status(400).json({ message: 'Invalid secret reference', error: 'Provide a key and a source of "env" or "label"' });
+    return;
+  }
+
+  try {
+    const inspectInfo = await req.dockerHost.docker.getContainer(req.params.id).inspect();
+    const config = inspectInfo.Config || {};
+    const value = source === 'env'
+      ? (formatEnvVars(config.Env).find((item) => item.key === key) || {}).value
+      : (config.Labels || {})[key];
+
+    if (value === undefined) {
+      res.status(404).json({ message: 'Secret not found', error: `No ${source} entry named "${key}"` });
+      return;
+    }
+
+    auditLog.record('secret.reveal', { user: req.user.username, container: inspectInfo.Id, source, key, ip: req.ip });
+    res.json({ source, key, value });
+  } catch (err) {
+    sendDockerError(res, err, 'Unable to reveal secret');
+  }
+});
+
+app.post('/api/containers/:id/:action', auth.requireRole('operator'), resolveHost, async (req, res) => {
+  const { id, action } = req.params;
+  const options = req.body || {};
+  const run = CONTAINER_ACTIONS[action];
+
+  if (!run) {
+    res.status(404).json({ message: 'Unknown container action', error: `Unsupported action "${action}"` });
+    return;
+  }
+  if (options.timeout !== undefined && !(Number(options.timeout) >= 0)) {
+    res.status(400).json({ message: 'Invalid timeout', error: 'timeout must be a non-negative number of seconds' });
+    return;
+  }
+  if (options.signal !== undefined && !SIGNAL_PATTERN.test(String(options.signal))) {
+    res.status(400).json({ message: 'Invalid signal', error: `Unsupported signal "${options.signal}"` });
+    return;
+  }
+
+  try {
+    await run(req.dockerHost.docker.getContainer(id), options);
+    res.json({ id, host: req.dockerHost.name, action, ok: true });
+  } catch (err) {
+    sendDockerError(res, err, `Unable to ${action} container`);
+  }
+});
+
+// Wraps Docker's container update API. Inputs are validated against the current
+// HostConfig first so Docker only sees consistent limits.
+app.patch('/api/containers/:id/resources', auth.requireRole('operator'), resolveHost, async (req, res) => {
+  const container = req.dockerHost.docker.getContainer(req.params.id);
+  let before;
+  try {
+    before = await container.inspect();
+  } catch (err) {
+    sendDockerError(res, err, 'Unable to fetch container resources');
+    return;
+  }
+
+  let update;
+  try {
+    update = parseResourceUpdate(req.body, before.HostConfig || {});
+  } catch (err) {
+    res.status(400).json({ message: 'Invalid resource update', error: err.message, field: err.field || null });
+    return;
+  }
+
+  try {
+    const result = await container.update(update);
+    const after = await container.inspect();
+    res.json({
+      id: after.Id,
+      host: req.dockerHost.name,
+      before: formatResources(before.HostConfig),
+      after: formatResources(after.HostConfig),
+      warnings: (result && result.Warnings) || []
+    });
+  } catch (err) {
+    sendDockerError(res, err, 'Unable to update container resources');
+  }
+});
+
+app.get('/api/containers/:id/history', resolveHost, async (req, res) => {
+  const now = Date.now();
+  const to = parseTime(req.query.to, now);
+  const from = parseTime(req.query.from, now - 60 * 60 * 1000);
+  const step = req.query.step === undefined || req.query.step === '' ? 0 : Number(req.query.step);
+
+  if (from === null || to === null || from > to) {
+    res.status(400).json({ message: 'Invalid time range', error: 'from and to must be timestamps with from <= to' });
+    return;
+  }
+  if (!Number.isFinite(step) || step < 0) {
+    res.status(400).json({ message: 'Invalid step', error: 'step must be a positive number of seconds' });
+    return;
+  }
+
+  // Series are keyed by the full id, so names and short ids are resolved first.
+  let id;
+  try {
+    id = (await req.dockerHost.docker.getContainer(req.params.id).inspect()).Id;
+  } catch (err) {
+    sendDockerError(res, err, 'Unable to load container history');
+    return;
+  }
+  const result = history.query(id, { from, to, stepMs: step * 1000 });
+  res.json({
+    id,
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    step: result.stepMs / 1000,
+    points: result.points
+  });
+});
+
+app.get('/api/containers/:id/logs', resolveHost, async (req, res) => {
+  const follow = parseBoolean(req.query.follow);
+  const timestamps = parseBoolean(req.query.timestamps);
+  const tail = req.query.tail === undefined || req.query.tail === '' ? 200 : req.query.tail === 'all' ? 'all' : Number(req.query.tail);
+  const since = parseTime(req.query.since, 0);
+  const until = parseTime(req.query.until, 0);
+
+  if (tail !== 'all' && !(Number.isInteger(tail) && tail >= 0)) {
+    res.status(400).json({ message: 'Invalid tail', error: 'tail must be a non-negative integer or "all"' });
+    return;
+  }
+  if (since === null || until === null || (until && since > until)) {
+    res.status(400).json({ message: 'Invalid time range', error: 'since and until must be timestamps with since <= until' });
+    return;
+  }
+
+  try {
+    const container = req.dockerHost.docker.getContainer(req.params.id);
+    const inspectInfo = await container.inspect();
+    const parser = createLogParser({ tty: Boolean(inspectInfo.Config && inspectInfo.Config.Tty), timestamps });
+    const options = { stdout: true, stderr: true, timestamps, tail, since: Math.floor(since / 1000) };
+    if (until) options.until = Math.floor(until / 1000);
+
+    if (!follow) {
+      const output = await container.logs({ ...options, follow: false });
+      const lines = parser.push(Buffer.isBuffer(output) ? output : Buffer.from(output)).concat(parser.flush());
+      res.json({ id: inspectInfo.Id, lines });
+      return;
+    }
+
+    const stream = await container.logs({ ...options, follow: true });
+    const send = startEventStream(res);
+    stream.on('data', (chunk) => {
+      const lines = parser.push(chunk);
+      if (lines.length) send('lines', lines);
+    });
+    stream.on('end', () => {
+      const lines = parser.flush();
+      if (lines.length) send('lines', lines);
+      send('end', {});
+      res.end();
+    });
+    stream.on('error', () => res.end());
+    req.on('close', () => stream.destroy());
+  } catch (err) {
+    sendDockerError(res, err, 'Unable to fetch container logs');
+  }
+});
+
+app.get('/api/containers/:id/processes', resolveHost, async (req, res) => {
+  const psArgs = req.query.ps_args || process.env.PS_ARGS || 'aux';
+  if (!PS_ARGS_PATTERN.test(psArgs)) {
+    res.status(400).json({ message: 'Invalid ps arguments', error: `Unsupported ps_args "${psArgs}"` });
+    return;
+  }
+
+  try {
+    const container = req.dockerHost.docker.getContainer(req.params.id);
+    const [top, inspectInfo] = await Promise.all([container.top({ ps_args: psArgs }), container.inspect()]);
+    const labels = (inspectInfo.Config && inspectInfo.Config.Labels) || {};
+    res.json({
+      id: req.params.id,
+      psArgs,
+      titles: top.Titles || [],
+      processes: formatProcesses(top, (command) => redaction.redactCommandLine(command, labels)),
+      fetchedAt: new Date().toISOString()
+    });
+  } catch (err) {
+    sendDockerError(res, err, 'Unable to list container processes');
+  }
+});
+
+const FS_LIST_MAX_ENTRIES = Number(process.env.FS_LIST_MAX_ENTRIES) || 2000;
+const FS_LIST_MAX_BYTES = (Number(process.env.FS_LIST_MAX_MB) || 64) * 1024 * 1024;
+const FS_PREVIEW_MAX_BYTES = (Number(process.env.FS_PREVIEW_MAX_KB) || 256) * 1024;
+const FS_UPLOAD_MAX_BYTES = (Number(process.env.FS_UPLOAD_MAX_MB) || 50) * 1024 * 1024;
+const UPLOAD_NAME_PATTERN = /^(?!\.\.?$)[^/\0]+$/;
+// Linux NAME_MAX; longer names would fail inside the container anyway.
+const UPLOAD_NAME_MAX_BYTES = 255;
+
+const checkFsPath = (req, res, next) => {
+  req.fsPath = normalizePath(req.query.path);
+  if (!req.fsPath) {
+    res.status(400).json({ message: 'Invalid path', error: 'path must be an absolute path inside the container' });
+    return;
+  }
+  next();
+};
+
+const rawUpload = express.raw({ type: () => true, limit: FS_UPLOAD_MAX_BYTES });
+const readUpload = (req, res, next) =>
+  rawUpload(req, res, (err) => {
+    if (err) {
+      res.status(err.status || 400).json({ message: 'Upload rejected', error: err.message });
+      return;
+    }
+    next();
+  });
+
+// Directories come back with their first-level entries; anything else is just stat'ed.
+app.get('/api/containers/:id/fs', resolveHost, checkFsPath, async (req, res) => {
+  try {
+    const container = req.dockerHost.docker.getContainer(req.params.id);
+    const stat = await resolvePath(container, req.fsPath);
+    const listing = stat.type === 'directory'
+      ? await listDirectory(container, stat.path, { maxEntries: FS_LIST_MAX_ENTRIES, maxBytes: FS_LIST_MAX_BYTES })
+      : null;
+    res.json({
+      id: req.params.id,
+      host: req.dockerHost.name,
+      path: stat.path,
+      stat,
+      entries: listing ? listing.entries : null,
+      truncated: Boolean(listing && listing.truncated)
     });
   } catch (err) {
-    console.error('Failed to fetch container detail', err);
-    res.status(500).json({ message: 'Unable to fetch container detail', error: err.message });
+    sendDockerError(res, err, 'Unable to read container path');
   }
 });
 
+app.get('/api/containers/:id/fs/preview', auth.requireRole('operator'), resolveHost, checkFsPath, async (req, res) => {
+  try {
+    const container = req.dockerHost.docker.getContainer(req.params.id);
+    const stat = await resolvePath(container, req.fsPath);
+    if (stat.type !== 'file') {
+      res.status(400).json({ message: 'Cannot preview path', error: `${stat.path} is a ${stat.type}, not a file` });
+      return;
+    }
+    const preview = await readFilePreview(container, stat.path, FS_PREVIEW_MAX_BYTES);
+    res.json({ path: stat.path, size: stat.size, truncated: stat.size > FS_PREVIEW_MAX_BYTES, ...preview });
+  } catch (err) {
+    sendDockerError(res, err, 'Unable to preview file');
+  }
+});
+
+// Files download as themselves, directories as the tar Docker produces. File
+// contents are not redacted, so reading them is an audited operator action.
+app.get('/api/containers/:id/fs/download', auth.requireRole('operator'), resolveHost, checkFsPath, async (req, res) => {
+  try {
+    const container = req.dockerHost.docker.getContainer(req.params.id);
+    const stat = await resolvePath(container, req.fsPath);
+    const audit = () => auditLog.record('fs.download', {
+      user: req.user.username,
+      host: req.dockerHost.name,
+      container: req.params.id,
+      path: stat.path,
+      type: stat.type
+    });
+    if (stat.type === 'directory') {
+      audit();
+      const stream = await container.getArchive({ path: stat.path });
+      res.attachment(`${stat.name === '/' ? 'root' : stat.name}.tar`);
+      stream.on('error', (err) => res.destroy(err));
+      stream.pipe(res);
+      req.on('close', () => stream.destroy());
+      return;
+    }
+    if (stat.type !== 'file') {
+      res.status(400).json({ message: 'Cannot download path', error: `${stat.path} is a ${stat.type}` });
+      return;
+    }
+    audit();
+    res.attachment(stat.name);
+    res.set('Content-Length', String(stat.size));
+    await pipeFile(container, stat.path, res);
+    res.end();
+  } catch (err) {
+    if (res.headersSent) res.destroy(err);
+    else sendDockerError(res, err, 'Unable to download path');
+  }
+});
+
+// Uploads a single file (?name=) into the directory at ?path=. A body sent as
+// application/x-tar is extracted as-is instead.
+app.put('/api/containers/:id/fs', auth.requireRole('operator'), resolveHost, checkFsPath, readUpload, async (req, res) => {
+  const isTar = req.is('application/x-tar') === 'application/x-tar';
+  const name = req.query.name;
+  if (!Buffer.isBuffer(req.body)) {
+    res.status(400).json({ message: 'Invalid upload', error: 'Send the file contents as the request body' });
+    return;
+  }
+  if (!isTar && !(typeof name === 'string' && UPLOAD_NAME_PATTERN.test(name))) {
+    res.status(400).json({ message: 'Invalid upload', error: 'name must be a file name without slashes' });
+    return;
+  }
+  if (!isTar && Buffer.byteLength(name) > UPLOAD_NAME_MAX_BYTES) {
+    res.status(400).json({ message: 'Invalid upload', error: `name must be at most ${UPLOAD_NAME_MAX_BYTES} bytes` });
+    return;
+  }
+
+  try {
+    const container = req.dockerHost.docker.getContainer(req.params.id);
+    const stat = await resolvePath(container, req.fsPath);
+    if (stat.type !== 'directory') {
+      res.status(400).json({ message: 'Invalid upload', error: `${stat.path} is not a directory` });
+      return;
+    }
+    await container.putArchive(isTar ? req.body : buildTar([{ name, content: req.body }]), { path: stat.path });
+    auditLog.record('fs.upload', {
+      user: req.user.username,
+      host: req.dockerHost.name,
+      container: req.params.id,
+      path: stat.path,
+      name: isTar ? null : name,
+      size: req.body.length
+    });
+    res.json({
+      id: req.params.id,
+      host: req.dockerHost.name,
+      path: stat.path,
+      name: isTar ? null : name,
+      size: req.body.length
+    });
+  } catch (err) {
+    sendDockerError(res, err, 'Unable to upload file');
+  }
+});
+
+app.get('/api/containers/:id/changes', resolveHost, async (req, res) => {
+  try {
+    const changes = await req.dockerHost.docker.getContainer(req.params.id).changes();
+    res.json({
+      id: req.params.id,
+      host: req.dockerHost.name,
+      changes: formatChanges(changes),
+      fetchedAt: new Date().toISOString()
+    });
+  } catch (err) {
+    sendDockerError(res, err, 'Unable to list filesystem changes');
+  }
+});
+
+// Inventory routes accept an optional ?host= to look at a single Docker host.
+const checkHostFilter = (req, res, next) => {
+  const host = req.query.host || (req.body && req.body.host);
+  if (host && !hosts.get(host)) {
+    res.status(404).json({ message: 'Unknown Docker host', error: `Unknown Docker host "${host}"` });
+    return;
+  }
+  next();
+};
+
+['images', 'volumes', 'networks'].forEach((kind) => {
+  app.get(`/api/${kind}`, checkHostFilter, async (req, res) => {
+    try {
+      const { items, failures } = await inventory[kind](req.query.host);
+      res.json({ [kind]: items, failures, hosts: hosts.status(), fetchedAt: new Date().toISOString() });
+    } catch (err) {
+      sendDockerError(res, err, `Unable to list ${kind}`);
+    }
+  });
+});
+
+app.get('/api/system/df', checkHostFilter, async (req, res) => {
+  try {
+    res.json({ ...(await inventory.diskUsage(req.query.host)), fetchedAt: new Date().toISOString() });
+  } catch (err) {
+    sendDockerError(res, err, 'Unable to fetch disk usage');
+  }
+});
+
+app.post('/api/:kind/prune', auth.requireRole('operator'), checkHostFilter, async (req, res) => {
+  const { kind } = req.params;
+  if (!PRUNE_KINDS.includes(kind)) {
+    res.status(404).json({ message: 'Unknown prune target', error: `Cannot prune "${kind}"` });
+    return;
+  }
+  const body = req.body || {};
+  if (body.keys !== undefined && !(Array.isArray(body.keys) && body.keys.every((key) => typeof key === 'string'))) {
+    res.status(400).json({ message: 'Invalid prune request', error: '"keys" must be an array of strings' });
+    return;
+  }
+
+  try {
+    const result = await inventory.prune(kind, {
+      host: body.host,
+      all: body.all === true,
+      dryRun: body.dryRun !== false,
+      keys: body.keys || null
+    });
+    if (!result.dryRun) {
+      auditLog.record('inventory.prune', {
+        user: req.user.username,
+        host: body.host || null,
+        kind,
+        pruned: result.items.length,
+        failed: result.failed.length
+      });
+    }
+    res.json(result);
+  } catch (err) {
+    sendDockerError(res, err, `Unable to prune ${kind}`);
+  }
+});
+
+app.get('/api/events', (req, res) => {
+  const filters = {
+    container: req.query.container,
+    type: req.query.type,
+    action: req.query.action,
+    host: req.query.host,
+    since: parseTime(req.query.since)
+  };
+  const limit = Math.min(Number(req.query.limit) || 200, 1000);
+  const recent = events.recent(filters, limit);
+
+  if (!parseBoolean(req.query.follow)) {
+    res.json({ events: recent, fetchedAt: new Date().toISOString() });
+    return;
+  }
+
+  const send = startEventStream(res);
+  send('events', recent);
+  const unsubscribe = events.subscribe(filters, (event) => send('event', event));
+  req.on('close', unsubscribe);
+});
+
+app.get('/api/alerts', (req, res) => {
+  res.json({ enabled: alerts.enabled, ...alerts.summary() });
+});
+
+app.get('/api/hosts', async (req, res) => {
+  await Promise.all(hosts.hosts.map(hosts.check));
+  res.json({ hosts: hosts.status(), fetchedAt: new Date().toISOString() });
+});
+
+// Engine details and fleet totals for the header summary strip (optional ?host=).
+app.get('/api/host', checkHostFilter, async (req, res) => {
+  res.json({ ...(await overview.summary(req.query.host)), fetchedAt: new Date().toISOString() });
+});
+
+// Prometheus scrape endpoint. It sits outside /api so scrapers authenticate with
+// an API token; with auth on it needs a viewer unless METRICS_PUBLIC=true.
+const metricsLabels = splitList(process.env.METRICS_LABELS);
+const metricsGuard = process.env.METRICS_PUBLIC === 'true' ? (req, res, next) => next() : auth.requireRole('viewer');
+
+app.get('/metrics', metricsGuard, async (req, res) => {
+  // When every host failed there are no samples, but ctopweb_host_up still shows the outage.
+  const snapshot = await collector.latest();
+  res.type('text/plain; version=0.0.4; charset=utf-8').send(renderMetrics({
+    samples: snapshot ? snapshot.samples : [],
+    hosts: hosts.status(),
+    labelAllowlist: metricsLabels,
+    redactLabels: redaction.redactLabels,
+    durationMs: snapshot ? snapshot.durationMs : 0
+  }));
+});
+
 app.get('/health', (req, res) => {
   res.json({ ok: true, timestamp: new Date().toISOString() });
 });
 
-app.listen(PORT, () => {
+events.start();
+collector.start();
+history.load();
+sampleHistory();
+setInterval(sampleHistory, history.intervalMs);
+if (process.env.HISTORY_FILE) {
+  setInterval(history.save, 60 * 1000);
+  ['SIGINT', 'SIGTERM'].forEach((signal) => {
+    process.on(signal, () => {
+      history.save();
+      process.exit(0);
+    });
+  });
+}
+
+const server = app.listen(PORT, () => {
   console.log(`ctop web server listening on http://localhost:${PORT}`);
 });
+
+attachExecServer({
+  server,
+  resolveDocker: async (id, hostName) => (await hosts.locate(id, hostName)).docker,
+  authorize: (req) => originAllowed(req) && hasRole(auth.authenticateRequest(req), 'operator'),
+  enabled: process.env.EXEC_ENABLED === 'true',
+  command: process.env.EXEC_COMMAND || '/bin/sh',
+  allowedCommands: splitList(process.env.EXEC_ALLOWED_COMMANDS)
+});
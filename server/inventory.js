@@ -0,0 +1,251 @@
+const { errorMessage, sumBy } = require('./util');
+
+const BUILTIN_NETWORKS = ['bridge', 'host', 'none'];
+const ANONYMOUS_VOLUME = /^[0-9a-f]{64}$/;
+const PRUNE_KINDS = ['images', 'volumes', 'networks'];
+
+// Docker reports unknown sizes as -1.
+const size = (value) => (Number.isFinite(value) && value >= 0 ? value : null);
+
+const epochTime = (seconds) => (seconds ? new Date(seconds * 1000).toISOString() : null);
+
+const isoTime = (value) => {
+  const time = Date.parse(value || '');
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+};
+
+const containerRef = (info) => ({
+  id: info.Id,
+  name: info.Names && info.Names[0] ? info.Names[0].replace(/^\//, '') : info.Id.substring(0, 12),
+  state: info.State
+});
+
+// Indexes which containers (running or not) reference each image, volume and network.
+const usageIndex = (containers) => {
+  const images = new Map();
+  const volumes = new Map();
+  const networks = new Map();
+  const add = (map, key, ref) => {
+    if (!key) return;
+    if (!map.has(key)) map.set(key, []);
+    if (!map.get(key).some((item) => item.id === ref.id)) map.get(key).push(ref);
+  };
+
+  containers.forEach((info) => {
+    const ref = containerRef(info);
+    add(images, info.ImageID, ref);
+    (info.Mounts || []).forEach((mount) => {
+      if (mount.Type === 'volume') add(volumes, mount.Name, ref);
+    });
+    // Stopped containers often have no NetworkID, so index by name as well.
+    Object.entries((info.NetworkSettings && info.NetworkSettings.Networks) || {}).forEach(([name, network]) => {
+      add(networks, name, ref);
+      add(networks, network.NetworkID, ref);
+    });
+  });
+  return { images, volumes, networks };
+};
+
+const formatImage = (image, host, usage) => {
+  const tags = (image.RepoTags || []).filter((tag) => tag !== '<none>:<none>');
+  const containers = usage.images.get(image.Id) || [];
+  const sharedSize = size(image.SharedSize);
+  return {
+    id: image.Id,
+    host: host.name,
+    tags,
+    digests: (image.RepoDigests || []).filter((digest) => !digest.startsWith('<none>')),
+    size: size(image.Size),
+    sharedSize,
+    uniqueSize: sharedSize === null || size(image.Size) === null ? null : image.Size - sharedSize,
+    created: epochTime(image.Created),
+    containers,
+    dangling: tags.length === 0,
+    unused: containers.length === 0
+  };
+};
+
+const formatVolume = (volume, host, usage) => {
+  const containers = usage.volumes.get(volume.Name) || [];
+  const refCount = volume.UsageData ? volume.UsageData.RefCount : -1;
+  return {
+    name: volume.Name,
+    host: host.name,
+    driver: volume.Driver,
+    scope: volume.Scope,
+    mountpoint: volume.Mountpoint,
+    labels: volume.Labels || {},
+    size: volume.UsageData ? size(volume.UsageData.Size) : null,
+    created: isoTime(volume.CreatedAt),
+    containers,
+    anonymous: ANONYMOUS_VOLUME.test(volume.Name),
+    unused: containers.length === 0 && refCount <= 0
+  };
+};
+
+const formatNetwork = (network, host, usage) => {
+  const containers = [...(usage.networks.get(network.Id) || []), ...(usage.networks.get(network.Name) || [])]
+    .filter((ref, index, list) => list.findIndex((item) => item.id === ref.id) === index);
+  const builtin = BUILTIN_NETWORKS.includes(network.Name) || network.Scope === 'swarm';
+  return {
+    id: network.Id,
+    host: host.name,
+    name: network.Name,
+    driver: network.Driver,
+    scope: network.Scope,
+    internal: Boolean(network.Internal),
+    subnets: ((network.IPAM && network.IPAM.Config) || []).map((config) => config.Subnet).filter(Boolean),
+    created: isoTime(network.Created),
+    containers,
+    builtin,
+    unused: !builtin && containers.length === 0
+  };
+};
+
+// Mirrors `docker system df`: totals per resource type plus what a prune could reclaim.
+const formatDiskUsage = (df, host) => {
+  const images = df.Images || [];
+  const containers = df.Containers || [];
+  const volumes = df.Volumes || [];
+  const buildCache = df.BuildCache || [];
+  const imageSize = size(df.LayersSize) !== null ? df.LayersSize : sumBy(images, (image) => size(image.Size));
+  const imageUsed = sumBy(images.filter((image) => image.Containers > 0), (image) => (
+    size(image.Size) === null || size(image.SharedSize) === null ? 0 : image.Size - image.SharedSize
+  ));
+  const volumeSize = (volume) => (volume.UsageData ? size(volume.UsageData.Size) : null);
+
+  return {
+    host: host.name,
+    images: {
+      total: images.length,
+      active: images.filter((image) => image.Containers > 0).length,
+      size: imageSize,
+      reclaimable: Math.max(imageSize - imageUsed, 0)
+    },
+    containers: {
+      total: containers.length,
+      active: containers.filter((container) => container.State === 'running').length,
+      size: sumBy(containers, (container) => size(container.SizeRw)),
+      reclaimable: sumBy(containers.filter((container) => container.State !== 'running'), (container) => size(container.SizeRw))
+    },
+    volumes: {
+      total: volumes.length,
+      active: volumes.filter((volume) => volume.UsageData && volume.UsageData.RefCount > 0).length,
+      size: sumBy(volumes, volumeSize),
+      reclaimable: sumBy(volumes.filter((volume) => !volume.UsageData || volume.UsageData.RefCount <= 0), volumeSize)
+    },
+    buildCache: {
+      total: buildCache.length,
+      active: buildCache.filter((entry) => entry.InUse).length,
+      size: sumBy(buildCache, (entry) => size(entry.Size)),
+      reclaimable: sumBy(buildCache.filter((entry) => !entry.InUse && !entry.Shared), (entry) => size(entry.Size))
+    }
+  };
+};
+
+const addTotals = (summaries) => ['images', 'containers', 'volumes', 'buildCache'].reduce((totals, key) => {
+  totals[key] = ['total', 'active', 'size', 'reclaimable'].reduce((entry, field) => {
+    entry[field] = sumBy(summaries, (summary) => summary[key][field]);
+    return entry;
+  }, {});
+  return totals;
+}, {});
+
+// Lists images, volumes and networks across hosts. Like hosts.listAll, a host
+// that fails is reported in `failures` instead of failing the whole request.
+const createInventory = ({ hosts }) => {
+  const targets = (hostName) => {
+    if (!hostName) return hosts.hosts;
+    const host = hosts.get(hostName);
+    if (!host) throw new Error(`Unknown Docker host "${hostName}"`);
+    return [host];
+  };
+
+  const perHost = async (hostName, load) => {
+    const results = await Promise.all(targets(hostName).map(async (host) => {
+      try {
+        return { host, items: await load(host) };
+      } catch (err) {
+        return { host, error: err };
+      }
+    }));
+    const failures = results.filter((result) => result.error);
+    if (failures.length && failures.length === results.length) throw failures[0].error;
+    return {
+      items: results.filter((result) => !result.error).flatMap((result) => result.items),
+      failures: failures.map(({ host, error }) => ({ host: host.name, error: errorMessage(error) }))
+    };
+  };
+
+  const usageFor = async (host) => usageIndex(await host.docker.listContainers({ all: true }));
+
+  const loadImages = async (host) => {
+    const [images, usage] = await Promise.all([host.docker.listImages({ 'shared-size': true }), usageFor(host)]);
+    return images.map((image) => formatImage(image, host, usage));
+  };
+
+  // Volume sizes are only reported by the disk usage endpoint.
+  const loadVolumes = async (host) => {
+    const [df, usage] = await Promise.all([host.docker.df(), usageFor(host)]);
+    return (df.Volumes || []).map((volume) => formatVolume(volume, host, usage));
+  };
+
+  const loadNetworks = async (host) => {
+    const [networks, usage] = await Promise.all([host.docker.listNetworks(), usageFor(host)]);
+    return networks.map((network) => formatNetwork(network, host, usage));
+  };
+
+  const images = (hostName) => perHost(hostName, loadImages);
+  const volumes = (hostName) => perHost(hostName, loadVolumes);
+  const networks = (hostName) => perHost(hostName, loadNetworks);
+
+  const diskUsage = async (hostName) => {
+    const { items, failures } = await perHost(hostName, async (host) => [formatDiskUsage(await host.docker.df(), host)]);
+    return { hosts: items, totals: addTotals(items), failures };
+  };
+
+  // Prune candidates match Docker's own prune rules, except that volumes used
+  // only by stopped containers and networks referenced by stopped containers
+  // are kept. `all` extends the volume prune to named volumes.
+  const candidates = {
+    images: async (hostName) => (await images(hostName)).items.filter((image) => image.dangling && image.unused),
+    volumes: async (hostName, { all }) => (await volumes(hostName)).items
+      .filter((volume) => volume.unused && (all || volume.anonymous)),
+    networks: async (hostName) => (await networks(hostName)).items.filter((network) => network.unused)
+  };
+
+  const removeItem = {
+    images: (host, item) => host.docker.getImage(item.id).remove(),
+    volumes: (host, item) => host.docker.getVolume(item.name).remove(),
+    networks: (host, item) => host.docker.getNetwork(item.id).remove()
+  };
+
+  const itemKey = (kind, item) => `${item.host}/${kind === 'volumes' ? item.name : item.id}`;
+
+  // With `dryRun` only reports what would be removed. Otherwise removes the
+  // current candidates one by one, limited to `keys` (from a previous dry run)
+  // when given, so nothing is removed that the user did not preview.
+  const prune = async (kind, { host: hostName, all = false, dryRun = true, keys = null } = {}) => {
+    let items = await candidates[kind](hostName, { all });
+    if (keys) items = items.filter((item) => keys.includes(itemKey(kind, item)));
+    const entries = items.map((item) => ({ key: itemKey(kind, item), item }));
+    const reclaimable = sumBy(items, (item) => item.size);
+    if (dryRun) return { kind, dryRun: true, items: entries, reclaimableBytes: reclaimable };
+
+    const removed = [];
+    const failed = [];
+    for (const entry of entries) {
+      try {
+        await removeItem[kind](hosts.get(entry.item.host), entry.item);
+        removed.push(entry);
+      } catch (err) {
+        failed.push({ ...entry, error: errorMessage(err) });
+      }
+    }
+    return { kind, dryRun: false, items: removed, failed, reclaimedBytes: sumBy(removed, ({ item }) => item.size) };
+  };
+
+  return { images, volumes, networks, diskUsage, prune };
+};
+
+module.exports = { BUILTIN_NETWORKS, createInventory, formatDiskUsage, PRUNE_KINDS };
@@ -0,0 +1,62 @@
+const { StringDecoder } = require('string_decoder');
+
+// Docker multiplexes stdout/stderr for non-TTY containers into frames with an
+// 8-byte header: [stream type, 0, 0, 0, payload size (uint32 BE)].
+const FRAME_HEADER_SIZE = 8;
+const STDERR = 2;
+
+const splitTimestamp = (text, timestamps) => {
+  if (!timestamps) return { timestamp: null, text };
+  const idx = text.indexOf(' ');
+  if (idx === -1) return { timestamp: text || null, text: '' };
+  return { timestamp: text.slice(0, idx), text: text.slice(idx + 1) };
+};
+
+const createLogParser = ({ tty = false, timestamps = false } = {}) => {
+  let buffer = Buffer.alloc(0);
+  const streams = {
+    stdout: { decoder: new StringDecoder('utf8'), partial: '' },
+    stderr: { decoder: new StringDecoder('utf8'), partial: '' }
+  };
+
+  const toLine = (stream, raw) => ({ stream, ...splitTimestamp(raw.replace(/\r$/, ''), timestamps) });
+
+  const collect = (stream, bytes, out) => {
+    const state = streams[stream];
+    const lines = (state.partial + state.decoder.write(bytes)).split('\n');
+    state.partial = lines.pop();
+    lines.forEach((line) => out.push(toLine(stream, line)));
+  };
+
+  const push = (chunk) => {
+    const out = [];
+    if (tty) {
+      collect('stdout', chunk, out);
+      return out;
+    }
+
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+    while (buffer.length >= FRAME_HEADER_SIZE) {
+      const size = buffer.readUInt32BE(4);
+      if (buffer.length < FRAME_HEADER_SIZE + size) break;
+      const stream = buffer[0] === STDERR ? 'stderr' : 'stdout';
+      collect(stream, buffer.subarray(FRAME_HEADER_SIZE, FRAME_HEADER_SIZE + size), out);
+      buffer = buffer.subarray(FRAME_HEADER_SIZE + size);
+    }
+    return out;
+  };
+
+  const flush = () => {
+    const out = [];
+    Object.entries(streams).forEach(([stream, state]) => {
+      const rest = state.partial + state.decoder.end();
+      if (rest) out.push(toLine(stream, rest));
+      state.partial = '';
+    });
+    return out;
+  };
+
+  return { push, flush };
+};
+
+module.exports = { createLogParser };
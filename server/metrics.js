@@ -0,0 +1,310 @@
+const formatBytes = (bytes) => {
+  if (!bytes && bytes !== 0) return '-';
+  if (bytes === 0) return '0B';
+  const units = ['B', 'K', 'M', 'G', 'T'];
+  const k = 1024;
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  const value = bytes / Math.pow(k, i);
+  return `${value.toFixed(value >= 10 || i === 0 ? 0 : 1)}${units[i]}`;
+};
+
+const formatDuration = (start) => {
+  if (!start) return '-';
+  const startTime = new Date(start).getTime();
+  if (Number.isNaN(startTime)) return '-';
+  const diff = Date.now() - startTime;
+  if (diff < 0) return '-';
+  const seconds = Math.floor(diff / 1000);
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (days > 0) return `${days}d${hours}h${minutes}m`;
+  if (hours > 0) return `${hours}h${minutes}m${secs}s`;
+  if (minutes > 0) return `${minutes}m${secs}s`;
+  return `${secs}s`;
+};
+
+const cpuPercent = (stats) => {
+  if (!stats || !stats.precpu_stats || !stats.cpu_stats) return 0;
+  const cpuDelta = stats.cpu_stats.cpu_usage.total_usage - stats.precpu_stats.cpu_usage.total_usage;
+  const systemDelta = stats.cpu_stats.system_cpu_usage - stats.precpu_stats.system_cpu_usage;
+  const cores = stats.cpu_stats.online_cpus || (stats.cpu_stats.cpu_usage.percpu_usage ? stats.cpu_stats.cpu_usage.percpu_usage.length : 1);
+  if (cpuDelta > 0 && systemDelta > 0) {
+    return (cpuDelta / systemDelta) * cores * 100;
+  }
+  return 0;
+};
+
+// cgroup v1 reports page cache as `cache`/`total_inactive_file`; cgroup v2 has
+// `anon`/`file`/`inactive_file` instead. Usage excludes reclaimable inactive file
+// pages the same way `docker stats` does.
+const memoryUsage = (stats) => {
+  if (!stats || !stats.memory_stats || stats.memory_stats.usage === undefined) {
+    return { usage: 0, limit: 0, percent: 0, rss: 0, cache: 0, swap: null };
+  }
+  const raw = stats.memory_stats.stats || {};
+  const cgroupV2 = raw.anon !== undefined || (raw.inactive_file !== undefined && raw.cache === undefined);
+  const inactive = cgroupV2 ? raw.inactive_file : (raw.total_inactive_file !== undefined ? raw.total_inactive_file : raw.cache);
+  const total = stats.memory_stats.usage || 0;
+  const usage = inactive && inactive < total ? total - inactive : total;
+  const limit = stats.memory_stats.limit || 0;
+  const percent = limit ? (usage / limit) * 100 : 0;
+  const rss = cgroupV2 ? raw.anon || 0 : raw.total_rss !== undefined ? raw.total_rss : raw.rss || 0;
+  const cache = cgroupV2 ? raw.file || 0 : raw.total_cache !== undefined ? raw.total_cache : raw.cache || 0;
+  const swapRaw = cgroupV2 ? raw.swap : raw.total_swap !== undefined ? raw.total_swap : raw.swap;
+  return { usage, limit, percent, rss, cache, swap: swapRaw === undefined ? null : swapRaw };
+};
+
+// Per-core usage in percent of one core. cgroup v2 does not expose per-CPU
+// counters, so this is empty there.
+const perCpuPercent = (stats) => {
+  if (!stats || !stats.cpu_stats || !stats.precpu_stats) return [];
+  const current = stats.cpu_stats.cpu_usage.percpu_usage;
+  const previous = stats.precpu_stats.cpu_usage && stats.precpu_stats.cpu_usage.percpu_usage;
+  const systemDelta = stats.cpu_stats.system_cpu_usage - stats.precpu_stats.system_cpu_usage;
+  if (!Array.isArray(current) || !Array.isArray(previous) || !(systemDelta > 0)) return [];
+  const cores = stats.cpu_stats.online_cpus || current.length;
+  return current.slice(0, cores).map((value, index) => {
+    const delta = value - (previous[index] || 0);
+    return delta > 0 ? Number(((delta / systemDelta) * cores * 100).toFixed(1)) : 0;
+  });
+};
+
+const networkIO = (stats) => {
+  if (!stats || !stats.networks) return { rx: 0, tx: 0 };
+  return Object.values(stats.networks).reduce(
+    (acc, nic) => ({ rx: acc.rx + (nic.rx_bytes || 0), tx: acc.tx + (nic.tx_bytes || 0) }),
+    { rx: 0, tx: 0 }
+  );
+};
+
+const blockIO = (stats) => {
+  if (!stats || !stats.blkio_stats || !Array.isArray(stats.blkio_stats.io_service_bytes_recursive)) {
+    return { read: 0, write: 0 };
+  }
+  return stats.blkio_stats.io_service_bytes_recursive.reduce((acc, entry) => {
+    if (entry.op === 'Read') acc.read += entry.value;
+    if (entry.op === 'Write') acc.write += entry.value;
+    return acc;
+  }, { read: 0, write: 0 });
+};
+
+// Turns cumulative network/block counters into bytes per second between
+// consecutive samples of the same container. A counter that went backwards
+// (the container restarted) counts from zero, like Prometheus' rate().
+const createRateTracker = () => {
+  const previous = new Map();
+
+  const perSecond = (current, last, elapsed) => {
+    const delta = current >= last ? current - last : current;
+    return delta / elapsed;
+  };
+
+  const update = (id, time, counters) => {
+    const last = previous.get(id);
+    if (last && time === last.time) return last.rates;
+    let rates = { rx: 0, tx: 0, read: 0, write: 0 };
+    if (last && time > last.time) {
+      const elapsed = (time - last.time) / 1000;
+      rates = {
+        rx: perSecond(counters.rx, last.counters.rx, elapsed),
+        tx: perSecond(counters.tx, last.counters.tx, elapsed),
+        read: perSecond(counters.read, last.counters.read, elapsed),
+        write: perSecond(counters.write, last.counters.write, elapsed)
+      };
+    }
+    previous.set(id, { time, counters, rates });
+    return rates;
+  };
+
+  const forget = (keepIds) => {
+    previous.forEach((value, id) => {
+      if (!keepIds.has(id)) previous.delete(id);
+    });
+  };
+
+  return { update, forget };
+};
+
+const formatPorts = (ports) => {
+  if (!ports || ports.length === 0) return '-';
+  return ports
+    .map((port) => {
+      const proto = port.Type ? port.Type.toLowerCase() : 'tcp';
+      const container = `${port.PrivatePort}/${proto}`;
+      if (port.PublicPort) {
+        const host = port.IP && port.IP !== '0.0.0.0' ? port.IP : '0.0.0.0';
+        return `${host}:${port.PublicPort} -> ${container}`;
+      }
+      return container;
+    })
+    .join(', ');
+};
+
+const formatNetworks = (networkSettings) => {
+  if (!networkSettings || !networkSettings.Networks) return '-';
+  const entries = Object.entries(networkSettings.Networks).map(([name, info]) => `${name}:${info.IPAddress || '0.0.0.0'}`);
+  return entries.length ? entries.join(', ') : '-';
+};
+
+const formatPortsFromInspect = (portMap) => {
+  if (!portMap || Object.keys(portMap).length === 0) return '-';
+  const entries = Object.entries(portMap).flatMap(([containerPort, bindings]) => {
+    if (!bindings || bindings.length === 0) {
+      return containerPort;
+    }
+    return bindings.map((binding) => {
+      const host = binding.HostIp && binding.HostIp !== '' ? binding.HostIp : '0.0.0.0';
+      return `${host}:${binding.HostPort} -> ${containerPort}`;
+    });
+  });
+  return entries.length ? entries.join(', ') : '-';
+};
+
+const containerState = (inspectData) => {
+  if (!inspectData || !inspectData.State) return 'unknown';
+  if (inspectData.State.Paused) return 'paused';
+  if (inspectData.State.Restarting) return 'restarting';
+  if (inspectData.State.Running) return 'running';
+  return 'stopped';
+};
+
+const formatEnvVars = (envList) => {
+  if (!Array.isArray(envList)) return [];
+  return envList.map((entry) => {
+    const idx = entry.indexOf('=');
+    if (idx === -1) return { key: entry, value: '' };
+    return { key: entry.slice(0, idx), value: entry.slice(idx + 1) };
+  });
+};
+
+const HEALTH_OUTPUT_LIMIT = 4096;
+
+// Docker reports healthcheck durations in nanoseconds; 0 means "use the default".
+const nanosToMs = (value) => (value ? Math.round(value / 1e6) : null);
+
+// Splits Config.Healthcheck.Test (["CMD", ...], ["CMD-SHELL", "cmd"] or ["NONE"])
+// into its type and arguments. Shell commands are split on whitespace so the
+// same argument redaction applies to them.
+const formatHealthTest = (test) => {
+  if (!Array.isArray(test) || !test.length) return null;
+  const [type, ...rest] = test;
+  if (type === 'CMD-SHELL') return { type, args: rest.join(' ').split(/\s+/).filter(Boolean) };
+  if (type === 'CMD' || type === 'NONE') return { type, args: rest };
+  return { type: 'CMD', args: test };
+};
+
+const formatHealth = (health, healthcheck) => {
+  const test = formatHealthTest(healthcheck && healthcheck.Test);
+  if (!health && !test) return null;
+  return {
+    status: (health && health.Status) || 'none',
+    failingStreak: (health && health.FailingStreak) || 0,
+    probes: ((health && health.Log) || []).map((probe) => ({
+      start: probe.Start || null,
+      end: probe.End || null,
+      exitCode: probe.ExitCode,
+      output: (probe.Output || '').slice(-HEALTH_OUTPUT_LIMIT)
+    })).reverse(),
+    config: healthcheck ? {
+      test,
+      intervalMs: nanosToMs(healthcheck.Interval),
+      timeoutMs: nanosToMs(healthcheck.Timeout),
+      startPeriodMs: nanosToMs(healthcheck.StartPeriod),
+      startIntervalMs: nanosToMs(healthcheck.StartInterval),
+      retries: healthcheck.Retries || null
+    } : null
+  };
+};
+
+const containerPayload = (containerInfo, inspectInfo, stats, host, rateTracker = null) => {
+  const cpu = cpuPercent(stats);
+  const mem = memoryUsage(stats);
+  const net = networkIO(stats);
+  const blk = blockIO(stats);
+  const sampledAt = stats && stats.read ? Date.parse(stats.read) : NaN;
+  const rates = rateTracker && stats && !Number.isNaN(sampledAt)
+    ? rateTracker.update(containerInfo.Id, sampledAt, { rx: net.rx, tx: net.tx, read: blk.read, write: blk.write })
+    : { rx: 0, tx: 0, read: 0, write: 0 };
+  const pids = (stats && stats.pids_stats && stats.pids_stats.current) || (inspectInfo && inspectInfo.State && inspectInfo.State.Pid) || 0;
+  const uptime = inspectInfo ? formatDuration(inspectInfo.State && inspectInfo.State.StartedAt) : '-';
+  const networks = inspectInfo ? formatNetworks(inspectInfo.NetworkSettings) : '-';
+
+  return {
+    id: containerInfo.Id,
+    host,
+    name: (containerInfo.Names && containerInfo.Names[0]) ? containerInfo.Names[0].replace(/^\//, '') : containerInfo.Id.substring(0, 12),
+    image: containerInfo.Image,
+    state: containerState(inspectInfo),
+    health: (inspectInfo && inspectInfo.State && inspectInfo.State.Health && inspectInfo.State.Health.Status) || null,
+    ports: formatPorts(containerInfo.Ports),
+    networks,
+    cpu: Number(cpu.toFixed(1)),
+    memory: {
+      usage: formatBytes(mem.usage),
+      limit: formatBytes(mem.limit),
+      percent: Number(mem.percent.toFixed(1))
+    },
+    memoryBytes: {
+      usage: mem.usage,
+      limit: mem.limit,
+      rss: mem.rss,
+      cache: mem.cache,
+      swap: mem.swap
+    },
+    cpuPerCore: perCpuPercent(stats),
+    netIO: {
+      rx: formatBytes(net.rx),
+      tx: formatBytes(net.tx)
+    },
+    netIOBytes: {
+      rx: net.rx,
+      tx: net.tx
+    },
+    netRate: {
+      rx: Math.round(rates.rx),
+      tx: Math.round(rates.tx)
+    },
+    blockIO: {
+      read: formatBytes(blk.read),
+      write: formatBytes(blk.write)
+    },
+    blockIOBytes: {
+      read: blk.read,
+      write: blk.write
+    },
+    blockRate: {
+      read: Math.round(rates.read),
+      write: Math.round(rates.write)
+    },
+    pids,
+    uptime,
+    startedAt: inspectInfo && inspectInfo.State && inspectInfo.State.Running ? inspectInfo.State.StartedAt : null,
+    restartCount: (inspectInfo && inspectInfo.RestartCount) || 0,
+    exitCode: inspectInfo && inspectInfo.State && !inspectInfo.State.Running ? inspectInfo.State.ExitCode : null,
+    labels: containerInfo.Labels || {},
+    raw: {
+      shortId: containerInfo.Id.substring(0, 12)
+    }
+  };
+};
+
+module.exports = {
+  formatBytes,
+  formatDuration,
+  cpuPercent,
+  memoryUsage,
+  perCpuPercent,
+  networkIO,
+  blockIO,
+  createRateTracker,
+  formatPorts,
+  formatNetworks,
+  formatPortsFromInspect,
+  containerState,
+  formatEnvVars,
+  formatHealth,
+  containerPayload
+};
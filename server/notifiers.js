@@ -0,0 +1,67 @@
+const nodemailer = require('nodemailer');
+
+const summary = (event) => {
+  const where = event.container.host ? `${event.container.name} (${event.container.host})` : event.container.name;
+  return `[${event.status.toUpperCase()}] ${event.rule} on ${where}: ${event.message}`;
+};
+
+const postJson = async (url, body, headers = {}) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status} from ${new URL(url).host}`);
+};
+
+// Generic webhook: POSTs the alert event as JSON.
+const webhookNotifier = ({ url, headers }) => (event) => postJson(url, event, headers);
+
+// Slack-compatible incoming webhook (also understood by Mattermost and Rocket.Chat).
+const slackNotifier = ({ url, channel, username }) => (event) => postJson(url, {
+  channel,
+  username: username || 'ctop-web',
+  text: summary(event),
+  attachments: [{
+    color: event.status === 'firing' ? (event.severity === 'critical' ? 'danger' : 'warning') : 'good',
+    fields: [
+      { title: 'Container', value: event.container.name, short: true },
+      { title: 'Severity', value: event.severity, short: true },
+      { title: 'Value', value: String(event.value), short: true },
+      { title: 'Since', value: event.startedAt, short: true }
+    ]
+  }]
+});
+
+const smtpNotifier = ({ host, port, secure, user, pass, from, to }) => {
+  const transport = nodemailer.createTransport({
+    host,
+    port: Number(port) || (secure ? 465 : 587),
+    secure: Boolean(secure),
+    auth: user ? { user, pass } : undefined
+  });
+  return (event) => transport.sendMail({
+    from: from || user,
+    to: Array.isArray(to) ? to.join(', ') : to,
+    subject: summary(event),
+    text: `${summary(event)}\n\n${JSON.stringify(event, null, 2)}`
+  });
+};
+
+const NOTIFIER_TYPES = { webhook: webhookNotifier, slack: slackNotifier, smtp: smtpNotifier };
+
+const createNotifier = (config) => {
+  const factory = NOTIFIER_TYPES[config.type];
+  if (!factory) throw new Error(`Unknown notifier type "${config.type}"`);
+  const send = factory(config);
+  const name = config.name || config.type;
+  return {
+    name,
+    // Notification failures are logged and never interrupt rule evaluation.
+    notify: (event) => Promise.resolve()
+      .then(() => send(event))
+      .catch((err) => console.error(`Alert notifier ${name} failed`, err.message))
+  };
+};
+
+module.exports = { createNotifier };
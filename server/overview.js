@@ -0,0 +1,106 @@
+const { formatDiskUsage } = require('./inventory');
+const { errorMessage, sumBy } = require('./util');
+
+// Picks the fields the header shows from `docker info` and `docker version`.
+const formatEngine = (info = {}, version = {}) => ({
+  name: info.Name || null,
+  version: version.Version || info.ServerVersion || null,
+  apiVersion: version.ApiVersion || null,
+  os: info.OperatingSystem || null,
+  osType: info.OSType || version.Os || null,
+  kernel: info.KernelVersion || version.KernelVersion || null,
+  architecture: info.Architecture || version.Arch || null,
+  cgroupDriver: info.CgroupDriver || null,
+  cgroupVersion: info.CgroupVersion || null,
+  storageDriver: info.Driver || null,
+  cpus: info.NCPU || 0,
+  memoryBytes: info.MemTotal || 0
+});
+
+// Adds up container payloads from the collector snapshot. CPU is in `docker stats`
+// percent (100 per core), so capacity is the host's core count times 100.
+const fleetTotals = (containers, { cpus = 0, memoryBytes = 0 } = {}) => {
+  const count = (predicate) => containers.filter(predicate).length;
+  const cpuPercent = sumBy(containers, (container) => container.cpu);
+  const memoryUsed = sumBy(containers, (container) => container.memoryBytes && container.memoryBytes.usage);
+  return {
+    containers: containers.length,
+    running: count((container) => container.state === 'running'),
+    paused: count((container) => container.state === 'paused'),
+    restarting: count((container) => container.state === 'restarting'),
+    stopped: count((container) => container.state === 'stopped'),
+    unhealthy: count((container) => container.health === 'unhealthy'),
+    cpuPercent: Number(cpuPercent.toFixed(1)),
+    cpuCapacity: cpus * 100,
+    cpuShare: cpus ? Number((cpuPercent / cpus).toFixed(1)) : null,
+    memoryUsed,
+    memoryTotal: memoryBytes,
+    memoryShare: memoryBytes ? Number(((memoryUsed / memoryBytes) * 100).toFixed(1)) : null,
+    netRate: {
+      rx: sumBy(containers, (container) => container.netRate && container.netRate.rx),
+      tx: sumBy(containers, (container) => container.netRate && container.netRate.tx)
+    },
+    blockRate: {
+      read: sumBy(containers, (container) => container.blockRate && container.blockRate.read),
+      write: sumBy(containers, (container) => container.blockRate && container.blockRate.write)
+    }
+  };
+};
+
+// Builds the header summary: per-host engine details and disk usage from the
+// daemon, plus fleet totals from the collector's latest snapshot. A host whose
+// daemon calls fail still reports its fleet totals, with `error` set. Engine
+// details change rarely and `docker system df` is slow, so each host's answer is
+// shared by every request for `engineTtlMs`; failures are retried on the next one.
+const createOverview = ({ hosts, collector, engineTtlMs = 60 * 1000 }) => {
+  const engines = new Map();
+
+  const fetchEngine = async (host) => {
+    try {
+      const [info, version, df] = await Promise.all([host.docker.info(), host.docker.version(), host.docker.df()]);
+      return { engine: formatEngine(info, version), disk: formatDiskUsage(df, host), error: null };
+    } catch (err) {
+      return { engine: null, disk: null, error: errorMessage(err) };
+    }
+  };
+
+  const loadEngine = (host) => {
+    const cached = engines.get(host.name);
+    if (cached && Date.now() - cached.at < engineTtlMs) return cached.result;
+    const result = fetchEngine(host).then((entry) => {
+      if (entry.error && engines.get(host.name) === pending) engines.delete(host.name);
+      return entry;
+    });
+    const pending = { at: Date.now(), result };
+    engines.set(host.name, pending);
+    return result;
+  };
+
+  const summary = async (hostName) => {
+    const targets = hostName ? [hosts.get(hostName)].filter(Boolean) : hosts.hosts;
+    const [snapshot, details] = await Promise.all([collector.latest(), Promise.all(targets.map(loadEngine))]);
+    const containers = snapshot ? snapshot.containers : [];
+
+    const entries = targets.map((host, index) => {
+      const { engine, disk, error } = details[index];
+      const own = containers.filter((container) => container.host === host.name);
+      return { host: host.name, engine, disk, fleet: fleetTotals(own, engine || {}), error };
+    });
+    const reachable = entries.filter((entry) => entry.engine);
+    const capacity = {
+      cpus: sumBy(reachable, (entry) => entry.engine.cpus),
+      memoryBytes: sumBy(reachable, (entry) => entry.engine.memoryBytes)
+    };
+    const selected = containers.filter((container) => targets.some((host) => host.name === container.host));
+
+    return {
+      hosts: entries,
+      totals: { ...capacity, fleet: fleetTotals(selected, capacity) },
+      collectedAt: snapshot ? snapshot.collectedAt : null
+    };
+  };
+
+  return { summary };
+};
+
+module.exports = { createOverview, fleetTotals, formatEngine };
@@ -0,0 +1,91 @@
+const { cpuPercent, memoryUsage, networkIO, blockIO, containerState } = require('./metrics');
+
+const PREFIX = 'ctopweb';
+const STATES = ['running', 'paused', 'restarting', 'stopped', 'unknown'];
+const HEALTH_STATES = ['healthy', 'unhealthy', 'starting', 'none'];
+const COMPOSE_PROJECT_LABEL = 'com.docker.compose.project';
+
+const METRICS = [
+  ['container_cpu_percent', 'gauge', 'CPU usage as a percentage of one core, summed over cores.'],
+  ['container_cpu_seconds_total', 'counter', 'Cumulative CPU time consumed in seconds.'],
+  ['container_memory_usage_bytes', 'gauge', 'Memory usage in bytes, excluding page cache.'],
+  ['container_memory_limit_bytes', 'gauge', 'Memory limit in bytes.'],
+  ['container_network_receive_bytes_total', 'counter', 'Bytes received over all interfaces.'],
+  ['container_network_transmit_bytes_total', 'counter', 'Bytes transmitted over all interfaces.'],
+  ['container_block_read_bytes_total', 'counter', 'Bytes read from block devices.'],
+  ['container_block_write_bytes_total', 'counter', 'Bytes written to block devices.'],
+  ['container_pids', 'gauge', 'Number of processes in the container.'],
+  ['container_restarts_total', 'counter', 'Number of times Docker restarted the container.'],
+  ['container_state', 'gauge', 'Container state; 1 for the current state, 0 otherwise.'],
+  ['container_health_status', 'gauge', 'Health check status; 1 for the current status, 0 otherwise.'],
+  ['host_up', 'gauge', 'Whether the Docker host answered the last request.'],
+  ['collection_duration_seconds', 'gauge', 'Time the last background collection took.']
+];
+
+const escapeValue = (value) => String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const labelName = (key) => `container_label_${key.replace(/[^a-zA-Z0-9_]/g, '_')}`;
+
+const formatLabels = (labels) => {
+  const entries = Object.entries(labels);
+  if (!entries.length) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeValue(value)}"`).join(',')}}`;
+};
+
+const formatNumber = (value) => (Number.isFinite(value) ? String(value) : '0');
+
+// Renders the Prometheus text exposition format from raw samples
+// ({ host, info, inspect, stats }). Only container labels named in
+// `labelAllowlist` become Prometheus labels, to keep cardinality bounded.
+const renderMetrics = ({ samples, hosts, labelAllowlist = [], redactLabels = (labels) => labels, durationMs = 0 }) => {
+  const series = new Map(METRICS.map(([name]) => [name, []]));
+  const add = (name, labels, value) => series.get(name).push(`${PREFIX}_${name}${formatLabels(labels)} ${formatNumber(value)}`);
+
+  samples.forEach(({ host, info, inspect, stats }) => {
+    const containerLabels = redactLabels(info.Labels || {});
+    const labels = {
+      name: (info.Names && info.Names[0] ? info.Names[0].replace(/^\//, '') : info.Id.substring(0, 12)),
+      id: info.Id,
+      image: info.Image,
+      compose_project: containerLabels[COMPOSE_PROJECT_LABEL] || '',
+      host: host.name
+    };
+    labelAllowlist.forEach((key) => {
+      labels[labelName(key)] = containerLabels[key] || '';
+    });
+
+    const mem = memoryUsage(stats);
+    const net = networkIO(stats);
+    const blk = blockIO(stats);
+    const cpuTotal = stats && stats.cpu_stats && stats.cpu_stats.cpu_usage ? stats.cpu_stats.cpu_usage.total_usage : 0;
+    const state = containerState(inspect);
+    const health = (inspect && inspect.State && inspect.State.Health && inspect.State.Health.Status) || 'none';
+
+    add('container_cpu_percent', labels, cpuPercent(stats));
+    add('container_cpu_seconds_total', labels, cpuTotal / 1e9);
+    add('container_memory_usage_bytes', labels, mem.usage);
+    add('container_memory_limit_bytes', labels, mem.limit);
+    add('container_network_receive_bytes_total', labels, net.rx);
+    add('container_network_transmit_bytes_total', labels, net.tx);
+    add('container_block_read_bytes_total', labels, blk.read);
+    add('container_block_write_bytes_total', labels, blk.write);
+    add('container_pids', labels, (stats && stats.pids_stats && stats.pids_stats.current) || 0);
+    add('container_restarts_total', labels, (inspect && inspect.RestartCount) || 0);
+    STATES.forEach((value) => add('container_state', { ...labels, state: value }, value === state ? 1 : 0));
+    HEALTH_STATES.forEach((value) => add('container_health_status', { ...labels, status: value }, value === health ? 1 : 0));
+  });
+
+  hosts.forEach((host) => add('host_up', { host: host.name }, host.ok ? 1 : 0));
+  add('collection_duration_seconds', {}, durationMs / 1000);
+
+  return METRICS
+    .filter(([name]) => series.get(name).length)
+    .map(([name, type, help]) => [
+      `# HELP ${PREFIX}_${name} ${help}`,
+      `# TYPE ${PREFIX}_${name} ${type}`,
+      ...series.get(name)
+    ].join('\n'))
+    .join('\n') + '\n';
+};
+
+module.exports = { renderMetrics };
@@ -0,0 +1,204 @@
+// Filter query language shared (in spirit) with client/src/query.ts; keep the two in sync.
+//
+//   state:running cpu>50 mem>=80% image:nginx* label:team=payments port:443
+//   health:unhealthy host:edge-1 -state:stopped (name:api* OR name:web*)
+//
+// Terms are ANDed, `OR` (or `|`) separates alternatives, `-`/`!` negates and
+// parentheses group. Words without a field match name, short id and networks.
+
+const { compileGlob } = require('./glob');
+const { SIZE_UNITS } = require('./util');
+
+const TEXT_FIELDS = ['name', 'id', 'state', 'image', 'label', 'port', 'health', 'host', 'network'];
+const NUMERIC_FIELDS = ['cpu', 'mem', 'pids'];
+
+const queryError = (message, start, end) => {
+  const err = new Error(message);
+  err.start = start;
+  err.end = end;
+  return err;
+};
+
+const tokenize = (input) => {
+  const tokens = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i += 1;
+    } else if (ch === '(' || ch === ')' || ch === '|') {
+      tokens.push({ type: ch === '|' ? 'or' : ch, start: i, end: i + 1 });
+      i += 1;
+    } else if ((ch === '-' || ch === '!') && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ type: 'not', start: i, end: i + 1 });
+      i += 1;
+    } else {
+      const start = i;
+      let text = '';
+      while (i < input.length && !/[\s()|]/.test(input[i])) {
+        if (input[i] === '"') {
+          const close = input.indexOf('"', i + 1);
+          if (close === -1) throw queryError('Unterminated quote', i, input.length);
+          text += input.slice(i + 1, close);
+          i = close + 1;
+        } else {
+          text += input[i];
+          i += 1;
+        }
+      }
+      const raw = input.slice(start, i);
+      tokens.push(raw.toUpperCase() === 'OR' ? { type: 'or', start, end: i } : { type: 'term', text, start, end: i });
+    }
+  }
+  return tokens;
+};
+
+const compare = (op, left, right) => {
+  switch (op) {
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '!=': return left !== right;
+    default: return left === right;
+  }
+};
+
+const portNumbers = (ports) => String(ports || '').split(',').flatMap((entry) => {
+  const numbers = [];
+  const published = entry.match(/:(\d+)\s*->/);
+  const exposed = entry.match(/(\d+)\/\w+\s*$/);
+  if (published) numbers.push(published[1]);
+  if (exposed) numbers.push(exposed[1]);
+  return numbers;
+});
+
+const networkNames = (networks) => String(networks || '').split(',').map((entry) => entry.trim().split(':')[0]);
+
+const textMatcher = (field, value, token) => {
+  if (field === 'label') {
+    const idx = value.indexOf('=');
+    const key = idx === -1 ? value : value.slice(0, idx);
+    if (!key) throw queryError('label: needs a key, e.g. label:team=payments', token.start, token.end);
+    const keyGlob = compileGlob(key);
+    const valueGlob = idx === -1 ? null : compileGlob(value.slice(idx + 1));
+    return (container) => Object.entries(container.labels || {}).some(([name, labelValue]) => (
+      keyGlob.test(name) && (!valueGlob || valueGlob.test(labelValue))
+    ));
+  }
+
+  const glob = compileGlob(value);
+  switch (field) {
+    case 'name': return (container) => glob.test(container.name);
+    case 'id': return (container) => container.id.toLowerCase().startsWith(value.toLowerCase()) || glob.test(container.id);
+    case 'state': return (container) => glob.test(container.state);
+    case 'image': return (container) => {
+      const image = container.image || '';
+      return glob.test(image) || glob.test(image.replace(/:[^/:]+$/, ''));
+    };
+    case 'port': return (container) => portNumbers(container.ports).some((port) => glob.test(port));
+    case 'health': return (container) => glob.test(container.health || 'none');
+    case 'host': return (container) => glob.test(container.host || '');
+    default: return (container) => networkNames(container.networks).some((name) => glob.test(name));
+  }
+};
+
+const numericMatcher = (field, op, value, token) => {
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*(%|[a-z]+)?$/i);
+  if (!match) throw queryError(`${field} needs a number, e.g. ${field}>50`, token.start, token.end);
+  const amount = Number(match[1]);
+  const unit = (match[2] || '').toLowerCase();
+
+  if (field === 'mem' && unit && unit !== '%') {
+    if (!SIZE_UNITS[unit]) throw queryError(`Unknown size unit "${match[2]}"`, token.start, token.end);
+    const bytes = amount * SIZE_UNITS[unit];
+    return (container) => compare(op, (container.memoryBytes && container.memoryBytes.usage) || 0, bytes);
+  }
+  if (unit && unit !== '%') throw queryError(`${field} does not take a unit`, token.start, token.end);
+  if (field === 'cpu') return (container) => compare(op, container.cpu, amount);
+  if (field === 'mem') return (container) => compare(op, container.memory.percent, amount);
+  return (container) => compare(op, container.pids, amount);
+};
+
+const termMatcher = (token) => {
+  const match = token.text.match(/^([a-z]+)(>=|<=|!=|>|<|=|:)(.*)$/i);
+  if (!match) {
+    const needle = token.text.toLowerCase();
+    return (container) => (
+      container.name.toLowerCase().includes(needle) ||
+      container.raw.shortId.toLowerCase().includes(needle) ||
+      container.networks.toLowerCase().includes(needle)
+    );
+  }
+
+  const field = match[1].toLowerCase();
+  const op = match[2];
+  const value = match[3];
+  if (!TEXT_FIELDS.includes(field) && !NUMERIC_FIELDS.includes(field)) {
+    throw queryError(`Unknown field "${match[1]}"`, token.start, token.start + match[1].length);
+  }
+  if (!value) throw queryError(`Missing value for ${field}`, token.start, token.end);
+  if (NUMERIC_FIELDS.includes(field)) return numericMatcher(field, op === ':' ? '=' : op, value, token);
+  if (op !== ':' && op !== '=') throw queryError(`${field} only supports ":"`, token.start, token.end);
+  return textMatcher(field, value, token);
+};
+
+// Recursive descent over: or := and ('OR' and)* ; and := unary+ ; unary := '-' unary | '(' or ')' | term
+const parse = (tokens, length) => {
+  let pos = 0;
+  const peek = () => tokens[pos];
+
+  const parseUnary = () => {
+    const token = peek();
+    if (!token) throw queryError('Query ends unexpectedly', length, length);
+    if (token.type === 'not') {
+      pos += 1;
+      const inner = parseUnary();
+      return (container) => !inner(container);
+    }
+    if (token.type === '(') {
+      pos += 1;
+      const inner = parseOr();
+      const close = peek();
+      if (!close || close.type !== ')') throw queryError('Missing closing parenthesis', token.start, length);
+      pos += 1;
+      return inner;
+    }
+    if (token.type === 'term') {
+      pos += 1;
+      return termMatcher(token);
+    }
+    throw queryError(`Unexpected "${token.type === 'or' ? 'OR' : token.type}"`, token.start, token.end);
+  };
+
+  const parseAnd = () => {
+    const terms = [parseUnary()];
+    while (peek() && peek().type !== 'or' && peek().type !== ')') terms.push(parseUnary());
+    return (container) => terms.every((term) => term(container));
+  };
+
+  const parseOr = () => {
+    const groups = [parseAnd()];
+    while (peek() && peek().type === 'or') {
+      pos += 1;
+      groups.push(parseAnd());
+    }
+    return (container) => groups.some((group) => group(container));
+  };
+
+  const matcher = parseOr();
+  const rest = peek();
+  if (rest) throw queryError(`Unexpected "${rest.type}"`, rest.start, rest.end);
+  return matcher;
+};
+
+// Returns a predicate for container payloads. Throws an Error carrying
+// `start`/`end` character offsets when the query is invalid.
+const compileQuery = (input) => {
+  const text = String(input || '');
+  const tokens = tokenize(text);
+  if (!tokens.length) return () => true;
+  return parse(tokens, text.length);
+};
+
+module.exports = { compileQuery };
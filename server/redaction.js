@@ -0,0 +1,81 @@
+const { compileGlob } = require('./glob');
+
+const MASK = '********';
+const DEFAULT_KEY_PATTERNS = ['*PASSWORD*', '*PASSWD*', '*SECRET*', '*TOKEN*', '*_KEY', '*CREDENTIAL*'];
+
+// Containers can tune the policy with labels: a comma separated list of extra key
+// globs to hide, and a list of keys that are safe to show as-is.
+const REDACT_LABEL = 'ctopweb.redact';
+const ALLOW_LABEL = 'ctopweb.redact.allow';
+
+// Key globs only understand `*`; a `?` in a key is taken literally.
+const keyGlob = (glob) => compileGlob(glob, { singleChar: false });
+
+const splitGlobs = (value) => (value ? String(value).split(',').map((item) => item.trim()).filter(Boolean) : []);
+
+const compilePattern = (pattern) => {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (err) {
+    throw new Error(`Invalid redaction pattern "${pattern}" in REDACT_PATTERNS: ${err.message}`);
+  }
+};
+
+const createRedactionPolicy = ({ patterns = [], useDefaults = true, revealEnabled = false } = {}) => {
+  const basePatterns = (useDefaults ? DEFAULT_KEY_PATTERNS.map(keyGlob) : []).concat(patterns.map(compilePattern));
+
+  const matcherFor = (labels = {}) => {
+    const extra = splitGlobs(labels[REDACT_LABEL]).map(keyGlob);
+    const allowed = splitGlobs(labels[ALLOW_LABEL]).map(keyGlob);
+    return (key) => {
+      if (!key || allowed.some((glob) => glob.test(key))) return false;
+      return basePatterns.some((pattern) => pattern.test(key)) || extra.some((glob) => glob.test(key));
+    };
+  };
+
+  const redactEnv = (envVars, labels) => {
+    const isSecret = matcherFor(labels);
+    return envVars.map((item) => (isSecret(item.key) && item.value ? { ...item, value: MASK, redacted: true } : item));
+  };
+
+  const redactLabels = (labels = {}) => {
+    const isSecret = matcherFor(labels);
+    return Object.fromEntries(
+      Object.entries(labels).map(([key, value]) => {
+        const name = key.split('.').pop();
+        return [key, isSecret(key) || isSecret(name) ? MASK : value];
+      })
+    );
+  };
+
+  // Masks `KEY=value`, `--flag=value` and `--flag value` arguments whose name matches the policy.
+  const redactArgs = (args, labels) => {
+    if (!Array.isArray(args)) return args;
+    const isSecret = matcherFor(labels);
+    const flagName = (arg) => arg.replace(/^-+/, '').replace(/-/g, '_');
+    return args.map((arg, index) => {
+      const eq = arg.indexOf('=');
+      if (eq > 0 && isSecret(flagName(arg.slice(0, eq)))) return `${arg.slice(0, eq + 1)}${MASK}`;
+      const previous = args[index - 1];
+      if (previous && /^--?[\w-]+$/.test(previous) && isSecret(flagName(previous)) && !arg.startsWith('-')) {
+        return MASK;
+      }
+      return arg;
+    });
+  };
+
+  // `docker top` reports each command line as a single string. It is returned
+  // untouched unless one of its arguments had to be masked.
+  const redactCommandLine = (command, labels) => {
+    if (typeof command !== 'string') return command;
+    const args = command.split(/\s+/);
+    const redacted = redactArgs(args, labels);
+    return redacted.some((arg, index) => arg !== args[index]) ? redacted.join(' ') : command;
+  };
+
+  const isSecretKey = (key, labels) => matcherFor(labels)(key);
+
+  return { redactEnv, redactLabels, redactArgs, redactCommandLine, isSecretKey, revealEnabled, mask: MASK };
+};
+
+module.exports = { createRedactionPolicy };
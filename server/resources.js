@@ -0,0 +1,149 @@
+const { SIZE_UNITS } = require('./util');
+
+const MIN_MEMORY = 6 * 1024 ** 2;
+const CPUSET_PATTERN = /^\d+(-\d+)?(,\d+(-\d+)?)*$/;
+const RESTART_POLICIES = ['no', 'always', 'unless-stopped', 'on-failure'];
+
+// Maps request fields to Docker's container update body.
+const FIELDS = {
+  memory: 'Memory',
+  memorySwap: 'MemorySwap',
+  memoryReservation: 'MemoryReservation',
+  nanoCpus: 'NanoCpus',
+  cpuQuota: 'CpuQuota',
+  cpuPeriod: 'CpuPeriod',
+  cpuShares: 'CpuShares',
+  cpusetCpus: 'CpusetCpus',
+  cpusetMems: 'CpusetMems',
+  pidsLimit: 'PidsLimit',
+  restartPolicy: 'RestartPolicy'
+};
+
+const validationError = (field, message) => Object.assign(new Error(message), { field });
+
+const formatResources = (hostConfig = {}) => ({
+  memory: hostConfig.Memory || 0,
+  memorySwap: hostConfig.MemorySwap || 0,
+  memoryReservation: hostConfig.MemoryReservation || 0,
+  nanoCpus: hostConfig.NanoCpus || 0,
+  cpuQuota: hostConfig.CpuQuota || 0,
+  cpuPeriod: hostConfig.CpuPeriod || 0,
+  cpuShares: hostConfig.CpuShares || 0,
+  cpusetCpus: hostConfig.CpusetCpus || '',
+  cpusetMems: hostConfig.CpusetMems || '',
+  pidsLimit: hostConfig.PidsLimit || 0,
+  restartPolicy: {
+    name: (hostConfig.RestartPolicy && hostConfig.RestartPolicy.Name) || 'no',
+    maximumRetryCount: (hostConfig.RestartPolicy && hostConfig.RestartPolicy.MaximumRetryCount) || 0
+  }
+});
+
+// Accepts a byte count or a size string such as "512m" or "1.5G".
+const parseSize = (field, value) => {
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) throw validationError(field, `${field} must be a whole number of bytes`);
+    return value;
+  }
+  const match = /^(-?\d+(?:\.\d+)?)\s*([a-z]*)$/i.exec(String(value).trim());
+  const unit = match ? (match[2] || 'b').toLowerCase() : null;
+  if (!match || !SIZE_UNITS[unit]) throw validationError(field, `${field} must be a size such as 512M or 2G`);
+  return Math.round(Number(match[1]) * SIZE_UNITS[unit]);
+};
+
+const parseInteger = (field, value, { min = -Infinity, max = Infinity } = {}) => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (!Number.isInteger(number)) throw validationError(field, `${field} must be an integer`);
+  if (number < min || number > max) {
+    throw validationError(field, `${field} must be ${max === Infinity ? `at least ${min}` : `between ${min} and ${max}`}`);
+  }
+  return number;
+};
+
+// Validates a resource update against the container's current HostConfig and
+// returns the body for Docker's update API. Only fields present in `input` are sent.
+const parseResourceUpdate = (input, hostConfig = {}) => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw validationError(null, 'Send a JSON object of resource fields');
+  }
+  const unknown = Object.keys(input).filter((key) => !FIELDS[key]);
+  if (unknown.length) throw validationError(unknown[0], `Unknown resource field "${unknown[0]}"`);
+  if (!Object.keys(input).length) throw validationError(null, 'No resource fields to update');
+
+  const update = {};
+  const has = (key) => input[key] !== undefined && input[key] !== null;
+
+  if (has('memory')) {
+    update.Memory = parseSize('memory', input.memory);
+    if (update.Memory < MIN_MEMORY) throw validationError('memory', 'memory must be at least 6M');
+  }
+  const memory = update.Memory !== undefined ? update.Memory : hostConfig.Memory || 0;
+
+  if (has('memorySwap')) {
+    update.MemorySwap = input.memorySwap === -1 || input.memorySwap === '-1' ? -1 : parseSize('memorySwap', input.memorySwap);
+    if (!memory) throw validationError('memorySwap', 'memorySwap needs a memory limit');
+    if (update.MemorySwap !== -1 && update.MemorySwap < memory) {
+      throw validationError('memorySwap', 'memorySwap must be -1 (unlimited) or at least the memory limit');
+    }
+  } else if (update.Memory !== undefined && hostConfig.MemorySwap > 0 && hostConfig.MemorySwap < update.Memory) {
+    throw validationError('memorySwap', 'Raise memorySwap as well; it cannot be lower than the memory limit');
+  }
+
+  if (has('memoryReservation')) {
+    update.MemoryReservation = parseSize('memoryReservation', input.memoryReservation);
+    if (update.MemoryReservation < 0) throw validationError('memoryReservation', 'memoryReservation cannot be negative');
+    if (memory && update.MemoryReservation > memory) {
+      throw validationError('memoryReservation', 'memoryReservation must not exceed the memory limit');
+    }
+  }
+
+  if (has('nanoCpus')) {
+    if (has('cpuQuota') || has('cpuPeriod')) {
+      throw validationError('nanoCpus', 'Set either nanoCpus or cpuQuota/cpuPeriod, not both');
+    }
+    update.NanoCpus = parseInteger('nanoCpus', input.nanoCpus, { min: 0 });
+    if (update.NanoCpus && (hostConfig.CpuQuota > 0 || hostConfig.CpuPeriod > 0)) {
+      update.CpuQuota = 0;
+      update.CpuPeriod = 0;
+    }
+  }
+  if (has('cpuQuota')) {
+    update.CpuQuota = parseInteger('cpuQuota', input.cpuQuota, { min: -1 });
+    if (update.CpuQuota > 0 && update.CpuQuota < 1000) throw validationError('cpuQuota', 'cpuQuota must be at least 1000µs');
+  }
+  if (has('cpuPeriod')) {
+    update.CpuPeriod = parseInteger('cpuPeriod', input.cpuPeriod, { min: 0, max: 1000000 });
+    if (update.CpuPeriod && update.CpuPeriod < 1000) throw validationError('cpuPeriod', 'cpuPeriod must be at least 1000µs');
+  }
+  if ((has('cpuQuota') || has('cpuPeriod')) && hostConfig.NanoCpus > 0) update.NanoCpus = 0;
+
+  if (has('cpuShares')) {
+    update.CpuShares = parseInteger('cpuShares', input.cpuShares, { min: 0, max: 262144 });
+    if (update.CpuShares === 1) throw validationError('cpuShares', 'cpuShares must be 0 (default) or at least 2');
+  }
+  ['cpusetCpus', 'cpusetMems'].forEach((key) => {
+    if (!has(key)) return;
+    const value = String(input[key]).replace(/\s+/g, '');
+    if (value && !CPUSET_PATTERN.test(value)) throw validationError(key, `${key} must look like 0-3 or 0,2`);
+    update[FIELDS[key]] = value;
+  });
+
+  if (has('pidsLimit')) update.PidsLimit = parseInteger('pidsLimit', input.pidsLimit, { min: -1 });
+
+  if (has('restartPolicy')) {
+    const policy = input.restartPolicy;
+    const name = typeof policy === 'string' ? policy : policy && policy.name;
+    if (!RESTART_POLICIES.includes(name)) {
+      throw validationError('restartPolicy', `restartPolicy must be one of ${RESTART_POLICIES.join(', ')}`);
+    }
+    const retries = typeof policy === 'object' && policy.maximumRetryCount !== undefined ? policy.maximumRetryCount : 0;
+    const maximumRetryCount = parseInteger('restartPolicy', retries, { min: 0 });
+    if (maximumRetryCount && name !== 'on-failure') {
+      throw validationError('restartPolicy', 'maximumRetryCount only applies to the on-failure policy');
+    }
+    update.RestartPolicy = { Name: name, MaximumRetryCount: maximumRetryCount };
+  }
+
+  return update;
+};
+
+module.exports = { formatResources, parseResourceUpdate };
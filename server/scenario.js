@@ -0,0 +1,252 @@
+const fs = require('fs');
+const { SIZE_UNITS } = require('./util');
+
+const DURATION_UNITS = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+const TIMELINE_ACTIONS = [
+  'start', 'stop', 'restart', 'kill', 'pause', 'unpause', 'crash', 'oom', 'healthy', 'unhealthy', 'load'
+];
+const RESTART_POLICIES = ['no', 'always', 'unless-stopped', 'on-failure'];
+
+// mulberry32: small, fast and good enough to make a simulated fleet repeatable.
+const createRandom = (seed) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const range = (min, max) => min + next() * (max - min);
+  return {
+    next,
+    range,
+    int: (min, max) => Math.floor(range(min, max + 1)),
+    chance: (probability) => next() < probability,
+    pick: (list) => list[Math.floor(next() * list.length)],
+    hex: (length) => Array.from({ length }, () => Math.floor(next() * 16).toString(16)).join('')
+  };
+};
+
+// FNV-1a, used to derive distinct but stable seeds per host name.
+const hashSeed = (value) => {
+  let hash = 0x811c9dc5;
+  for (const char of String(value)) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+const scenarioError = (message) => new Error(`Invalid simulator scenario: ${message}`);
+
+const parseAmount = (units, fallbackUnit) => (value, field) => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'number' && Number.isFinite(value) && value >= 0) return value * units[fallbackUnit];
+  const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/i.exec(String(value).trim());
+  const unit = match ? (match[2] || fallbackUnit).toLowerCase() : null;
+  if (!match || !units[unit]) throw scenarioError(`${field} has an unreadable value "${value}"`);
+  return Number(match[1]) * units[unit];
+};
+
+// Sizes default to bytes, durations to seconds.
+const parseBytes = parseAmount(SIZE_UNITS, 'b');
+const parseDuration = parseAmount(DURATION_UNITS, 's');
+
+const parseRange = (value, parse, field, fallback) => {
+  if (value === undefined) return fallback;
+  const [min, max] = Array.isArray(value) ? value : [value, value];
+  const range = { min: parse(min, field), max: parse(max, field) };
+  if (range.min > range.max) throw scenarioError(`${field} must be [min, max]`);
+  return range;
+};
+
+const asPercent = (value, field) => {
+  if (typeof value !== 'number' || value < 0) throw scenarioError(`${field} must be a non-negative number`);
+  return value;
+};
+
+// "8080:80" publishes container port 80 on 8080; "80" only exposes it.
+const parsePort = (value, field) => {
+  const match = /^(?:(\d+):)?(\d+)(?:\/(tcp|udp))?$/.exec(String(value));
+  if (!match) throw scenarioError(`${field} must look like "8080:80" or "53/udp"`);
+  return { public: match[1] ? Number(match[1]) : null, private: Number(match[2]), type: match[3] || 'tcp' };
+};
+
+// A fleet that looks like a small shop: load-balanced web tier, API, workers,
+// stateful services and one finished batch job.
+const DEFAULT_SERVICES = [
+  {
+    name: 'web', project: 'shop', image: 'nginx:1.27', replicas: 3, scalable: true,
+    command: ['nginx', '-g', 'daemon off;'], cpu: [2, 15], memory: { limit: '256M', usage: ['30M', '60M'] },
+    net: { rx: '120K', tx: '400K' }, block: { read: '2K', write: '8K' }, ports: ['8080:80'],
+    healthcheck: { test: ['CMD', 'curl', '-fs', 'http://localhost/'], interval: '10s', retries: 3 },
+    logs: 'access'
+  },
+  {
+    name: 'api', project: 'shop', image: 'node:22-alpine', replicas: 2, scalable: true,
+    command: ['node', 'server.js'], cpu: [10, 45], memory: { limit: '512M', usage: ['150M', '260M'], leak: '4K' },
+    net: { rx: '300K', tx: '250K' }, block: { read: '10K', write: '20K' }, ports: ['3000'],
+    env: ['NODE_ENV=production', 'DB_HOST=shop-db-1', 'DB_PASSWORD=hunter2', 'API_TOKEN=sk-demo-4242'],
+    healthcheck: {
+      test: ['CMD-SHELL', 'wget -qO- http://localhost:3000/health || exit 1'],
+      interval: '15s',
+      retries: 3
+    },
+    healthFlapChance: 0.002, logs: 'app'
+  },
+  {
+    name: 'worker', project: 'shop', image: 'python:3.12-slim', replicas: 2, scalable: true,
+    command: ['python', '-m', 'worker'], cpu: [20, 85], memory: { limit: '1G', usage: ['200M', '400M'] },
+    net: { rx: '40K', tx: '30K' }, block: { read: '50K', write: '120K' }, crashChance: 0.0008, logs: 'app'
+  },
+  {
+    name: 'db', project: 'shop', image: 'postgres:16', cpu: [3, 20], memory: { usage: ['300M', '500M'] },
+    net: { rx: '200K', tx: '350K' }, block: { read: '400K', write: '900K' }, ports: ['5432'],
+    volumes: ['shop_pgdata:/var/lib/postgresql/data'], env: ['POSTGRES_PASSWORD=postgres'],
+    healthcheck: { test: ['CMD-SHELL', 'pg_isready -U postgres'], interval: '10s', retries: 5 }, logs: 'app'
+  },
+  {
+    name: 'cache', project: 'shop', image: 'redis:7', command: ['redis-server'], cpu: [1, 6],
+    memory: { limit: '128M', usage: ['20M', '40M'] }, net: { rx: '90K', tx: '110K' }, ports: ['6379'],
+    volumes: ['/data'], logs: 'app'
+  },
+  {
+    name: 'prometheus', project: 'monitoring', image: 'prom/prometheus:v2.54.1', cpu: [5, 25],
+    memory: { usage: ['180M', '320M'], leak: '1K' }, net: { rx: '60K', tx: '20K' }, block: { write: '200K' },
+    ports: ['9090:9090'], volumes: ['monitoring_tsdb:/prometheus'], logs: 'app'
+  },
+  {
+    name: 'migrate', project: 'shop', image: 'busybox:1.36', command: ['sh', '-c', 'run-migrations'],
+    state: 'exited', restartPolicy: 'no', logs: 'app'
+  }
+];
+
+// A ten minute loop of incidents worth looking at on the default fleet.
+const DEFAULT_TIMELINE = [
+  { at: 60, target: 'shop-worker-1', action: 'crash' },
+  { at: 120, target: 'shop-api-2', action: 'unhealthy' },
+  { at: 180, target: 'shop-api-2', action: 'healthy' },
+  { at: 240, target: 'shop-web-3', action: 'load', cpu: 95, for: 60 },
+  { at: 360, target: 'shop-cache-1', action: 'restart' },
+  { at: 420, target: 'shop-db-1', action: 'load', cpu: 70, for: 90 },
+  { at: 500, target: 'shop-worker-2', action: 'oom' }
+];
+
+// Grows or shrinks the default fleet to `count` containers, giving every service
+// one container before adding replicas to the scalable ones.
+const scaleServices = (services, count) => {
+  if (!count) return services;
+  const replicas = services.map(() => 0);
+  for (let total = 0, index = 0; total < count; index += 1) {
+    const slot = index % services.length;
+    if (index >= services.length && !services[slot].scalable) continue;
+    replicas[slot] += 1;
+    total += 1;
+  }
+  return services
+    .map((service, index) => ({ ...service, replicas: replicas[index] }))
+    .filter((service) => service.replicas);
+};
+
+const normalizeService = (raw, index) => {
+  const field = (name) => `services[${index}].${name}`;
+  if (!raw || typeof raw.name !== 'string' || !/^[a-zA-Z0-9][\w.-]*$/.test(raw.name)) {
+    throw scenarioError(`${field('name')} must be a container-safe name`);
+  }
+  if (!raw.image || typeof raw.image !== 'string') throw scenarioError(`${field('image')} is required`);
+  const replicas = raw.replicas === undefined ? 1 : raw.replicas;
+  if (!Number.isInteger(replicas) || replicas < 0) throw scenarioError(`${field('replicas')} must be a whole number`);
+  const restartPolicy = raw.restartPolicy || 'unless-stopped';
+  if (!RESTART_POLICIES.includes(restartPolicy)) {
+    throw scenarioError(`${field('restartPolicy')} must be one of ${RESTART_POLICIES.join(', ')}`);
+  }
+  const memory = raw.memory || {};
+  const health = raw.healthcheck;
+
+  return {
+    name: raw.name,
+    project: raw.project || null,
+    image: raw.image,
+    replicas,
+    command: Array.isArray(raw.command) ? raw.command.map(String) : [],
+    env: Array.isArray(raw.env) ? raw.env.map(String) : [],
+    labels: raw.labels && typeof raw.labels === 'object' ? raw.labels : {},
+    state: raw.state === 'exited' ? 'exited' : 'running',
+    restartPolicy,
+    cpu: parseRange(raw.cpu, asPercent, field('cpu'), { min: 0.5, max: 5 }),
+    memory: {
+      limit: parseBytes(memory.limit, field('memory.limit')) || 0,
+      usage: parseRange(memory.usage, parseBytes, field('memory.usage'), { min: 16 * 1024 ** 2, max: 48 * 1024 ** 2 }),
+      leak: parseBytes(memory.leak, field('memory.leak')) || 0
+    },
+    net: {
+      rx: parseBytes(raw.net && raw.net.rx, field('net.rx')) || 0,
+      tx: parseBytes(raw.net && raw.net.tx, field('net.tx')) || 0
+    },
+    block: {
+      read: parseBytes(raw.block && raw.block.read, field('block.read')) || 0,
+      write: parseBytes(raw.block && raw.block.write, field('block.write')) || 0
+    },
+    ports: (raw.ports || []).map((port, portIndex) => parsePort(port, field(`ports[${portIndex}]`))),
+    // "name:/path" mounts a named volume; a bare "/path" gets an anonymous one.
+    volumes: (raw.volumes || []).map((volume) => {
+      const [name, destination] = String(volume).includes(':') ? String(volume).split(':') : [null, String(volume)];
+      return { name, destination };
+    }),
+    healthcheck: health ? {
+      test: Array.isArray(health.test) ? health.test.map(String) : ['CMD', 'true'],
+      intervalMs: parseDuration(health.interval, field('healthcheck.interval')) || 30000,
+      timeoutMs: parseDuration(health.timeout, field('healthcheck.timeout')) || 5000,
+      retries: Number.isInteger(health.retries) && health.retries > 0 ? health.retries : 3
+    } : null,
+    crashChance: asPercent(raw.crashChance || 0, field('crashChance')),
+    healthFlapChance: asPercent(raw.healthFlapChance || 0, field('healthFlapChance')),
+    logs: raw.logs === 'access' ? 'access' : 'app'
+  };
+};
+
+const normalizeStep = (raw, index) => {
+  const field = (name) => `timeline[${index}].${name}`;
+  if (!raw || typeof raw.target !== 'string') {
+    throw scenarioError(`${field('target')} must name a container or service`);
+  }
+  if (!TIMELINE_ACTIONS.includes(raw.action)) {
+    throw scenarioError(`${field('action')} must be one of ${TIMELINE_ACTIONS.join(', ')}`);
+  }
+  return {
+    atMs: parseDuration(raw.at, field('at')) || 0,
+    target: raw.target,
+    action: raw.action,
+    cpu: raw.cpu === undefined ? 90 : asPercent(raw.cpu, field('cpu')),
+    forMs: parseDuration(raw.for, field('for')) || 60000,
+    exitCode: Number.isInteger(raw.exitCode) ? raw.exitCode : 1
+  };
+};
+
+// Fills in defaults and validates a scenario object. Without `services` the
+// built-in fleet is used, scaled to `containers` when given.
+const normalizeScenario = (raw = {}, { seed, containers } = {}) => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw scenarioError('expected a JSON object');
+  const custom = Array.isArray(raw.services);
+  const services = custom ? raw.services : scaleServices(DEFAULT_SERVICES, Number(containers) || 0);
+  const timeline = Array.isArray(raw.timeline) ? raw.timeline : custom ? [] : DEFAULT_TIMELINE;
+  const tickMs = parseDuration(raw.tick, 'tick') || 1000;
+  if (tickMs < 100) throw scenarioError('tick must be at least 100ms');
+  const seedValue = seed !== undefined && seed !== '' ? Number(seed) : Number(raw.seed);
+
+  return {
+    seed: Number.isFinite(seedValue) ? seedValue : 1,
+    tickMs,
+    cpus: Number.isInteger(raw.cpus) && raw.cpus > 0 ? raw.cpus : 8,
+    memory: parseBytes(raw.memory, 'memory') || 16 * 1024 ** 3,
+    cgroup: raw.cgroup === 1 ? 1 : 2,
+    services: services.map(normalizeService),
+    timeline: timeline.map(normalizeStep).sort((a, b) => a.atMs - b.atMs),
+    loopMs: parseDuration(raw.loop, 'loop') || (custom ? 0 : 600000)
+  };
+};
+
+const loadScenario = (file) => (file ? JSON.parse(fs.readFileSync(file, 'utf8')) : {});
+
+module.exports = { createRandom, hashSeed, loadScenario, normalizeScenario };
@@ -0,0 +1,869 @@
+const path = require('path').posix;
+const { PassThrough } = require('stream');
+const { GO_MODE_DIR, GO_MODE_SYMLINK, buildTar, createTarParser } = require('./archive');
+const { chatter, createFleet, filesFor } = require('./fleet');
+const { BUILTIN_NETWORKS } = require('./inventory');
+const { createRandom, hashSeed, loadScenario, normalizeScenario } = require('./scenario');
+
+const EVENT_LOG_SIZE = 1000;
+const LOG_BUFFER_SIZE = 500;
+const HEALTH_LOG_SIZE = 5;
+// After a long pause (laptop sleep) skip ahead instead of replaying every tick.
+const MAX_CATCHUP_TICKS = 3600;
+const SIM_VERSION = '27.4.0';
+const SIM_KERNEL = '6.8.0-sim';
+
+// Mirrors the errors dockerode raises for HTTP failures, so sendDockerError works unchanged.
+const dockerError = (statusCode, message) =>
+  Object.assign(new Error(`(HTTP code ${statusCode}) ${message}`), { statusCode, reason: message, json: { message } });
+
+const toSeconds = (ms) => Math.floor(ms / 1000);
+const iso = (ms) => new Date(ms).toISOString();
+const clamp = (value, min, max) => Math.min(Math.max(value, min), max);
+
+// Docker multiplexes non-TTY log output into frames with an 8-byte header.
+const logFrame = (stream, text) => {
+  const payload = Buffer.from(text);
+  const header = Buffer.alloc(8);
+  header[0] = stream === 'stderr' ? 2 : 1;
+  header.writeUInt32BE(payload.length, 4);
+  return Buffer.concat([header, payload]);
+};
+
+// A dockerode-compatible engine backed by a simulated fleet. State advances in
+// fixed ticks driven by a seeded PRNG, so the same seed and scenario always
+// produce the same containers, stats and incidents for a given tick.
+const createSimulatedDocker = (options = {}) => {
+  const { name = 'sim', seed, containers: count, clock = Date.now, autoTick = true } = options;
+  const scenario = normalizeScenario(options.scenario || {}, { seed, containers: count });
+  const random = createRandom(scenario.seed ^ hashSeed(name));
+  const engineId = random.hex(12).toUpperCase().match(/.{4}/g).join(':');
+  const origin = clock();
+  const tickNs = scenario.tickMs * 1e6;
+  const { containers, images, volumes, networks } = createFleet({ scenario, random, origin });
+  const eventLog = [];
+  const eventStreams = new Set();
+  let tick = 0;
+  let systemNs = 0;
+  let lastEventNano = 0;
+  let stepping = false;
+
+  const tickTime = () => origin + tick * scenario.tickMs;
+  // Changes made while catching up are stamped with their tick, not the wall clock.
+  const now = () => (stepping ? tickTime() : clock());
+  const find = (id) => {
+    const value = String(id).replace(/^\//, '');
+    const match = containers.find((container) => container.id === value || container.name === value)
+      || (value.length >= 3 && containers.filter((container) => container.id.startsWith(value)).length === 1
+        ? containers.find((container) => container.id.startsWith(value))
+        : null);
+    if (!match) throw dockerError(404, `No such container: ${value}`);
+    return match;
+  };
+
+  const emit = (container, action, attributes = {}) => {
+    // Nanosecond timestamps exceed float precision, so keep events apart by whole microseconds.
+    const timeNano = Math.max(now() * 1e6, lastEventNano + 1000);
+    lastEventNano = timeNano;
+    const event = {
+      status: action,
+      id: container.id,
+      from: container.image,
+      Type: 'container',
+      Action: action,
+      Actor: {
+        ID: container.id,
+        Attributes: { image: container.image, name: container.name, ...container.labels, ...attributes }
+      },
+      scope: 'local',
+      time: Math.floor(timeNano / 1e9),
+      timeNano
+    };
+    eventLog.push(event);
+    if (eventLog.length > EVENT_LOG_SIZE) eventLog.shift();
+    eventStreams.forEach((subscriber) => subscriber(event));
+  };
+
+  const log = (container, text, stream = 'stdout') => {
+    const line = { time: now(), stream, text };
+    container.logs.push(line);
+    if (container.logs.length > LOG_BUFFER_SIZE) container.logs.shift();
+    container.logFollowers.forEach((follower) => follower(line));
+  };
+
+  const start = (container, { restarted = false } = {}) => {
+    container.state = 'running';
+    container.pid = random.int(1000, 60000);
+    container.startedAt = now();
+    container.oomKilled = false;
+    container.manuallyStopped = false;
+    container.restartAtTick = null;
+    container.previous = null;
+    container.leaked = 0;
+    if (restarted) container.restartCount += 1;
+    if (container.health) {
+      container.health = { status: 'starting', failingStreak: 0, log: container.health.log, failUntilTick: -1 };
+    }
+    emit(container, 'start');
+    log(container, `${container.service.name} starting (pid ${container.pid})`);
+  };
+
+  // The main process exited on its own; the restart policy decides what happens next.
+  const die = (container, exitCode, { oom = false } = {}) => {
+    if (oom) emit(container, 'oom');
+    container.state = 'exited';
+    container.exitCode = exitCode;
+    container.oomKilled = oom;
+    container.finishedAt = now();
+    container.pid = 0;
+    container.load = null;
+    emit(container, 'die', { exitCode: String(exitCode) });
+    log(container, oom ? 'Killed: out of memory' : `exited with code ${exitCode}`, 'stderr');
+    container.logFollowers.forEach((follower) => follower(null));
+
+    const policy = container.hostConfig.RestartPolicy;
+    const retriesLeft = !policy.MaximumRetryCount || container.restartCount < policy.MaximumRetryCount;
+    const restart = !container.manuallyStopped && (
+      policy.Name === 'always'
+      || policy.Name === 'unless-stopped'
+      || (policy.Name === 'on-failure' && exitCode !== 0 && retriesLeft)
+    );
+    if (restart) {
+      container.state = 'restarting';
+      // Docker doubles the delay between policy restarts; a few ticks is enough here.
+      container.restartAtTick = tick + Math.min(2 ** Math.min(container.restartCount, 4), 15);
+    }
+  };
+
+  const stop = (container, { signal = 'SIGTERM', exitCode = 0 } = {}) => {
+    container.manuallyStopped = true;
+    emit(container, 'kill', { signal: String(signal) });
+    die(container, exitCode);
+    emit(container, 'stop');
+  };
+
+  const setHealth = (container, status) => {
+    if (!container.health || container.health.status === status) return;
+    container.health.status = status;
+    emit(container, `health_status: ${status}`);
+  };
+
+  const probe = (container) => {
+    const { health, service } = container;
+    const failing = health.failUntilTick >= tick;
+    const time = tickTime();
+    health.log.push({
+      Start: iso(time),
+      End: iso(time + random.int(5, 60)),
+      ExitCode: failing ? 1 : 0,
+      Output: failing ? 'connection refused\n' : service.logs === 'access' ? 'OK\n' : ''
+    });
+    if (health.log.length > HEALTH_LOG_SIZE) health.log.shift();
+    health.failingStreak = failing ? health.failingStreak + 1 : 0;
+    if (!failing) setHealth(container, 'healthy');
+    else if (health.failingStreak >= service.healthcheck.retries) setHealth(container, 'unhealthy');
+  };
+
+  const sampleTick = (container) => {
+    const { service } = container;
+    const previousSystemNs = systemNs - tickNs * scenario.cpus;
+    container.previous = { cpuNs: container.cpuNs, perCpuNs: [...container.perCpuNs], systemNs: previousSystemNs };
+
+    if (container.load && container.load.untilTick < tick) container.load = null;
+    const spread = Math.max(service.cpu.max - service.cpu.min, 1);
+    container.cpuLevel = clamp(
+      container.cpuLevel + (random.next() - 0.5) * spread * 0.3,
+      service.cpu.min,
+      service.cpu.max
+    );
+    const cpuCap = container.hostConfig.NanoCpus ? (container.hostConfig.NanoCpus / 1e9) * 100 : scenario.cpus * 100;
+    const cpu = clamp(container.load ? container.load.cpu + random.range(-3, 3) : container.cpuLevel, 0, cpuCap);
+    const cpuDelta = (cpu / 100) * tickNs;
+    container.cpuNs += cpuDelta;
+    const weights = container.perCpuNs.map(() => random.next());
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+    container.perCpuNs = container.perCpuNs.map((value, index) => value + (cpuDelta * weights[index]) / totalWeight);
+
+    const memorySpread = service.memory.usage.max - service.memory.usage.min;
+    container.memLevel = clamp(
+      container.memLevel + (random.next() - 0.5) * memorySpread * 0.1,
+      service.memory.usage.min,
+      service.memory.usage.max
+    );
+    container.leaked += service.memory.leak;
+
+    const seconds = scenario.tickMs / 1000;
+    container.counters.rx += Math.round(service.net.rx * seconds * random.range(0.4, 1.6));
+    container.counters.tx += Math.round(service.net.tx * seconds * random.range(0.4, 1.6));
+    // Disk I/O is bursty: mostly a trickle, with occasional spikes.
+    const readBurst = random.chance(0.3) ? random.range(0, 3) : 0.2;
+    const writeBurst = random.chance(0.4) ? random.range(0, 2.5) : 0.3;
+    container.counters.read += Math.round(service.block.read * seconds * readBurst);
+    container.counters.write += Math.round(service.block.write * seconds * writeBurst);
+    container.pids = clamp(container.pids + random.int(-1, 1), 1, 64);
+
+    const limit = container.hostConfig.Memory;
+    if (limit && container.memLevel + container.leaked >= limit) {
+      die(container, 137, { oom: true });
+      return;
+    }
+    if (service.crashChance && random.chance(service.crashChance)) {
+      die(container, random.pick([1, 2, 139]));
+      return;
+    }
+
+    if (container.health) {
+      const { intervalMs, retries } = service.healthcheck;
+      if (service.healthFlapChance && random.chance(service.healthFlapChance)) {
+        // Fail long enough to cross the retry threshold, then recover.
+        container.health.failUntilTick = tick + Math.ceil((intervalMs * (retries + 2)) / scenario.tickMs);
+      }
+      const everyTicks = Math.max(Math.round(intervalMs / scenario.tickMs), 1);
+      if (tick % everyTicks === 0) probe(container);
+    }
+
+    const line = chatter(service, random);
+    if (line) log(container, line.text, line.stream);
+  };
+
+  const runTimeline = () => {
+    if (!scenario.timeline.length) return;
+    const elapsedMs = tick * scenario.tickMs;
+    const offset = scenario.loopMs ? elapsedMs % scenario.loopMs : elapsedMs;
+    scenario.timeline
+      .filter((step) => step.atMs <= offset && step.atMs > offset - scenario.tickMs)
+      .forEach((step) => {
+        containers
+          .filter((container) => container.name === step.target || container.service.name === step.target)
+          .forEach((container) => applyStep(container, step));
+      });
+  };
+
+  const applyStep = (container, step) => {
+    const running = container.state === 'running';
+    switch (step.action) {
+      case 'start':
+        if (container.state === 'exited') start(container);
+        break;
+      case 'stop':
+        if (running) stop(container);
+        break;
+      case 'kill':
+        if (running) stop(container, { signal: 'KILL', exitCode: 137 });
+        break;
+      case 'restart':
+        if (running) stop(container);
+        start(container);
+        emit(container, 'restart');
+        break;
+      case 'pause':
+        if (running) {
+          container.state = 'paused';
+          emit(container, 'pause');
+        }
+        break;
+      case 'unpause':
+        if (container.state === 'paused') {
+          container.state = 'running';
+          emit(container, 'unpause');
+        }
+        break;
+      case 'crash':
+        if (running) die(container, step.exitCode);
+        break;
+      case 'oom':
+        if (running) die(container, 137, { oom: true });
+        break;
+      case 'unhealthy':
+        if (container.health) container.health.failUntilTick = Infinity;
+        break;
+      case 'healthy':
+        if (container.health) container.health.failUntilTick = -1;
+        break;
+      case 'load':
+        container.load = { cpu: step.cpu, untilTick: tick + Math.ceil(step.forMs / scenario.tickMs) };
+        break;
+      default:
+    }
+  };
+
+  const step = () => {
+    tick += 1;
+    systemNs += tickNs * scenario.cpus;
+    runTimeline();
+    containers.forEach((container) => {
+      if (container.state === 'restarting' && tick >= container.restartAtTick) start(container, { restarted: true });
+      if (container.state === 'running') sampleTick(container);
+    });
+  };
+
+  // Runs every tick that is due by the clock. Called before each API answer and on a timer.
+  const advance = () => {
+    const target = Math.floor((clock() - origin) / scenario.tickMs);
+    if (target - tick > MAX_CATCHUP_TICKS) {
+      const skipped = target - MAX_CATCHUP_TICKS - tick;
+      tick += skipped;
+      systemNs += skipped * tickNs * scenario.cpus;
+    }
+    stepping = true;
+    while (tick < target) step();
+    stepping = false;
+  };
+
+  const stats = (container) => {
+    const running = container.state === 'running' || container.state === 'paused';
+    const previous = container.previous || { cpuNs: container.cpuNs, perCpuNs: container.perCpuNs, systemNs };
+    const limit = container.hostConfig.Memory || scenario.memory;
+    const anon = running ? Math.round(container.memLevel + container.leaked) : 0;
+    const file = running ? Math.round(anon * 0.15) : 0;
+    const cgroupV1 = scenario.cgroup === 1;
+    const cpuUsage = (cpuNs, perCpuNs) => (cgroupV1
+      ? { total_usage: Math.round(cpuNs), percpu_usage: perCpuNs.map(Math.round) }
+      : { total_usage: Math.round(cpuNs) });
+    return {
+      read: iso(running ? tickTime() : clock()),
+      preread: iso(running ? tickTime() - scenario.tickMs : clock()),
+      name: `/${container.name}`,
+      id: container.id,
+      pids_stats: { current: running ? container.pids : 0 },
+      cpu_stats: {
+        cpu_usage: cpuUsage(container.cpuNs, container.perCpuNs),
+        system_cpu_usage: systemNs,
+        online_cpus: scenario.cpus
+      },
+      precpu_stats: {
+        cpu_usage: cpuUsage(previous.cpuNs, previous.perCpuNs),
+        system_cpu_usage: previous.systemNs,
+        online_cpus: scenario.cpus
+      },
+      memory_stats: running ? {
+        usage: anon + file,
+        limit,
+        stats: cgroupV1
+          ? { total_rss: anon, total_cache: file, total_inactive_file: Math.round(file * 0.7) }
+          : { anon, file, inactive_file: Math.round(file * 0.7) }
+      } : {},
+      networks: running ? {
+        eth0: {
+          rx_bytes: container.counters.rx,
+          tx_bytes: container.counters.tx,
+          rx_packets: Math.round(container.counters.rx / 900),
+          tx_packets: Math.round(container.counters.tx / 900)
+        }
+      } : undefined,
+      blkio_stats: {
+        io_service_bytes_recursive: running ? [
+          { major: 8, minor: 0, op: 'Read', value: container.counters.read },
+          { major: 8, minor: 0, op: 'Write', value: container.counters.write }
+        ] : null
+      }
+    };
+  };
+
+  const dockerState = (container) => ({
+    Status: container.state,
+    Running: container.state === 'running' || container.state === 'paused',
+    Paused: container.state === 'paused',
+    Restarting: container.state === 'restarting',
+    OOMKilled: container.oomKilled,
+    Dead: false,
+    Pid: container.pid,
+    ExitCode: container.exitCode,
+    Error: '',
+    StartedAt: iso(container.startedAt),
+    FinishedAt: container.finishedAt ? iso(container.finishedAt) : '0001-01-01T00:00:00Z',
+    ...(container.health ? {
+      Health: {
+        Status: container.health.status,
+        FailingStreak: container.health.failingStreak,
+        Log: container.health.log
+      }
+    } : {})
+  });
+
+  const portBindings = (container) => {
+    const replica = Number(container.labels['com.docker.compose.container-number'] || 1);
+    return container.service.ports.map((port) => ({
+      ...port,
+      hostPort: port.public ? port.public + replica - 1 : null
+    }));
+  };
+
+  const listEntry = (container) => ({
+    Id: container.id,
+    Names: [`/${container.name}`],
+    Image: container.image,
+    ImageID: container.imageId,
+    Created: toSeconds(container.created),
+    Ports: portBindings(container).map((port) => (port.hostPort
+      ? { IP: '0.0.0.0', PrivatePort: port.private, PublicPort: port.hostPort, Type: port.type }
+      : { PrivatePort: port.private, Type: port.type })),
+    Labels: container.labels,
+    State: container.state,
+    NetworkSettings: {
+      Networks: {
+        [container.network.name]: {
+          NetworkID: container.network.id,
+          IPAddress: container.state === 'running' ? container.network.ip : ''
+        }
+      }
+    },
+    Mounts: container.mounts.map((mount) => ({
+      Type: 'volume',
+      Name: mount.name,
+      Destination: mount.destination,
+      Driver: 'local',
+      RW: true
+    }))
+  });
+
+  const inspect = (container) => {
+    const { healthcheck } = container.service;
+    const ports = portBindings(container);
+    return {
+      Id: container.id,
+      Created: iso(container.created),
+      Path: container.service.command[0] || '',
+      Args: container.service.command.slice(1),
+      State: dockerState(container),
+      Image: container.imageId,
+      Name: `/${container.name}`,
+      RestartCount: container.restartCount,
+      HostConfig: { ...container.hostConfig, NetworkMode: container.network.name },
+      Mounts: listEntry(container).Mounts,
+      Config: {
+        Hostname: container.id.slice(0, 12),
+        User: '',
+        Tty: false,
+        Env: container.env,
+        Cmd: container.service.command,
+        Entrypoint: null,
+        Image: container.image,
+        WorkingDir: '/app',
+        Labels: container.labels,
+        Healthcheck: healthcheck ? {
+          Test: healthcheck.test,
+          Interval: healthcheck.intervalMs * 1e6,
+          Timeout: healthcheck.timeoutMs * 1e6,
+          Retries: healthcheck.retries
+        } : undefined
+      },
+      NetworkSettings: {
+        Ports: Object.fromEntries(ports.map((port) => [
+          `${port.private}/${port.type}`,
+          port.hostPort ? [{ HostIp: '0.0.0.0', HostPort: String(port.hostPort) }] : null
+        ])),
+        Networks: listEntry(container).NetworkSettings.Networks
+      }
+    };
+  };
+
+  const fileContent = (node) => Buffer.from(typeof node.content === 'function' ? node.content() : node.content || '');
+
+  const fileNode = (container, target) => {
+    const node = filesFor(container).get(path.normalize(target));
+    if (!node) throw dockerError(404, `Could not find the file ${target} in container ${container.name}`);
+    return node;
+  };
+
+  const archiveOf = (container, target) => {
+    const normalized = path.normalize(target);
+    const node = fileNode(container, normalized);
+    const base = normalized === '/' ? '.' : path.basename(normalized);
+    const entry = (name, item) => ({
+      name,
+      type: item.type,
+      content: item.type === 'file' ? fileContent(item) : undefined,
+      linkTarget: item.linkTarget,
+      mode: item.mode,
+      mtime: item.mtime
+    });
+    const entries = [entry(base, node)];
+    if (node.type === 'directory') {
+      const prefix = normalized === '/' ? '/' : `${normalized}/`;
+      [...filesFor(container).entries()]
+        .filter(([itemPath]) => itemPath !== normalized && itemPath.startsWith(prefix))
+        .sort(([a], [b]) => a.localeCompare(b))
+        .forEach(([itemPath, item]) => entries.push(entry(`${base}/${itemPath.slice(prefix.length)}`, item)));
+    }
+    return buildTar(entries);
+  };
+
+  const readBody = async (input) => {
+    if (Buffer.isBuffer(input)) return input;
+    const chunks = [];
+    for await (const chunk of input) chunks.push(Buffer.from(chunk));
+    return Buffer.concat(chunks);
+  };
+
+  const extract = (container, directory, archive) => {
+    const files = filesFor(container);
+    const added = [];
+    let current = null;
+    const parser = createTarParser({
+      onEntry: (entry) => {
+        const target = path.join(directory, entry.name);
+        current = entry.type === 'file' ? { target, chunks: [] } : null;
+        if (entry.type === 'directory') {
+          files.set(target.replace(/\/$/, '') || '/', { type: 'directory', mode: 0o755, mtime: clock() });
+        }
+        if (entry.type === 'file') added.push(current);
+        return true;
+      },
+      onData: (entry, data) => {
+        if (current) current.chunks.push(Buffer.from(data));
+        return true;
+      }
+    });
+    parser.push(archive);
+    added.forEach(({ target, chunks }) => {
+      container.changes.set(target, files.has(target) ? 0 : 1);
+      files.set(target, { type: 'file', mode: 0o644, mtime: clock(), content: Buffer.concat(chunks) });
+    });
+  };
+
+  const requireRunning = (container) => {
+    if (container.state !== 'running') throw dockerError(409, `Container ${container.id} is not running`);
+  };
+
+  // Every method is async and advances the simulation first, like a call to the daemon would.
+  const call = (fn) => async (...args) => {
+    advance();
+    return fn(...args);
+  };
+
+  const followLogs = (container, send) => {
+    const output = new PassThrough();
+    const follower = (line) => {
+      if (line === null) output.end();
+      else output.write(send(line));
+    };
+    container.logFollowers.add(follower);
+    output.on('close', () => container.logFollowers.delete(follower));
+    return output;
+  };
+
+  const getContainer = (id) => ({
+    id,
+    inspect: call(() => inspect(find(id))),
+    stats: call((options = {}) => {
+      const container = find(id);
+      if (options.stream === false) return stats(container);
+      const output = new PassThrough();
+      const timer = setInterval(() => {
+        advance();
+        if (container.state !== 'running' && container.state !== 'paused') {
+          output.end();
+          return;
+        }
+        output.write(`${JSON.stringify(stats(container))}\n`);
+      }, Math.max(scenario.tickMs, 1000));
+      output.write(`${JSON.stringify(stats(container))}\n`);
+      output.on('close', () => clearInterval(timer));
+      return output;
+    }),
+    start: call(() => {
+      const container = find(id);
+      if (container.state === 'running') throw dockerError(304, 'container already started');
+      if (container.state === 'paused') throw dockerError(409, 'cannot start a paused container, try unpause instead');
+      start(container);
+    }),
+    stop: call(() => {
+      const container = find(id);
+      if (container.state !== 'running' && container.state !== 'paused') {
+        throw dockerError(304, 'container already stopped');
+      }
+      stop(container, { exitCode: container.service.logs === 'access' ? 0 : 143 });
+    }),
+    restart: call(() => {
+      const container = find(id);
+      if (container.state === 'running' || container.state === 'paused') stop(container, { exitCode: 0 });
+      start(container);
+      emit(container, 'restart');
+    }),
+    kill: call((options = {}) => {
+      const container = find(id);
+      requireRunning(container);
+      stop(container, { signal: options.signal || 'SIGKILL', exitCode: 137 });
+    }),
+    pause: call(() => {
+      const container = find(id);
+      requireRunning(container);
+      container.state = 'paused';
+      emit(container, 'pause');
+    }),
+    unpause: call(() => {
+      const container = find(id);
+      if (container.state !== 'paused') throw dockerError(409, `Container ${container.id} is not paused`);
+      container.state = 'running';
+      emit(container, 'unpause');
+    }),
+    remove: call((options = {}) => {
+      const container = find(id);
+      if (container.state === 'running' || container.state === 'paused') {
+        if (!options.force) {
+          const message = `You cannot remove a running container ${container.id}. Stop it first or force remove`;
+          throw dockerError(409, message);
+        }
+        stop(container, { signal: 'KILL', exitCode: 137 });
+      }
+      containers.splice(containers.indexOf(container), 1);
+      if (options.v) {
+        container.mounts
+          .filter((mount) => /^[0-9a-f]{64}$/.test(mount.name))
+          .forEach((mount) => volumes.delete(mount.name));
+      }
+      emit(container, 'destroy');
+    }),
+    update: call((body = {}) => {
+      const container = find(id);
+      Object.entries(body).forEach(([key, value]) => {
+        if (key in container.hostConfig) container.hostConfig[key] = value;
+      });
+      emit(container, 'update');
+      return { Warnings: [] };
+    }),
+    top: call(() => {
+      const container = find(id);
+      requireRunning(container);
+      const { cpuLevel, pid, service } = container;
+      const limit = container.hostConfig.Memory || scenario.memory;
+      const memoryPercent = ((container.memLevel + container.leaked) / limit) * 100;
+      const workers = Math.min(container.pids, 4);
+      const command = service.command.join(' ') || service.image;
+      return {
+        Titles: ['USER', 'PID', '%CPU', '%MEM', 'VSZ', 'RSS', 'TTY', 'STAT', 'START', 'TIME', 'COMMAND'],
+        Processes: Array.from({ length: workers }, (value, index) => [
+          index ? 'app' : 'root',
+          String(pid + index),
+          (index ? cpuLevel / workers : cpuLevel / 10).toFixed(1),
+          (memoryPercent / workers).toFixed(1),
+          String(Math.round((container.memLevel / 1024) * 1.6)),
+          String(Math.round(container.memLevel / 1024 / workers)),
+          '?',
+          index ? 'S' : 'Ss',
+          new Date(container.startedAt).toTimeString().slice(0, 5),
+          '0:12',
+          index ? `${command} (worker ${index})` : command
+        ])
+      };
+    }),
+    logs: call((options = {}) => {
+      const container = find(id);
+      const since = Number(options.since) || 0;
+      const until = Number(options.until) || 0;
+      const send = (line) => logFrame(line.stream, `${options.timestamps ? `${iso(line.time)} ` : ''}${line.text}\n`);
+      let lines = container.logs.filter((line) => {
+        const seconds = toSeconds(line.time);
+        return seconds >= since && (!until || seconds <= until);
+      });
+      if (options.tail !== undefined && options.tail !== 'all') {
+        lines = lines.slice(-Number(options.tail) || lines.length);
+      }
+      const backlog = Buffer.concat(lines.map(send));
+      if (!options.follow) return backlog;
+      const output = followLogs(container, send);
+      output.write(backlog);
+      if (container.state !== 'running') output.end();
+      return output;
+    }),
+    changes: call(() => [...find(id).changes.entries()]
+      .map(([changePath, kind]) => ({ Path: changePath, Kind: kind }))),
+    infoArchive: call((options = {}) => {
+      const container = find(id);
+      const target = path.normalize(options.path || '/');
+      const node = fileNode(container, target);
+      const size = node.type === 'file' ? fileContent(node).length : 4096;
+      const typeBits = node.type === 'directory' ? GO_MODE_DIR : node.type === 'symlink' ? GO_MODE_SYMLINK : 0;
+      const stat = {
+        name: target === '/' ? '/' : path.basename(target),
+        size,
+        mode: typeBits + node.mode,
+        mtime: iso(node.mtime),
+        linkTarget: node.linkTarget || ''
+      };
+      const encoded = Buffer.from(JSON.stringify(stat)).toString('base64');
+      return { headers: { 'x-docker-container-path-stat': encoded }, resume: () => {} };
+    }),
+    getArchive: call((options = {}) => {
+      const output = new PassThrough();
+      output.end(archiveOf(find(id), options.path || '/'));
+      return output;
+    }),
+    putArchive: call(async (input, options = {}) => {
+      const container = find(id);
+      const directory = path.normalize(options.path || '/');
+      if (fileNode(container, directory).type !== 'directory') {
+        throw dockerError(400, `${directory} is not a directory`);
+      }
+      extract(container, directory, await readBody(input));
+    }),
+    exec: call(() => {
+      throw dockerError(501, 'exec is not available in the simulated engine');
+    })
+  });
+
+  const imageEntries = (sharedSize) => [...images.values()].map((image) => {
+    const using = containers.filter((container) => container.imageId === image.id).length;
+    const repo = image.tags[0] ? image.tags[0].split(':')[0] : null;
+    return {
+      Id: image.id,
+      ParentId: '',
+      RepoTags: image.tags.length ? image.tags : ['<none>:<none>'],
+      RepoDigests: repo ? [`${repo}@sha256:${image.id.slice(7, 71)}`] : ['<none>@<none>'],
+      Created: toSeconds(image.created),
+      Size: image.size,
+      SharedSize: sharedSize ? image.shared : -1,
+      Labels: {},
+      Containers: using
+    };
+  });
+
+  const volumeEntries = () => [...volumes.values()].map((volume) => ({
+    Name: volume.name,
+    Driver: 'local',
+    Mountpoint: `/var/lib/docker/volumes/${volume.name}/_data`,
+    CreatedAt: iso(volume.created),
+    Labels: volume.labels,
+    Scope: 'local',
+    Options: null,
+    UsageData: {
+      Size: volume.size,
+      RefCount: containers.filter((container) => container.mounts.some((mount) => mount.name === volume.name)).length
+    }
+  }));
+
+  const networkEntries = () => [...networks.values()].map((network) => ({
+    Name: network.name,
+    Id: network.id,
+    Created: iso(network.created),
+    Scope: 'local',
+    Driver: network.driver,
+    EnableIPv6: false,
+    IPAM: {
+      Driver: 'default',
+      Config: network.subnet ? [{ Subnet: network.subnet, Gateway: `${network.prefix}.1` }] : []
+    },
+    Internal: false,
+    Attachable: false,
+    Containers: {},
+    Labels: {}
+  }));
+
+  const remover = (lookup, inUse, forget) => (key) => ({
+    remove: call(() => {
+      const item = lookup(key);
+      if (!item) throw dockerError(404, `No such object: ${key}`);
+      const reason = inUse(item);
+      if (reason) throw dockerError(409, reason);
+      forget(item);
+    })
+  });
+
+  const getEvents = call((options = {}) => {
+    const output = new PassThrough();
+    const filters = typeof options.filters === 'string' ? JSON.parse(options.filters) : options.filters || {};
+    const actions = filters.event || null;
+    const matches = (event) => !actions || actions.includes(event.Action.split(':')[0]);
+    const send = (event) => {
+      if (matches(event)) output.write(`${JSON.stringify(event)}\n`);
+    };
+    if (options.since) eventLog.filter((event) => event.time >= Number(options.since)).forEach(send);
+    eventStreams.add(send);
+    output.on('close', () => eventStreams.delete(send));
+    return output;
+  });
+
+  if (autoTick) setInterval(advance, scenario.tickMs).unref();
+
+  return {
+    simulated: true,
+    scenario,
+    advance,
+    ping: call(() => 'OK'),
+    info: call(() => {
+      const inState = (state) => containers.filter((container) => container.state === state).length;
+      return {
+        ID: engineId,
+        Name: name,
+        Containers: containers.length,
+        ContainersRunning: inState('running'),
+        ContainersPaused: inState('paused'),
+        ContainersStopped: containers.length - inState('running') - inState('paused'),
+        Images: images.size,
+        Driver: 'overlay2',
+        CgroupDriver: scenario.cgroup === 1 ? 'cgroupfs' : 'systemd',
+        CgroupVersion: String(scenario.cgroup),
+        KernelVersion: SIM_KERNEL,
+        OperatingSystem: 'Simulated Engine',
+        OSType: 'linux',
+        Architecture: 'x86_64',
+        NCPU: scenario.cpus,
+        MemTotal: scenario.memory,
+        DockerRootDir: '/var/lib/docker',
+        ServerVersion: SIM_VERSION,
+        SystemTime: iso(clock())
+      };
+    }),
+    version: call(() => ({
+      Platform: { Name: 'ctop-web simulator' },
+      Version: SIM_VERSION,
+      ApiVersion: '1.47',
+      MinAPIVersion: '1.24',
+      Os: 'linux',
+      Arch: 'amd64',
+      KernelVersion: SIM_KERNEL,
+      GoVersion: 'go1.22.10'
+    })),
+    listContainers: call((options = {}) => containers
+      .filter((container) => options.all || container.state === 'running' || container.state === 'paused')
+      .map(listEntry)),
+    getContainer,
+    getEvents,
+    listImages: call((options = {}) => imageEntries(Boolean(options['shared-size']))),
+    listNetworks: call(() => networkEntries()),
+    df: call(() => ({
+      LayersSize: [...images.values()].reduce((total, image) => total + image.size - image.shared, 0),
+      Images: imageEntries(true),
+      Containers: containers.map((container) => ({
+        ...listEntry(container),
+        SizeRw: container.changes.size * 4096
+      })),
+      Volumes: volumeEntries(),
+      BuildCache: []
+    })),
+    getImage: remover(
+      (key) => [...images.values()].find((image) => image.id === key || image.tags.includes(key)),
+      (image) => (containers.some((container) => container.imageId === image.id)
+        ? `conflict: unable to delete ${image.id.slice(7, 19)} (must be forced) - image is being used by a container`
+        : null),
+      (image) => images.forEach((value, ref) => value === image && images.delete(ref))
+    ),
+    getVolume: remover(
+      (key) => volumes.get(key),
+      (volume) => (containers.some((container) => container.mounts.some((mount) => mount.name === volume.name))
+        ? `remove ${volume.name}: volume is in use`
+        : null),
+      (volume) => volumes.delete(volume.name)
+    ),
+    getNetwork: remover(
+      (key) => [...networks.values()].find((network) => network.id === key || network.name === key),
+      (network) => (BUILTIN_NETWORKS.includes(network.name)
+        ? `${network.name} is a pre-defined network and cannot be removed`
+        : containers.some((container) => container.network.id === network.id)
+          ? `error while removing network: network ${network.name} has active endpoints`
+          : null),
+      (network) => networks.delete(network.name)
+    )
+  };
+};
+
+// Builds a simulator from a host config: { name, scenario (file), seed, containers }.
+const createSimulatorFromConfig = (config) => createSimulatedDocker({
+  name: config.name,
+  scenario: loadScenario(config.scenario),
+  seed: config.seed,
+  containers: config.containers
+});
+
+module.exports = { createSimulatedDocker, createSimulatorFromConfig };
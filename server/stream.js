@@ -0,0 +1,84 @@
+// Turns the collector's snapshots into snapshot/delta events for live clients.
+// The hub holds no Docker streams of its own; it only listens to the collector
+// while at least one subscriber is connected.
+const createStatsStream = ({ collector }) => {
+  const subscribers = new Set();
+  let current = new Map();
+  let lastSent = new Map();
+  let unlisten = null;
+
+  // `uptime` ticks every second; clients format it from `startedAt`, so it is
+  // left out when deciding whether a container changed.
+  const comparable = ({ uptime, ...payload }) => JSON.stringify(payload);
+
+  const payloadsFrom = (snapshot) => {
+    const down = new Set(snapshot.hosts.filter((host) => host.ok === false).map((host) => host.name));
+    const payloads = new Map(snapshot.containers.map((payload) => [payload.id, payload]));
+    // Containers on an unreachable host keep their last known state.
+    current.forEach((payload, id) => {
+      if (down.has(payload.host) && !payloads.has(id)) payloads.set(id, payload);
+    });
+    return payloads;
+  };
+
+  const broadcast = (event, data) => {
+    subscribers.forEach((send) => send(event, data));
+  };
+
+  const update = (snapshot) => {
+    const payloads = payloadsFrom(snapshot);
+    const serialized = new Map();
+    const added = [];
+    const changed = [];
+
+    payloads.forEach((payload, id) => {
+      const json = comparable(payload);
+      serialized.set(id, json);
+      if (!lastSent.has(id)) {
+        added.push(payload);
+      } else if (lastSent.get(id) !== json) {
+        changed.push(payload);
+      }
+    });
+    const removed = [...lastSent.keys()].filter((id) => !payloads.has(id));
+
+    current = payloads;
+    lastSent = serialized;
+    broadcast('delta', { added, removed, changed, hosts: snapshot.hosts, fetchedAt: new Date().toISOString() });
+  };
+
+  const seed = (snapshot) => {
+    current = payloadsFrom(snapshot);
+    lastSent = new Map([...current].map(([id, payload]) => [id, comparable(payload)]));
+  };
+
+  // The first snapshot comes from a completed collection, so it already has stats.
+  const subscribe = async (send) => {
+    const snapshot = await collector.latest();
+    if (!unlisten) {
+      if (snapshot) seed(snapshot);
+      unlisten = collector.onSnapshot(update);
+    }
+
+    subscribers.add(send);
+    send('snapshot', {
+      containers: [...current.values()],
+      hosts: snapshot ? snapshot.hosts : [],
+      fetchedAt: new Date().toISOString()
+    });
+
+    return () => {
+      subscribers.delete(send);
+      if (subscribers.size === 0 && unlisten) {
+        unlisten();
+        unlisten = null;
+        current = new Map();
+        lastSent = new Map();
+      }
+    };
+  };
+
+  return { subscribe };
+};
+
+module.exports = { createStatsStream };
@@ -0,0 +1,74 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { buildTar, createTarParser, normalizePath } = require('../archive');
+
+// Parses a whole archive, feeding it in `chunkSize` pieces to exercise buffering.
+const parse = (archive, chunkSize = archive.length) => {
+  const entries = [];
+  const parser = createTarParser({
+    onEntry: (entry) => {
+      entries.push({ ...entry, content: '' });
+    },
+    onData: (entry, data) => {
+      entries[entries.length - 1].content += data.toString('utf8');
+    }
+  });
+  for (let offset = 0; offset < archive.length; offset += chunkSize) {
+    if (!parser.push(archive.subarray(offset, offset + chunkSize))) break;
+  }
+  return entries;
+};
+
+test('files, directories and symlinks round-trip through buildTar', () => {
+  const mtime = Date.parse('2026-01-02T03:04:05Z');
+  const archive = buildTar([
+    { name: 'etc', type: 'directory', mtime },
+    { name: 'etc/motd', content: 'hello\n', mode: 0o600, mtime },
+    { name: 'etc/link', type: 'symlink', linkTarget: 'motd', mtime }
+  ]);
+  assert.strictEqual(archive.length % 512, 0);
+  const entries = parse(archive, 100);
+  assert.deepStrictEqual(entries.map(({ name, type, size, mode, content, linkTarget }) => ({
+    name, type, size, mode, content, linkTarget
+  })), [
+    { name: 'etc/', type: 'directory', size: 0, mode: '0755', content: '', linkTarget: null },
+    { name: 'etc/motd', type: 'file', size: 6, mode: '0600', content: 'hello\n', linkTarget: null },
+    { name: 'etc/link', type: 'symlink', size: 0, mode: '0644', content: '', linkTarget: 'motd' }
+  ]);
+  assert.strictEqual(entries[1].mtime, '2026-01-02T03:04:05.000Z');
+});
+
+test('names and link targets past 100 bytes use PAX headers', () => {
+  const longName = `${'nested/'.repeat(20)}report-ü.txt`;
+  const longTarget = `/${'target/'.repeat(20)}file`;
+  const archive = buildTar([
+    { name: longName, content: 'x'.repeat(700) },
+    { name: 'short', type: 'symlink', linkTarget: longTarget }
+  ]);
+  const entries = parse(archive, 37);
+  assert.strictEqual(entries.length, 2);
+  assert.strictEqual(entries[0].name, longName);
+  assert.strictEqual(entries[0].content.length, 700);
+  assert.strictEqual(entries[1].name, 'short');
+  assert.strictEqual(entries[1].linkTarget, longTarget);
+});
+
+test('the parser stops when a handler returns false', () => {
+  const archive = buildTar([{ name: 'a', content: '1' }, { name: 'b', content: '2' }]);
+  const seen = [];
+  const parser = createTarParser({
+    onEntry: (entry) => {
+      seen.push(entry.name);
+      return false;
+    }
+  });
+  assert.strictEqual(parser.push(archive), false);
+  assert.deepStrictEqual(seen, ['a']);
+});
+
+test('paths must be absolute and cannot climb above the root', () => {
+  assert.strictEqual(normalizePath(undefined), '/');
+  assert.strictEqual(normalizePath('/var/../../etc//'), '/etc');
+  assert.strictEqual(normalizePath('etc/passwd'), null);
+  assert.strictEqual(normalizePath('/etc\0'), null);
+});
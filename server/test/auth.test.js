@@ -0,0 +1,33 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { hashPassword, parseCookies, parseTokens, verifyPassword } = require('../auth');
+
+test('cookies are split, trimmed and decoded', () => {
+  assert.deepStrictEqual(parseCookies('ctop_session=abc; theme=dark%20blue'), { ctop_session: 'abc', theme: 'dark blue' });
+  assert.deepStrictEqual(parseCookies('flag; a=b=c'), { flag: '', a: 'b=c' });
+  assert.deepStrictEqual(parseCookies(undefined), {});
+});
+
+test('cookies with malformed encoding are skipped', () => {
+  assert.deepStrictEqual(parseCookies('bad=%E0%A4%A; good=1'), { good: '1' });
+});
+
+test('passwords verify only against their own hash', () => {
+  const stored = hashPassword('hunter2', 'fixedsalt');
+  assert.match(stored, /^scrypt\$fixedsalt\$[0-9a-f]{128}$/);
+  assert.ok(verifyPassword('hunter2', stored));
+  assert.ok(!verifyPassword('hunter3', stored));
+  assert.ok(!verifyPassword('hunter2', 'plain$fixedsalt$abcd'));
+  assert.ok(!verifyPassword('hunter2', 'scrypt$fixedsalt$'));
+  assert.ok(!verifyPassword('hunter2', null));
+});
+
+test('tokens default to viewer and keep colons inside the token', () => {
+  assert.deepStrictEqual(parseTokens(' abc:operator, def ,,ghi:admin,a:b:viewer'), [
+    { token: 'abc', user: { username: 'token-1', role: 'operator' } },
+    { token: 'def', user: { username: 'token-2', role: 'viewer' } },
+    { token: 'ghi', user: { username: 'token-3', role: 'viewer' } },
+    { token: 'a:b', user: { username: 'token-4', role: 'viewer' } }
+  ]);
+  assert.deepStrictEqual(parseTokens(''), []);
+});
@@ -0,0 +1,45 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createLogParser } = require('../logs');
+
+const frame = (stream, text) => {
+  const payload = Buffer.from(text, 'utf8');
+  const header = Buffer.alloc(8);
+  header[0] = stream === 'stderr' ? 2 : 1;
+  header.writeUInt32BE(payload.length, 4);
+  return Buffer.concat([header, payload]);
+};
+
+test('multiplexed frames split into stdout and stderr lines', () => {
+  const parser = createLogParser();
+  const data = Buffer.concat([frame('stdout', 'one\ntw'), frame('stderr', 'oops\r\n'), frame('stdout', 'o\n')]);
+  assert.deepStrictEqual(parser.push(data), [
+    { stream: 'stdout', timestamp: null, text: 'one' },
+    { stream: 'stderr', timestamp: null, text: 'oops' },
+    { stream: 'stdout', timestamp: null, text: 'two' }
+  ]);
+});
+
+test('frames and multi-byte characters may arrive split across chunks', () => {
+  const parser = createLogParser();
+  const data = frame('stdout', 'grüße\n');
+  const lines = [];
+  for (let offset = 0; offset < data.length; offset += 3) {
+    lines.push(...parser.push(data.subarray(offset, offset + 3)));
+  }
+  assert.deepStrictEqual(lines, [{ stream: 'stdout', timestamp: null, text: 'grüße' }]);
+});
+
+test('timestamps are split off and trailing text is flushed', () => {
+  const parser = createLogParser({ timestamps: true });
+  assert.deepStrictEqual(parser.push(frame('stdout', '2026-01-01T00:00:00.000000000Z ready\n2026-01-01T00:00:01Z')), [
+    { stream: 'stdout', timestamp: '2026-01-01T00:00:00.000000000Z', text: 'ready' }
+  ]);
+  assert.deepStrictEqual(parser.flush(), [{ stream: 'stdout', timestamp: '2026-01-01T00:00:01Z', text: '' }]);
+});
+
+test('tty output is raw stdout without frame headers', () => {
+  const parser = createLogParser({ tty: true });
+  assert.deepStrictEqual(parser.push(Buffer.from('a\nb')), [{ stream: 'stdout', timestamp: null, text: 'a' }]);
+  assert.deepStrictEqual(parser.flush(), [{ stream: 'stdout', timestamp: null, text: 'b' }]);
+});
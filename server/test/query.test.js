@@ -0,0 +1,53 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { compileGlob } = require('../glob');
+const { compileQuery } = require('../query');
+
+const container = (overrides = {}) => ({
+  id: 'f3a9c1d2e4b5',
+  name: 'api-1',
+  state: 'running',
+  image: 'nginx:1.27',
+  labels: { team: 'payments' },
+  ports: '0.0.0.0:8080->80/tcp',
+  health: 'healthy',
+  host: 'local',
+  networks: 'bridge: 172.17.0.2',
+  cpu: 12,
+  memory: { percent: 40 },
+  memoryBytes: { usage: 512 * 1024 ** 2 },
+  pids: 4,
+  raw: { shortId: 'f3a9c1d2e4b5' },
+  ...overrides
+});
+
+test('globs match case-insensitively with * and ?', () => {
+  assert.ok(compileGlob('API-*').test('api-1'));
+  assert.ok(compileGlob('a?i-1').test('api-1'));
+  assert.ok(compileGlob('*').test(''));
+  assert.ok(compileGlob('a**b*c').test('aXbYc'));
+  assert.ok(!compileGlob('api').test('api-1'));
+  assert.ok(!compileGlob('a?').test('a'));
+  assert.ok(!compileGlob('a?', { singleChar: false }).test('ab'));
+  assert.ok(compileGlob('a?', { singleChar: false }).test('A?'));
+});
+
+test('query terms filter containers', () => {
+  const matches = (query, overrides) => compileQuery(query)(container(overrides));
+  assert.ok(matches('name:api* state:running'));
+  assert.ok(matches('image:nginx label:team=pay* port:80'));
+  assert.ok(!matches('-state:running'));
+  assert.ok(matches('(name:web* OR name:api*) mem>256mb'));
+  assert.throws(() => compileQuery('nope:1'), /Unknown field/);
+});
+
+test('wildcard-heavy patterns run in linear time', () => {
+  const name = 'a'.repeat(20000);
+  const patterns = [`${'*a'.repeat(200)}b`, `${'a*'.repeat(200)}b`, `${'*'.repeat(5000)}b`];
+  const started = Date.now();
+  patterns.forEach((pattern) => {
+    assert.ok(!compileQuery(`name:${pattern}`)(container({ name })));
+    assert.ok(!compileQuery(`label:${pattern}=x`)(container({ labels: { [name]: 'x' } })));
+  });
+  assert.ok(Date.now() - started < 2000, 'pathological globs took too long');
+});
@@ -0,0 +1,45 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createRedactionPolicy } = require('../redaction');
+
+const MASK = '********';
+
+test('arguments are masked in key=value, --flag=value and --flag value form', () => {
+  const policy = createRedactionPolicy();
+  assert.deepStrictEqual(
+    policy.redactArgs(['serve', 'DB_PASSWORD=s3cret', '--api-token=abc', '--client-secret', 'xyz', '--port', '80']),
+    ['serve', `DB_PASSWORD=${MASK}`, `--api-token=${MASK}`, '--client-secret', MASK, '--port', '80']
+  );
+  assert.deepStrictEqual(policy.redactArgs(['--secret', '--verbose']), ['--secret', '--verbose']);
+  assert.strictEqual(policy.redactArgs(null), null);
+});
+
+test('command lines are only rewritten when something was masked', () => {
+  const policy = createRedactionPolicy();
+  assert.strictEqual(policy.redactCommandLine('nginx  -g daemon off;'), 'nginx  -g daemon off;');
+  assert.strictEqual(policy.redactCommandLine('app --token abc'), `app --token ${MASK}`);
+});
+
+test('labels match on the full key and on its last segment', () => {
+  const policy = createRedactionPolicy();
+  assert.deepStrictEqual(policy.redactLabels({ 'com.example.api_token': 't', 'com.example.team': 'core' }), {
+    'com.example.api_token': MASK,
+    'com.example.team': 'core'
+  });
+});
+
+test('container labels add and allow keys', () => {
+  const policy = createRedactionPolicy();
+  const labels = { 'ctopweb.redact': 'DSN, *_URL', 'ctopweb.redact.allow': 'PUBLIC_TOKEN' };
+  assert.ok(policy.isSecretKey('DSN', labels));
+  assert.ok(policy.isSecretKey('database_url', labels));
+  assert.ok(!policy.isSecretKey('PUBLIC_TOKEN', labels));
+  assert.ok(policy.isSecretKey('PUBLIC_TOKEN'));
+});
+
+test('extra patterns are regular expressions and bad ones fail loudly', () => {
+  const policy = createRedactionPolicy({ patterns: ['^private_'], useDefaults: false });
+  assert.ok(policy.isSecretKey('PRIVATE_ADDR'));
+  assert.ok(!policy.isSecretKey('DB_PASSWORD'));
+  assert.throws(() => createRedactionPolicy({ patterns: ['(unclosed'] }), /Invalid redaction pattern "\(unclosed"/);
+});
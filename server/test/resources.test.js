@@ -0,0 +1,62 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { formatResources, parseResourceUpdate } = require('../resources');
+
+const MB = 1024 ** 2;
+
+const rejects = (input, hostConfig, field, message) => {
+  assert.throws(() => parseResourceUpdate(input, hostConfig), (err) => err.field === field && message.test(err.message));
+};
+
+test('sizes accept byte counts and binary suffixes', () => {
+  assert.deepStrictEqual(parseResourceUpdate({ memory: '2g', memoryReservation: '1.5G' }), {
+    Memory: 2048 * MB,
+    MemoryReservation: 1536 * MB
+  });
+  assert.strictEqual(parseResourceUpdate({ memory: 64 * MB }).Memory, 64 * MB);
+  assert.strictEqual(parseResourceUpdate({ memory: '2 GB' }).Memory, 2048 * MB);
+  rejects({ memory: '512q' }, {}, 'memory', /size such as 512M/);
+  rejects({ memory: 1.5 }, {}, 'memory', /whole number of bytes/);
+  rejects({ memory: '1m' }, {}, 'memory', /at least 6M/);
+});
+
+test('swap cannot drop below the memory limit', () => {
+  assert.deepStrictEqual(parseResourceUpdate({ memory: '256m', memorySwap: '512m' }), { Memory: 256 * MB, MemorySwap: 512 * MB });
+  assert.strictEqual(parseResourceUpdate({ memorySwap: -1 }, { Memory: 256 * MB }).MemorySwap, -1);
+  rejects({ memory: '512m', memorySwap: '256m' }, {}, 'memorySwap', /at least the memory limit/);
+  rejects({ memorySwap: '256m' }, { Memory: 512 * MB }, 'memorySwap', /at least the memory limit/);
+  rejects({ memorySwap: '1g' }, {}, 'memorySwap', /needs a memory limit/);
+  // Raising memory past the swap already configured would leave swap below it.
+  rejects({ memory: '1g' }, { Memory: 256 * MB, MemorySwap: 512 * MB }, 'memorySwap', /Raise memorySwap/);
+});
+
+test('nanoCpus and cpuQuota replace each other', () => {
+  assert.deepStrictEqual(parseResourceUpdate({ nanoCpus: 1500000000 }, { CpuQuota: 50000, CpuPeriod: 100000 }), {
+    NanoCpus: 1500000000,
+    CpuQuota: 0,
+    CpuPeriod: 0
+  });
+  assert.deepStrictEqual(parseResourceUpdate({ cpuQuota: 50000 }, { NanoCpus: 1e9 }), { CpuQuota: 50000, NanoCpus: 0 });
+  rejects({ nanoCpus: 1e9, cpuQuota: 50000 }, {}, 'nanoCpus', /not both/);
+  rejects({ cpuShares: 1 }, {}, 'cpuShares', /at least 2/);
+  rejects({ cpusetCpus: '0-a' }, {}, 'cpusetCpus', /0-3 or 0,2/);
+});
+
+test('restart policies and unknown fields are validated', () => {
+  assert.deepStrictEqual(parseResourceUpdate({ restartPolicy: { name: 'on-failure', maximumRetryCount: '3' } }), {
+    RestartPolicy: { Name: 'on-failure', MaximumRetryCount: 3 }
+  });
+  rejects({ restartPolicy: { name: 'always', maximumRetryCount: 2 } }, {}, 'restartPolicy', /only applies to the on-failure/);
+  rejects({ restartPolicy: 'sometimes' }, {}, 'restartPolicy', /must be one of/);
+  rejects({ memroy: '1g' }, {}, 'memroy', /Unknown resource field/);
+  rejects({}, {}, null, /No resource fields/);
+  rejects([], {}, null, /JSON object/);
+});
+
+test('missing host config fields format as zero', () => {
+  assert.deepStrictEqual(formatResources({ Memory: 512 * MB, RestartPolicy: { Name: 'always' } }).restartPolicy, {
+    name: 'always',
+    maximumRetryCount: 0
+  });
+  assert.strictEqual(formatResources().cpusetCpus, '');
+});
@@ -0,0 +1,143 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { normalizeScenario } = require('../scenario');
+const { createSimulatedDocker } = require('../simulator');
+const { blockIO, cpuPercent, createRateTracker, memoryUsage, networkIO } = require('../metrics');
+
+const MB = 1024 ** 2;
+const T0 = Date.parse('2026-01-01T00:00:00Z');
+
+const SERVICES = [
+  {
+    name: 'app', image: 'busybox:1.36', restartPolicy: 'on-failure', cpu: [10, 20],
+    memory: { limit: '64M', usage: ['8M', '16M'] }, net: { rx: '1K', tx: '2K' }, block: { write: '4K' }
+  },
+  { name: 'worker', image: 'busybox:1.36', restartPolicy: 'no', memory: { limit: '64M', usage: ['8M', '16M'] } }
+];
+
+// A simulator on a hand-driven clock: `at(ms)` moves time to T0 + ms.
+const simulate = ({ timeline = [], cgroup = 2, name = 'sim' } = {}) => {
+  let now = T0;
+  const docker = createSimulatedDocker({
+    name,
+    seed: 42,
+    clock: () => now,
+    autoTick: false,
+    scenario: { tick: '1s', cgroup, services: SERVICES, timeline }
+  });
+  const at = (ms) => {
+    now = T0 + ms;
+  };
+  return { docker, at };
+};
+
+test('scenario durations and sizes accept units and fall back to seconds and bytes', () => {
+  const scenario = normalizeScenario({
+    tick: '500ms',
+    memory: '1.5g',
+    loop: '2m',
+    services: [{ name: 'db', image: 'postgres:16', memory: { limit: '512M', usage: [1024, '2kb'] } }],
+    timeline: [
+      { at: '1.5m', target: 'db', action: 'load', for: '30s' },
+      { at: 5, target: 'db', action: 'crash' }
+    ]
+  });
+  assert.strictEqual(scenario.tickMs, 500);
+  assert.strictEqual(scenario.memory, 1.5 * 1024 ** 3);
+  assert.strictEqual(scenario.loopMs, 120000);
+  assert.strictEqual(scenario.services[0].memory.limit, 512 * MB);
+  assert.deepStrictEqual(scenario.services[0].memory.usage, { min: 1024, max: 2048 });
+  assert.deepStrictEqual(scenario.timeline.map(({ atMs, action, forMs }) => [atMs, action, forMs]), [
+    [5000, 'crash', 60000],
+    [90000, 'load', 30000]
+  ]);
+});
+
+test('bad scenario values are rejected with the offending field', () => {
+  assert.throws(() => normalizeScenario({ tick: '50ms' }), /tick must be at least 100ms/);
+  assert.throws(() => normalizeScenario({ memory: '12 bananas' }), /memory has an unreadable value/);
+  assert.throws(
+    () => normalizeScenario({ services: [{ name: 'db', image: 'x', memory: { usage: ['2M', '1M'] } }] }),
+    /services\[0\]\.memory\.usage must be \[min, max\]/
+  );
+  assert.throws(() => normalizeScenario({ timeline: [{ target: 'db', action: 'explode' }] }), /timeline\[0\]\.action/);
+});
+
+test('the same seed and clock produce the same fleet and stats', async () => {
+  const frames = await Promise.all([simulate(), simulate()].map(async ({ docker, at }) => {
+    at(3000);
+    return docker.getContainer('app').stats({ stream: false });
+  }));
+  assert.deepStrictEqual(frames[0], frames[1]);
+  const other = await simulate({ name: 'other' }).docker.listContainers({ all: true });
+  assert.notStrictEqual(other[0].Id, frames[0].id);
+});
+
+test('timeline crashes restart on-failure containers and oom kills stay down', async () => {
+  const { docker, at } = simulate({
+    timeline: [
+      { at: 2, target: 'app', action: 'crash', exitCode: 3 },
+      { at: 3, target: 'worker', action: 'oom' }
+    ]
+  });
+  at(2000);
+  let app = await docker.getContainer('app').inspect();
+  assert.strictEqual(app.State.Status, 'restarting');
+  assert.strictEqual(app.State.ExitCode, 3);
+
+  at(5000);
+  app = await docker.getContainer('app').inspect();
+  const worker = await docker.getContainer('worker').inspect();
+  assert.strictEqual(app.State.Status, 'running');
+  assert.strictEqual(app.RestartCount, 1);
+  assert.strictEqual(worker.State.Status, 'exited');
+  assert.strictEqual(worker.State.OOMKilled, true);
+  assert.strictEqual(worker.State.ExitCode, 137);
+  const stats = await docker.getContainer('worker').stats({ stream: false });
+  assert.deepStrictEqual(memoryUsage(stats), { usage: 0, limit: 0, percent: 0, rss: 0, cache: 0, swap: null });
+});
+
+test('stats frames read back through cpuPercent and memoryUsage', async () => {
+  for (const cgroup of [1, 2]) {
+    const { docker, at } = simulate({ cgroup });
+    at(10000);
+    const stats = await docker.getContainer('app').stats({ stream: false });
+    const cpu = cpuPercent(stats);
+    assert.ok(cpu >= 10 && cpu <= 20, `cgroup v${cgroup} cpu ${cpu}`);
+    const memory = memoryUsage(stats);
+    assert.strictEqual(memory.limit, 64 * MB);
+    assert.ok(memory.usage >= 8 * MB && memory.usage <= 16 * MB * 1.05, `cgroup v${cgroup} memory ${memory.usage}`);
+    assert.ok(memory.rss >= 8 * MB && memory.rss <= 16 * MB);
+    assert.strictEqual(memory.percent, (memory.usage / memory.limit) * 100);
+  }
+});
+
+test('the rate tracker turns simulated counters into bytes per second', async () => {
+  const { docker, at } = simulate();
+  const rates = createRateTracker();
+  const sample = async (ms) => {
+    at(ms);
+    const stats = await docker.getContainer('app').stats({ stream: false });
+    const net = networkIO(stats);
+    const blk = blockIO(stats);
+    return rates.update(stats.id, Date.parse(stats.read), { rx: net.rx, tx: net.tx, read: blk.read, write: blk.write });
+  };
+
+  assert.deepStrictEqual(await sample(1000), { rx: 0, tx: 0, read: 0, write: 0 });
+  const rate = await sample(5000);
+  // Each tick adds 0.4-1.6× the configured per-second traffic.
+  assert.ok(rate.rx >= 0.4 * 1024 && rate.rx <= 1.6 * 1024, `rx ${rate.rx}`);
+  assert.ok(rate.tx >= 0.4 * 2048 && rate.tx <= 1.6 * 2048, `tx ${rate.tx}`);
+  assert.ok(rate.write > 0);
+  assert.strictEqual(rate.read, 0);
+  // A frame with the same timestamp reuses the previous rates.
+  assert.deepStrictEqual(await sample(5500), rate);
+});
+
+test('rates count from zero when a counter goes backwards', () => {
+  const rates = createRateTracker();
+  rates.update('a', 0, { rx: 5000, tx: 0, read: 0, write: 0 });
+  assert.deepStrictEqual(rates.update('a', 2000, { rx: 1000, tx: 0, read: 0, write: 0 }), { rx: 500, tx: 0, read: 0, write: 0 });
+  rates.forget(new Set());
+  assert.deepStrictEqual(rates.update('a', 4000, { rx: 9000, tx: 0, read: 0, write: 0 }), { rx: 0, tx: 0, read: 0, write: 0 });
+});
@@ -0,0 +1,21 @@
+// Small helpers shared by several server modules.
+
+// Binary size suffixes accepted wherever a size can be typed: "512m", "2GB", "1t".
+const SIZE_UNITS = {
+  b: 1,
+  k: 1024,
+  kb: 1024,
+  m: 1024 ** 2,
+  mb: 1024 ** 2,
+  g: 1024 ** 3,
+  gb: 1024 ** 3,
+  t: 1024 ** 4,
+  tb: 1024 ** 4
+};
+
+// dockerode errors carry the daemon's message in `json.message`; fall back to the generic fields.
+const errorMessage = (err) => (err && ((err.json && err.json.message) || err.reason || err.message)) || String(err);
+
+const sumBy = (items, pick) => items.reduce((total, item) => total + (pick(item) || 0), 0);
+
+module.exports = { SIZE_UNITS, errorMessage, sumBy };